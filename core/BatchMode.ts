@@ -0,0 +1,116 @@
+import {IExecutionResult, Replanner} from "../world/PlanExecution";
+import {IRecordedError, RecordingWorld} from "../world/RecordingWorld";
+import {serializeWorldState} from "../world/WorldFile";
+import {Plan} from "./Plan";
+import {createTrace, IUtteranceTrace, ShrdliteSession, splitStringIntoPlan} from "./Shrdlite";
+
+/*
+ * BatchMode
+ *
+ * Runs utterances without any interaction, and describes what happened to each of them
+ * as one JSON object, so that scripts can drive Shrdlite. It is used by 'shrdlite-offline.ts'
+ * with the option --batch, which writes one object per line.
+ *
+ * The "world" of a record is written like a world file, so it can be loaded again with --world-file.
+ */
+
+/**
+ * What happened to an utterance.
+ * "done":     The plan was performed to the end, or there was nothing to do.
+ * "halted":   The plan stopped at an action that would have broken the physical laws.
+ * "question": The utterance is ambiguous, the answer to the question can be the next utterance.
+ * "error":    The utterance could not be parsed, interpreted or planned.
+ */
+export type BatchStatus = "done" | "halted" | "question" | "error";
+
+export interface IBatchRecord {
+    utterance: string;
+    status: BatchStatus;
+    parses: string[];                      // All parses of the utterance
+    interpretations: string[];             // The chosen interpretation of every command, as DNF formulas
+    plan: Plan | null;                     // The plan that was performed
+    question: string | null;               // The clarification question, if the utterance is ambiguous
+    output: string[];                      // What the robot said
+    errors: IRecordedError[];
+    execution: IExecutionResult | null;    // How the plan was performed
+    world: object;                         // The world state afterwards, in the format of world files
+}
+
+// The parts of a record that depend on how far the utterance got
+interface IOutcome {
+    status: BatchStatus;
+    plan?: Plan;
+    question?: string;
+    execution?: IExecutionResult;
+}
+
+/**
+ * Run an utterance, a typed plan like "r p l d", or the number of an example utterance of the world.
+ * @param session: The session, whose world is changed by the plan.
+ * @param utterance: The utterance.
+ * @returns: The record of what happened.
+ */
+export function runUtterance(session: ShrdliteSession<RecordingWorld>, utterance: string): IBatchRecord {
+    const world = session.world;
+    world.clear();
+    const trace = createTrace();
+    const example = parseInt(utterance, 10);
+    if (!isNaN(example) && String(example) === utterance.trim()) {
+        if (!world.currentState.examples[example]) {
+            world.printError("[Unknown example]", `Cannot find example no. ${example}`);
+            return createRecord(world, utterance, trace, {status: "error"});
+        }
+        utterance = world.currentState.examples[example];
+    }
+
+    const typed = splitStringIntoPlan(utterance);
+    let theplan: Plan | null | string;
+    let replanner: Replanner | undefined;
+    if (typed) {
+        theplan = session.acceptTypedPlan(typed);
+    } else {
+        theplan = session.parseUtteranceIntoPlan(utterance, trace);
+        replanner = session.getReplanner();
+    }
+    if (theplan === null) {
+        return createRecord(world, utterance, trace, {status: "error"});
+    }
+    if (typeof theplan === "string") {
+        return createRecord(world, utterance, trace, {question: theplan, status: "question"});
+    }
+
+    // The text world performs plans right away, so the result is there when performPlan returns
+    let execution: IExecutionResult | undefined;
+    world.performPlan(theplan, (result) => {
+        session.recordExecution(result);
+        execution = result;
+    }, replanner);
+    const completed = execution === undefined || (execution as IExecutionResult).completed;
+    return createRecord(world, utterance, trace, {execution, plan: theplan, status: completed ? "done" : "halted"});
+}
+
+/**
+ * Describe what happened to an utterance.
+ * @param world: The world, with the output of the utterance.
+ * @param utterance: The utterance.
+ * @param trace: The parses and interpretations of the utterance.
+ * @param outcome: The status, and the plan, question and execution if there are any.
+ * @returns: The record, with null for the missing parts.
+ */
+function createRecord(world: RecordingWorld,
+                      utterance: string,
+                      trace: IUtteranceTrace,
+                      outcome: IOutcome): IBatchRecord {
+    return {
+        errors: world.errors,
+        execution: outcome.execution || null,
+        interpretations: trace.interpretations.map((interpretation) => interpretation.toString()),
+        output: world.output,
+        parses: trace.parses.map((parse) => parse.toString()),
+        plan: outcome.plan || null,
+        question: outcome.question || null,
+        status: outcome.status,
+        utterance,
+        world: JSON.parse(serializeWorldState(world.currentState)),
+    };
+}
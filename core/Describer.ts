@@ -1,6 +1,22 @@
 import {AmbiguityError} from "../interpreter/AmbiguityError";
 import {GetSimple, GroupBy} from "./Helper";
-import {Entity, Location, Object, RelativeObject, SimpleObject} from "./Types";
+import {
+    Column,
+    CountCommand,
+    DNFFormula,
+    Entity,
+    ExistsCommand,
+    Literal,
+    Location,
+    Law,
+    Object,
+    Question,
+    Rejection,
+    RelativeObject,
+    SimpleObject,
+    SuperlativeObject,
+    WhereisCommand,
+} from "./Types";
 import {WorldState} from "../world/World";
 import {NodeLowLevel} from "../planner/PlannerLowLevel";
 
@@ -102,7 +118,23 @@ function DescribeLocation(location: Location): string {
     if (location.relation === "holding") {
         return "being held";
     }
-    return `that is ${location.relation} ${DescribeEntity(location.entity)}`;
+    if (location.entity instanceof Column) {
+        return `that is ${location.polarity ? "" : "not "}in ${DescribeColumn(location.entity)}`;
+    }
+    return `that is ${location.polarity ? "" : "not "}${location.relation} ${DescribeEntity(location.entity)}`;
+}
+
+/**
+ * Describe a column in human readable form.
+ * @param  column The column to describe.
+ * @return        The description of the column, e.g. "column 2" or "an empty column",
+ *                columns are numbered from 1 like they are shown below the world.
+ */
+function DescribeColumn(column: Column): string {
+    if (column.index !== null) {
+        return `column ${column.index + 1}`;
+    }
+    return column.quantifier === "any" ? "an empty column" : `the ${column.quantifier} empty column`;
 }
 
 /**
@@ -111,7 +143,26 @@ function DescribeLocation(location: Location): string {
  * @return        The entitys description.
  */
 function DescribeEntity(entity: Entity): string {
-    return `${entity.quantifier} ${DescribeObject(entity.object)}`;
+    if (entity.quantifier === "it") {
+        return "it";
+    }
+    return `${DescribeQuantifier(entity)} ${DescribeObject(entity.object)}`;
+}
+
+/**
+ * Describe the quantifier of an entity in human readable form.
+ * @param  entity The entity with the quantifier.
+ * @return        The description of the quantifier, e.g. "at least 2".
+ */
+function DescribeQuantifier(entity: Entity): string {
+    switch (entity.quantifier) {
+        case "atleast":
+            return `at least ${entity.count}`;
+        case "exactly":
+            return `exactly ${entity.count}`;
+        default:
+            return entity.quantifier;
+    }
 }
 
 /**
@@ -127,18 +178,52 @@ export function DescribeObjectState(object: string, state: NodeLowLevel): string
 
 /**
  * Desribes an object in human readable form by splitting RelativeObjects
- * into SimpleObjects and locations.
+ * and SuperlativeObjects into SimpleObjects, superlatives and locations.
  * @param  object The object we want to describe.
  * @return        The description of the object.
  */
 export function DescribeObject(object: Object): string {
-    const locations: Location[] = [];
+    const superlatives: string[] = [];
+    const locations: string[] = [];
     let relativeObject = object;
-    while (relativeObject instanceof RelativeObject) {
-        locations.push(relativeObject.location);
+    while (!(relativeObject instanceof SimpleObject)) {
+        if (relativeObject instanceof RelativeObject) {
+            locations.push(DescribeLocation(relativeObject.location));
+        } else if (superlativePhrases.hasOwnProperty(relativeObject.superlative)) {
+            superlatives.push(superlativePhrases[relativeObject.superlative]);
+        } else {
+            locations.push(DescribeSuperlative(relativeObject));
+        }
         relativeObject = relativeObject.object;
     }
-    return `${DescribeSimpleObject(relativeObject)} ${locations.map(DescribeLocation).join(" ")}`;
+    return superlatives.concat(DescribeSimpleObject(relativeObject)).join(" ") + ` ${locations.join(" ")}`;
+}
+
+/**
+ * Phrases used to describe superlatives in front of an object.
+ */
+const superlativePhrases: {[superlative: string]: string} = {
+    highest: "highest",
+    leftmost: "leftmost",
+    lowest: "lowest",
+    rightmost: "rightmost",
+};
+
+/**
+ * Describe a superlative that follows an object in human readable form.
+ * @param  object The superlative object.
+ * @return        The description of the superlative, e.g. "closest to the arm".
+ */
+function DescribeSuperlative(object: SuperlativeObject): string {
+    switch (object.superlative) {
+        case "tallest":
+            return "on the tallest stack";
+        case "shortest":
+            return "on the shortest stack";
+        default:
+            const reference = object.reference === undefined ? "the arm" : DescribeEntity(object.reference);
+            return object.superlative === "closest" ? `closest to ${reference}` : `farthest from ${reference}`;
+    }
 }
 
 /**
@@ -152,16 +237,208 @@ function DescribeSimpleObject(object: SimpleObject): string {
         + (object.form === "anyform" ? "object" : object.form);
 }
 
+/**
+ * Phrases used to describe the relations of literals.
+ */
+const relationPhrases: {[relation: string]: string} = {
+    "above": "above",
+    "at any location": "somewhere",
+    "beside": "beside",
+    "holding": "being held",
+    "incolumn": "in",
+    "inside": "in",
+    "leftof": "left of",
+    "ontop": "on",
+    "rightof": "right of",
+    "under": "under",
+};
+
+/**
+ * Answers a question in English, using the facts found by the interpreter.
+ * @param  question       The question that was asked.
+ * @param  interpretation The facts that hold, one conjunction per described object.
+ * @param  world          The world state the facts hold in.
+ * @return                The answer to the question.
+ */
+export function DescribeAnswer(question: Question, interpretation: DNFFormula, world: WorldState): string {
+    const literals = interpretation.conjuncts
+        .map((conjunction) => conjunction.literals)
+        .reduce((acc, next) => acc.concat(next), []);
+
+    if (question instanceof WhereisCommand) {
+        if (interpretation.conjuncts.length === 0) {
+            return "I cannot find anything like that.";
+        }
+        return interpretation.conjuncts.map((conjunction) => {
+            const subject = DescribeName(conjunction.literals[0].args[0], world);
+            const facts = conjunction.literals.map((literal) => DescribeFact(literal, world));
+            return `${Capitalize(subject)} is ${facts.join(", ")}.`;
+        }).join(" ");
+    }
+
+    if (question instanceof CountCommand || question instanceof ExistsCommand) {
+        const simpleObject = GetSimple(question.entity.object);
+        const objects = literals.map((literal) => DescribeName(literal.args[0], world));
+        if (question instanceof CountCommand) {
+            if (objects.length === 0) {
+                return `I count no ${Pluralize(DescribeSimpleObject(simpleObject))}.`;
+            }
+            const noun = DescribeSimpleObject(simpleObject);
+            return `I count ${objects.length} ${objects.length === 1 ? noun : Pluralize(noun)}: `
+                + `${StringAndJoin(objects)}.`;
+        }
+        if (objects.length === 0) {
+            const such = question.entity.object instanceof RelativeObject ? "such " : "";
+            return `No, there is no ${such}${DescribeSimpleObject(simpleObject)}.`;
+        }
+        return `Yes, there ${objects.length === 1 ? "is" : "are"} ${StringAndJoin(objects)}.`;
+    }
+
+    if (literals.length === 0) {
+        const location = question.location;
+        const target = location.relation === "holding" || location.relation === "at any location" ? ""
+            : location.entity instanceof Column ? ` ${DescribeColumn(location.entity)}`
+            : ` ${DescribeEntity(location.entity).trim()}`;
+        return `Nothing is ${relationPhrases[location.relation]}${target}.`;
+    }
+
+    // Group the subjects by what they are related to
+    const grouped = GroupBy(literals, (literal: Literal) => DescribeFact(literal, world));
+    return Object.keys(grouped).map((fact) => {
+        const subjects = ((grouped as any)[fact] as Literal[])
+            .map((literal) => DescribeName(literal.args[0], world));
+        return `${Capitalize(StringAndJoin(subjects))} ${subjects.length > 1 ? "are" : "is"} ${fact}.`;
+    }).join(" ");
+}
+
+/**
+ * Explains why a command is impossible, by the laws that were broken most often.
+ * Every law gets a sentence of its own.
+ * @param  rejections The literals that were rejected, and the laws that rejected them.
+ * @param  world      The world state to get objects from.
+ * @return            The explanation, e.g. "That is impossible, because nothing can be placed on the small black ball,
+ *                    balls cannot support anything. Also, the floor cannot be moved."
+ */
+export function DescribeRejections(rejections: Rejection[], world: WorldState): string {
+    const grouped = GroupBy(rejections, (rejection: Rejection) => rejection.law);
+    const laws = Object.keys(grouped)
+        .map((law) => (grouped as any)[law] as Rejection[])
+        .sort((a, b) => b.length - a.length)
+        .slice(0, 2);
+    const explanations = laws.map((group) => DescribeRejection(group[0], world));
+    return [`That is impossible, because ${explanations[0]}.`]
+        .concat(explanations.slice(1).map((explanation) => `Also, ${explanation}.`))
+        .join(" ");
+}
+
+/**
+ * Explains why a single literal is impossible.
+ * @param  rejection The rejected literal and the law that rejected it.
+ * @param  world     The world state to get objects from.
+ * @return           The explanation, e.g. "the large white ball cannot be on the table, balls must be in boxes".
+ */
+function DescribeRejection(rejection: Rejection, world: WorldState): string {
+    const literal = rejection.literal;
+    if (rejection.law === "floor") {
+        return "the floor cannot be moved";
+    }
+    if (rejection.law === "arity") {
+        return `"${relationPhrases[literal.relation]}" needs two objects`;
+    }
+
+    // "under" is described the other way around, so that "top" is always the object that is supported
+    const [top, bottom] = (literal.relation === "under" ? literal.args.slice().reverse() : literal.args)
+        .map((name) => DescribeName(name, world));
+    const reasons: {[law: string]: string} = {
+        "ball rolls": `${top} would roll away, balls can only be in boxes or on the floor`,
+        "ball support": `nothing can be placed on ${bottom}, balls cannot support anything`,
+        "box contents": `${top} does not fit in ${bottom}, `
+            + `boxes cannot contain pyramids, planks or boxes of the same size`,
+        "inside non-box": `nothing can be inside ${bottom}, only boxes can contain objects`,
+        "large box support": `${top} cannot stand on ${bottom}, large boxes cannot be supported by pyramids`,
+        "ontop box": `objects go inside ${bottom}, not on top of it`,
+        "size": literal.relation === "inside" ? `${top} does not fit in ${bottom}`
+            : `${bottom} cannot support ${top}, small objects cannot support large objects`,
+        "small box support": `${top} cannot stand on ${bottom}, `
+            + `small boxes cannot be supported by small bricks or pyramids`,
+    };
+    return reasons[rejection.law];
+}
+
+/**
+ * Describes the relation of a literal to its second argument.
+ * @param  literal The literal to describe.
+ * @param  world   The world state to get objects from.
+ * @return         The description of the fact, e.g. "left of the large blue table".
+ */
+function DescribeFact(literal: Literal, world: WorldState): string {
+    const phrase = relationPhrases[literal.relation];
+    if (literal.relation === "incolumn") {
+        return `${phrase} column ${Number(literal.args[1]) + 1}`;
+    }
+    return literal.args.length < 2 ? phrase : `${phrase} ${DescribeName(literal.args[1], world)}`;
+}
+
+/**
+ * Describes an object of the world by its name.
+ * @param  name  The name of the object.
+ * @param  world The world state to get the object from.
+ * @return       The description of the object, e.g. "the large white ball".
+ */
+function DescribeName(name: string, world: WorldState): string {
+    if (name === "floor") {
+        return "the floor";
+    }
+    return `the ${DescribeSimpleObject(world.objects[name])}`;
+}
+
+/**
+ * Turns the description of an object into its plural form.
+ * @param  noun The description to pluralize, e.g. "large box".
+ * @return      The pluralized description, e.g. "large boxes".
+ */
+function Pluralize(noun: string): string {
+    return noun.slice(-3) === "box" ? `${noun}es` : `${noun}s`;
+}
+
+/**
+ * Capitalizes the first letter of a sentence.
+ * @param  sentence The sentence to capitalize.
+ * @return          The capitalized sentence.
+ */
+function Capitalize(sentence: string): string {
+    return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
+
+/**
+ * Joins a set of strings seperated by and.
+ * @param  strings The strings we want to seperate.
+ * @return         And seperated strings. e.g. [ball, box, plank] => Ball, box, and plank.
+ */
+function StringAndJoin(strings: string[]): string {
+    return StringJoin(strings.slice(), "and");
+}
+
 /**
  * Joins a set of strings seperated by or.
  * @param  strings The strings we want to seperate.
  * @return         Or seperated strings. e.g. [ball, box, plank] => Ball, box, or plank.
  */
 function StringOrJoin(strings: string[]): string {
+    return StringJoin(strings, "or");
+}
+
+/**
+ * Joins a set of strings, using a conjunction before the last one.
+ * @param  strings     The strings we want to seperate.
+ * @param  conjunction The word put before the last string.
+ * @return             Seperated strings. e.g. [ball, box, plank] => Ball, box, or plank.
+ */
+function StringJoin(strings: string[], conjunction: string): string {
     if (strings.length === 1) {
         return strings[0];
     }
     let last = strings.splice(-1, 1)[0];
-    last = (strings.length > 1 ? ", or " : " or ") + last;
+    last = (strings.length > 1 ? `, ${conjunction} ` : ` ${conjunction} `) + last;
     return strings.join(", ") + last;
 }
@@ -0,0 +1,77 @@
+import {Literal} from "./Types";
+
+/*
+ * Discourse
+ *
+ * This module remembers which objects have been talked about, so that
+ * pronouns like "it" and "that box" can refer to them in later commands.
+ */
+
+/**
+ * The objects mentioned by a single command or question.
+ */
+interface IMention {
+    primary: string[];    // The objects that were moved or asked about
+    secondary: string[];  // The objects they were related to
+}
+
+/**
+ * Memory of the objects mentioned in the last commands, the most recent mention last.
+ * @param size: The number of commands to remember.
+ */
+export class DiscourseMemory {
+    private mentions: IMention[] = [];
+
+    public constructor(public size: number = 5) {}
+
+    /**
+     * Remember the objects of a command or question.
+     * @param literals: The literals that were achieved or answered, negated literals only mention their objects.
+     */
+    public mention(literals: Literal[]): void {
+        const primary: string[] = [];
+        const secondary: string[] = [];
+        for (const literal of literals) {
+            literal.args.forEach((arg, index) => {
+                const list = index === 0 && literal.polarity ? primary : secondary;
+                if (primary.indexOf(arg) < 0 && secondary.indexOf(arg) < 0) {
+                    list.push(arg);
+                }
+            });
+        }
+        if (primary.length === 0 && secondary.length === 0) {
+            return;
+        }
+        this.mentions.push({primary, secondary});
+        if (this.mentions.length > this.size) {
+            this.mentions.shift();
+        }
+    }
+
+    /**
+     * Find the objects a pronoun might refer to, these are the matching objects of the most recent mention.
+     * @param moved: True for "it", which refers to moved objects, false for "that one", which refers to any.
+     * @param matches: Checks if an object can be referred to.
+     * @returns: The names of the objects, empty if nothing that was mentioned matches.
+     */
+    public getReferents(moved: boolean, matches: (name: string) => boolean): string[] {
+        for (let i = this.mentions.length - 1; i >= 0; i--) {
+            const mention = this.mentions[i];
+            const names = (moved ? mention.primary : mention.primary.concat(mention.secondary)).filter(matches);
+            if (names.length > 0) {
+                return names;
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Copy the memory, so that mentions can be tried out without affecting the original.
+     * @returns: A memory with the same mentions.
+     */
+    public clone(): DiscourseMemory {
+        const result = new DiscourseMemory(this.size);
+        result.mentions = this.mentions.slice();
+        return result;
+    }
+}
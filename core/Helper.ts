@@ -1,4 +1,15 @@
-import {Object, RelativeObject, SimpleObject} from "./Types";
+import {
+    Command,
+    CountCommand,
+    ExistsCommand,
+    Object,
+    Question,
+    RelativeObject,
+    SimpleObject,
+    SuperlativeObject,
+    WhatisCommand,
+    WhereisCommand,
+} from "./Types";
 
 export function GroupBy<T>(values: T[], key: (value: T) => any) {
     return values.reduce((accumulation, next) => {
@@ -9,8 +20,13 @@ export function GroupBy<T>(values: T[], key: (value: T) => any) {
 
 export function GetSimple(object: Object): SimpleObject {
     let obj = object;
-    while (obj instanceof RelativeObject) {
+    while (obj instanceof RelativeObject || obj instanceof SuperlativeObject) {
         obj = obj.object;
     }
     return obj;
 }
+
+export function IsQuestion(command: Command): command is Question {
+    return command instanceof WhereisCommand || command instanceof WhatisCommand
+        || command instanceof CountCommand || command instanceof ExistsCommand;
+}
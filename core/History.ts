@@ -0,0 +1,149 @@
+import {NodeLowLevel} from "../planner/PlannerLowLevel";
+import {countArms, getArms, invertStep, isStep, setArms} from "../world/Arms";
+import {WorldState} from "../world/World";
+
+/*
+ * History
+ *
+ * This module keeps track of the plans that have been executed, so that
+ * they can be undone and redone later on.
+ */
+
+/**
+ * How a previous world state is restored:
+ * - "reset" puts every object back instantaneously,
+ * - "move" lets the robot perform the inverse of the executed actions.
+ */
+export type RestoreMode = "reset" | "move";
+
+/**
+ * The result of undoing or redoing commands.
+ */
+export interface IRestoration {
+    actions: string[];  // Robot actions leading from the current state to the restored state
+    state: WorldState;  // The restored world state
+    steps: number;      // The number of commands that have been undone or redone
+}
+
+/**
+ * An executed plan, together with the world state it was executed in.
+ */
+interface IHistoryEntry {
+    actions: string[];
+    before: WorldState;
+}
+
+/**
+ * Undo and redo stacks of executed plans.
+ * @param mode: How previous world states are restored.
+ */
+export class WorldHistory {
+    private undoStack: IHistoryEntry[] = [];
+    private redoStack: IHistoryEntry[] = [];
+    private lastRecorded: IHistoryEntry | undefined;  // The entry of the last recorded plan, until undo or redo
+
+    public constructor(public mode: RestoreMode = "move") {}
+
+    /**
+     * Record a plan before it is performed. Plans without robot actions are ignored.
+     * @param state: The world state the plan will be performed in.
+     * @param plan: The plan, robot actions can be mixed with utterances.
+     */
+    public record(state: WorldState, plan: string[]): void {
+        const actions = plan.map((item) => item.trim()).filter((item) => isStep(item, countArms(state)));
+        if (actions.length === 0) {
+            return;
+        }
+        this.lastRecorded = {actions, before: cloneState(state)};
+        this.undoStack.push(this.lastRecorded);
+        this.redoStack.length = 0;
+    }
+
+    /**
+     * Correct the actions of the last recorded plan, when the robot did not perform it as recorded
+     * because it halted or was replaced by a new plan. Nothing changes after an undo or redo.
+     * @param actions: The robot actions that were actually performed, the plan is forgotten if there are none.
+     */
+    public correct(actions: string[]): void {
+        const entry = this.lastRecorded;
+        if (entry === undefined || this.undoStack[this.undoStack.length - 1] !== entry) {
+            return;
+        }
+        if (actions.length === 0) {
+            this.undoStack.pop();
+            this.lastRecorded = undefined;
+        } else {
+            entry.actions = actions.slice();
+        }
+    }
+
+    /**
+     * Undo the last commands.
+     * @param steps: The number of commands to undo.
+     * @returns: The actions and world state restoring the state before those commands.
+     *           If there are not enough commands to undo, it throws an error.
+     */
+    public undo(steps: number): IRestoration {
+        if (steps > this.undoStack.length) {
+            throw new Error(this.undoStack.length === 0
+                ? "There is nothing to undo."
+                : `I can only undo ${this.undoStack.length} command${this.undoStack.length > 1 ? "s" : ""}.`);
+        }
+        const entries = this.undoStack.splice(-steps, steps);
+        this.lastRecorded = undefined;
+        this.redoStack.push(...entries.slice().reverse());
+
+        // Going back through the entries, each action is reverted in reverse order
+        const actions = entries
+            .map((entry) => entry.actions)
+            .reduce((acc, next) => acc.concat(next), [])
+            .reverse()
+            .map(invertStep);
+        return {actions, state: cloneState(entries[0].before), steps};
+    }
+
+    /**
+     * Redo the last undone commands.
+     * @param steps: The number of commands to redo.
+     * @returns: The actions and world state restoring the state after those commands.
+     *           If there are not enough commands to redo, it throws an error.
+     */
+    public redo(steps: number): IRestoration {
+        if (steps > this.redoStack.length) {
+            throw new Error(this.redoStack.length === 0
+                ? "There is nothing to redo."
+                : `I can only redo ${this.redoStack.length} command${this.redoStack.length > 1 ? "s" : ""}.`);
+        }
+        const entries = this.redoStack.splice(-steps, steps).reverse();
+        this.lastRecorded = undefined;
+        this.undoStack.push(...entries);
+
+        const actions = entries
+            .map((entry) => entry.actions)
+            .reduce((acc, next) => acc.concat(next), []);
+
+        // Simulate the actions to find the state after the last command
+        const node = NodeLowLevel.fromWorld(entries[0].before);
+        for (const action of actions) {
+            node.updateState(action);
+        }
+        return {actions, state: node.toWorld(), steps};
+    }
+}
+
+/**
+ * Copy a world state, so that it is not affected when the world changes.
+ * @param state: The world state to copy.
+ * @returns: A copy with its own stacks, object definitions are shared.
+ */
+function cloneState(state: WorldState): WorldState {
+    const clone: WorldState = {
+        arm: state.arm,
+        examples: state.examples,
+        holding: state.holding,
+        objects: state.objects,
+        stacks: state.stacks.map((stack) => stack.slice()),
+    };
+    setArms(clone, getArms(state));
+    return clone;
+}
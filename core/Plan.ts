@@ -0,0 +1,179 @@
+import {checkStep, countArms, getArms, isStep, performStep, setArms} from "../world/Arms";
+import {WorldState} from "../world/World";
+
+/*
+ * Plan
+ *
+ * The plans made by the planner and performed by the worlds. A plan is a list of steps,
+ * which are either actions of the robot or narration of the goal the robot works on,
+ * together with the statistics of the search that found it.
+ *
+ * Plans used to be lists of strings, where actions like "p" and "r" were mixed with utterances
+ * and a line of statistics. That legacy format can still be written and read, so that plans
+ * typed by the user and scripts that print plans keep working.
+ */
+
+/**
+ * What one arm does in an action.
+ */
+export interface IArmAction {
+    arm: number;            // The arm, counting from 0 at the left
+    action: string;         // "l", "r", "p" or "d"
+    column: number;         // The column of the arm after the action
+    object: string | null;  // The object that is picked up, dropped or carried, null if the arm is empty
+}
+
+/**
+ * An action of the robot, which is a step of all arms if there are several, see Arms.ts.
+ */
+export interface IActionStep {
+    kind: "action";
+    action: string;      // The action as it is written in the legacy format
+    arms: IArmAction[];  // The arms that act, arms that wait are left out
+    goal?: number;       // The goal the action works towards, numbered in the order the goals were fulfilled
+}
+
+/**
+ * An utterance of the robot, explaining what it is about to do.
+ */
+export interface INarrationStep {
+    kind: "narration";
+    text: string;
+    goal?: number;       // The goal that is explained, numbered like the goals of the actions
+}
+
+export type PlanStep = IActionStep | INarrationStep;
+
+/**
+ * How a plan was found.
+ */
+export interface IPlanStatistics {
+    search: "goals" | "shortest";  // Fulfilling the goals of the goal tree, or the optimal search
+    length: number;                // The number of goals for the goal search, or of actions for the optimal search
+    cost?: number;                 // The cost of the actions, plans of older versions do not tell it
+    visited: number;               // The number of nodes visited by the search
+}
+
+// The statistics line of the legacy format, which had no cost before the cost models
+const statisticsPattern = /^(Shortest path|Path) with (\d+) \w+(?: and cost ([\d.]+))? \((\d+) visited nodes\)$/;
+
+export class Plan {
+    /**
+     * Read a plan in the legacy format.
+     * @param items: The plan, robot actions mixed with utterances. Empty items and "#" comments are left out.
+     * @param world: The world state the plan starts in, used for the metadata of the actions.
+     * @returns: The plan.
+     */
+    public static fromLegacy(items: string[], world: WorldState): Plan {
+        const builder = new PlanBuilder(world);
+        let statistics: IPlanStatistics | undefined;
+        for (const item of items.map((text) => text.trim())) {
+            const match = statisticsPattern.exec(item);
+            if (match) {
+                statistics = {
+                    length: Number(match[2]),
+                    search: match[1] === "Path" ? "goals" : "shortest",
+                    visited: Number(match[4]),
+                };
+                if (match[3] !== undefined) {
+                    statistics.cost = Number(match[3]);
+                }
+            } else if (isStep(item.toLowerCase(), countArms(world))) {
+                builder.act(item.toLowerCase());
+            } else if (item !== "" && item[0] !== "#") {
+                builder.narrate(item);
+            }
+        }
+        return builder.build(statistics);
+    }
+
+    constructor(public steps: PlanStep[] = [], public statistics?: IPlanStatistics) {}
+
+    /**
+     * Get the actions of the robot.
+     * @returns: The actions in the legacy format, without the narration.
+     */
+    public getActions(): string[] {
+        return this.steps
+            .filter((step) => step.kind === "action")
+            .map((step) => (step as IActionStep).action);
+    }
+
+    /**
+     * Add another plan to the end of this plan. Statistics only describe a single search, so they are left out.
+     * @param other: The plan that is performed afterwards.
+     * @returns: The combined plan.
+     */
+    public concat(other: Plan): Plan {
+        return new Plan(this.steps.concat(other.steps));
+    }
+
+    /**
+     * Write the plan in the legacy format.
+     * @returns: The actions mixed with the narration, followed by the statistics if there are any.
+     */
+    public toLegacy(): string[] {
+        const items = this.steps.map((step) => step.kind === "action" ? step.action : step.text);
+        if (this.statistics) {
+            items.push(describeStatistics(this.statistics));
+        }
+        return items;
+    }
+
+    public toString(): string {return this.toLegacy().join(", "); }
+}
+
+/**
+ * Builds a plan action by action, following the world state so that the actions get their metadata.
+ * @param world: The world state the plan starts in, it is not changed.
+ */
+export class PlanBuilder {
+    private state: WorldState;
+    private steps: PlanStep[] = [];
+
+    public constructor(world: WorldState) {
+        this.state = {...world, stacks: world.stacks.map((stack) => stack.slice())};
+        setArms(this.state, getArms(world));
+    }
+
+    public narrate(text: string, goal?: number): void {
+        this.steps.push(goal === undefined ? {kind: "narration", text} : {goal, kind: "narration", text});
+    }
+
+    /**
+     * Add an action. An action that cannot be performed is added as well, but the world state is not changed.
+     * @param action: The action, or a step of all arms.
+     * @param goal: The goal the action works towards, if the plan was made for goals.
+     */
+    public act(action: string, goal?: number): void {
+        const arms = getArms(this.state)
+            .map((arm, index) => {
+                const stack = this.state.stacks[arm.arm];
+                const column = arm.arm + (action[index] === "l" ? -1 : action[index] === "r" ? 1 : 0);
+                const object = action[index] === "p" ? stack[stack.length - 1] || null : arm.holding;
+                return {action: action[index], arm: index, column, object};
+            })
+            .filter((arm) => arm.action !== undefined && arm.action !== "-");
+        this.steps.push(goal === undefined ? {action, arms, kind: "action"} : {action, arms, goal, kind: "action"});
+        if (checkStep(this.state, action) === undefined) {
+            performStep(this.state, action);
+        }
+    }
+
+    public build(statistics?: IPlanStatistics): Plan {
+        return new Plan(this.steps, statistics);
+    }
+}
+
+/**
+ * Describe the statistics of a plan, like the planner did in the legacy format.
+ * @param statistics: The statistics.
+ * @returns: A line like "Path with 3 moves and cost 5 (9 visited nodes)".
+ */
+export function describeStatistics(statistics: IPlanStatistics): string {
+    const length = statistics.search === "goals"
+        ? `Path with ${statistics.length} moves`
+        : `Shortest path with ${statistics.length} actions`;
+    const cost = statistics.cost === undefined ? "" : ` and cost ${statistics.cost}`;
+    return `${length}${cost} (${statistics.visited} visited nodes)`;
+}
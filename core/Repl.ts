@@ -0,0 +1,250 @@
+import * as readline from "readline";
+import {getArms} from "../world/Arms";
+import {getWorldByName} from "../world/RandomWorld";
+import {TextWorld} from "../world/TextWorld";
+import {WorldState} from "../world/World";
+import {serializeWorldState} from "../world/WorldFile";
+import {validateWorld} from "../world/WorldValidator";
+import {describeStatistics, Plan} from "./Plan";
+import {ShrdliteSession, splitStringIntoPlan} from "./Shrdlite";
+
+/*
+ * Repl
+ *
+ * A conversation with the robot in the terminal, for 'shrdlite-offline.ts' when no utterances are given.
+ * Every utterance is answered like in the browser, and the world is drawn again after each command.
+ * When the robot asks a question, the next line is the answer.
+ *
+ * The arrow keys browse the utterances entered before, and tab completes the descriptions
+ * of the objects in the world, like "large wh" to "large white ball". Lines starting with ":"
+ * are meta-commands, see 'metaCommands' below.
+ */
+
+const prompt = "> ";
+const answerPrompt = "?> ";
+
+// The meta-commands, with their arguments and what they do
+const metaCommands: {[command: string]: string} = {
+    ":debug": "on | off     Print the parses, interpretations and plans",
+    ":help": "              Show the meta-commands",
+    ":history": "           Show the utterances entered so far",
+    ":plan": "              Show the last plan, with its statistics",
+    ":quit": "              Leave the conversation",
+    ":state": "             Print the world state, in the format of world files",
+    ":world": "[name]       Draw the world, or talk about another world",
+};
+
+export class Repl {
+    private input: readline.ReadLine;
+    private lastPlan: Plan | undefined;
+    private utterances: string[] = [];
+
+    /**
+     * @param session: The session, whose world is printed in the terminal.
+     * @param onClose: Called with the final world state when the user leaves.
+     */
+    constructor(private session: ShrdliteSession<TextWorld>, onClose: (final: WorldState) => void) {
+        this.input = readline.createInterface({
+            completer: (line: string) => complete(line, this.session.world.currentState),
+            historySize: 1000,
+            input: process.stdin,
+            output: process.stdout,
+        });
+        this.input.on("close", () => {
+            console.log();
+            onClose(this.session.world.currentState);
+        });
+        this.attach(session);
+    }
+
+    /**
+     * Draw the world and wait for the first utterance.
+     */
+    public start(): void {
+        console.log("Type an utterance, a plan like \"r p l d\", or :help for the meta-commands.");
+        this.session.world.printWorld(() => this.next(prompt));
+    }
+
+    private next(text: string): void {
+        this.session.world.readUserInput(text, (line) => this.handle(line));
+    }
+
+    private handle(line: string): void {
+        const utterance = line.trim();
+        if (utterance === "") {
+            this.next(prompt);
+        } else if (utterance[0] === ":") {
+            this.runMetaCommand(utterance.split(/\s+/));
+        } else {
+            this.utterances.push(utterance);
+            this.runUtterance(utterance);
+        }
+    }
+
+    /**
+     * Run an utterance, a typed plan or the number of an example utterance,
+     * and draw the world when the robot has moved.
+     * @param utterance: The utterance.
+     */
+    private runUtterance(utterance: string): void {
+        const world = this.session.world;
+        const example = parseInt(utterance, 10);
+        if (!isNaN(example) && String(example) === utterance) {
+            if (!world.currentState.examples[example]) {
+                world.printError("[Unknown example]", `Cannot find example no. ${example}`);
+                this.next(prompt);
+                return;
+            }
+            utterance = world.currentState.examples[example];
+            world.printSystemOutput(utterance, "user");
+        }
+
+        const typed = splitStringIntoPlan(utterance);
+        const theplan = typed ? this.session.acceptTypedPlan(typed) : this.session.parseUtteranceIntoPlan(utterance);
+        if (theplan === null) {
+            this.next(prompt);
+        } else if (typeof theplan === "string") {
+            // A clarification question, the answer is the next line
+            world.printSystemOutput(theplan);
+            this.next(answerPrompt);
+        } else {
+            this.lastPlan = theplan;
+            world.performPlan(theplan, (result) => {
+                this.session.recordExecution(result);
+                world.printWorld(() => this.next(prompt));
+            }, typed ? undefined : this.session.getReplanner());
+        }
+    }
+
+    private runMetaCommand(words: string[]): void {
+        const world = this.session.world;
+        switch (words[0]) {
+            case ":debug":
+                if (words[1] === "on" || words[1] === "off") {
+                    world.showDebugInfo = words[1] === "on";
+                } else {
+                    console.log(`Debug information is ${world.showDebugInfo ? "on" : "off"}`);
+                }
+                break;
+            case ":help":
+                Object.keys(metaCommands).forEach((command) => console.log(`  ${command} ${metaCommands[command]}`));
+                break;
+            case ":history":
+                this.utterances.forEach((utterance, n) => console.log(`  ${n + 1}  ${utterance}`));
+                break;
+            case ":plan":
+                this.printPlan();
+                break;
+            case ":quit":
+                this.input.close();
+                return;
+            case ":state":
+                console.log(serializeWorldState(world.currentState));
+                break;
+            case ":world":
+                if (words[1]) {
+                    this.changeWorld(words[1]);
+                }
+                this.session.world.printWorld();
+                break;
+            default:
+                world.printError("[Unknown meta-command]", `${words[0]}, type :help for the meta-commands`);
+        }
+        this.next(prompt);
+    }
+
+    private printPlan(): void {
+        if (!this.lastPlan) {
+            console.log("There is no plan yet");
+            return;
+        }
+        for (const step of this.lastPlan.steps) {
+            const goal = step.goal === undefined ? "" : `  (goal ${step.goal})`;
+            console.log(step.kind === "action" ? `  ${step.action}${goal}` : `  "${step.text}"${goal}`);
+        }
+        if (this.lastPlan.statistics) {
+            console.log(describeStatistics(this.lastPlan.statistics));
+        }
+    }
+
+    /**
+     * Start a new conversation in another world, the undo mode and the debug setting are kept.
+     * @param name: The name of the world.
+     */
+    private changeWorld(name: string): void {
+        const world = this.session.world;
+        let state: WorldState | undefined;
+        try {
+            state = getWorldByName(name);
+        } catch (err) {
+            world.printError(`[Cannot create world ${name}]`, err.message);
+            return;
+        }
+        if (!state) {
+            world.printError("[Unknown world]", name);
+            return;
+        }
+        for (const violation of validateWorld(state)) {
+            world.printError(`[Invalid world: ${violation.kind}]`, violation.message);
+        }
+        const session = new ShrdliteSession(new TextWorld(state));
+        session.history.mode = this.session.history.mode;
+        session.world.showDebugInfo = world.showDebugInfo;
+        this.attach(session);
+        this.lastPlan = undefined;
+    }
+
+    private attach(session: ShrdliteSession<TextWorld>): void {
+        this.session = session;
+        session.world.input = this.input;
+    }
+}
+
+/**
+ * Complete the end of a line to the description of an object in the world, or to a meta-command.
+ * @param line: The line typed so far.
+ * @param state: The world state.
+ * @returns: The completions, and the end of the line they complete.
+ */
+function complete(line: string, state: WorldState): readline.CompleterResult {
+    if (line[0] === ":" && line.indexOf(" ") < 0) {
+        return [Object.keys(metaCommands).filter((command) => command.indexOf(line) === 0), line];
+    }
+    // The longest end of the line that starts a description is completed, so "the la" completes "la"
+    const descriptions = describeObjects(state);
+    const words = line.split(" ");
+    for (let start = Math.max(0, words.length - 3); start < words.length; start++) {
+        const partial = words.slice(start).join(" ");
+        const completions = descriptions.filter((description) =>
+            partial !== "" && description.indexOf(partial) === 0 && description !== partial);
+        if (completions.length > 0) {
+            return [completions, partial];
+        }
+    }
+    return [[], line];
+}
+
+/**
+ * Describe the objects in the world in every way the grammar allows without relations.
+ * @param state: The world state.
+ * @returns: Descriptions like "ball", "white ball", "large ball" and "large white ball", sorted.
+ */
+function describeObjects(state: WorldState): string[] {
+    const names = state.stacks.reduce((all, stack) => all.concat(stack), [] as string[]);
+    for (const arm of getArms(state)) {
+        if (arm.holding) {
+            names.push(arm.holding);
+        }
+    }
+    const descriptions: {[description: string]: boolean} = {floor: true};
+    for (const name of names) {
+        const object = state.objects[name];
+        [
+            object.form,
+            `${object.color} ${object.form}`,
+            `${object.size} ${object.form}`,
+            `${object.size} ${object.color} ${object.form}`,
+        ].forEach((description) => descriptions[description] = true);
+    }
+    return Object.keys(descriptions).sort();
+}
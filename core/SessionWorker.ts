@@ -0,0 +1,51 @@
+import {RecordingWorld, WorldEvent} from "../world/RecordingWorld";
+import {parseWorldState} from "../world/WorldFile";
+import {IBatchRecord, runUtterance} from "./BatchMode";
+import {ShrdliteSession} from "./Shrdlite";
+
+/*
+ * SessionWorker
+ *
+ * Every session of 'shrdlite-server.ts' runs in a child process of its own, so that the server keeps
+ * answering other sessions while a plan is searched. The worker holds the ShrdliteSession
+ * of its session, and runs the utterances one after another in the order they arrive.
+ */
+
+/**
+ * A message from the server to a worker.
+ * "start":     The world of the session, in the format of world files. It is sent once, before any utterance.
+ * "utterance": An utterance or an answer to a question, which is answered with a "record" message.
+ */
+export type ServerMessage =
+    {type: "start", world: object} |
+    {type: "utterance", utterance: string};
+
+/**
+ * A message from a worker to the server.
+ * "event":  Something that happened in the world while an utterance was run.
+ * "record": What happened to an utterance, after all of its events.
+ */
+export type WorkerMessage =
+    {type: "event", event: WorldEvent} |
+    {type: "record", record: IBatchRecord};
+
+/**
+ * Run the session of this process, until the server goes away.
+ */
+export function runSessionWorker(): void {
+    let session: ShrdliteSession<RecordingWorld> | undefined;
+    process.on("message", (message: ServerMessage) => {
+        if (message.type === "start") {
+            const world = new RecordingWorld(parseWorldState(JSON.stringify(message.world)));
+            world.onEvent = (event) => send({event, type: "event"});
+            session = new ShrdliteSession(world);
+        } else if (session) {
+            send({record: runUtterance(session, message.utterance), type: "record"});
+        }
+    });
+    process.on("disconnect", () => process.exit(0));
+}
+
+function send(message: WorkerMessage): void {
+    process.send!(message);
+}
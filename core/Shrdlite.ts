@@ -1,9 +1,30 @@
 import {AmbiguityError} from "../interpreter/AmbiguityError";
-import {interpret} from "../interpreter/Interpreter";
+import {interpret, Interpreter} from "../interpreter/Interpreter";
 import {parse} from "../parser/Parser";
 import {plan} from "../planner/Planner";
-import {World} from "../world/World";
-import {Clarification, DNFFormula, Entity, Location, MoveCommand, ShrdliteResult, SimpleObject} from "./Types";
+import {NodeLowLevel} from "../planner/PlannerLowLevel";
+import {PlanningError} from "../planner/PlanningError";
+import {ExecutionSettings, IExecutionResult, Replanner} from "../world/PlanExecution";
+import {World, WorldState} from "../world/World";
+import {DescribeAnswer} from "./Describer";
+import {DiscourseMemory} from "./Discourse";
+import {IsQuestion} from "./Helper";
+import {IRestoration, WorldHistory} from "./History";
+import {Plan} from "./Plan";
+import {
+    Clarification,
+    Command,
+    DNFFormula,
+    Entity,
+    Literal,
+    Location,
+    MoveCommand,
+    RedoCommand,
+    SequenceCommand,
+    ShrdliteResult,
+    SimpleObject,
+    UndoCommand,
+} from "./Types";
 
 /********************************************************************************
 ** Shrdlite
@@ -16,126 +37,365 @@ look for PLACEHOLDER below.
 Everything else can be left as they are.
 ********************************************************************************/
 
-let Command: ShrdliteResult[] | undefined;
-const Clarifications: Clarification[][] = [];
+/**
+ * What the pipeline made of an utterance, for callers that report more than the plan.
+ */
+export interface IUtteranceTrace {
+    parses: Command[];                // All parses of the utterance
+    interpretations: DNFFormula[];    // The chosen interpretation of every command, in order
+}
+
+export function createTrace(): IUtteranceTrace {
+    return {interpretations: [], parses: []};
+}
 
 /**
- * Generic function that takes an utterance and returns a plan. It works according to the following pipeline:
- * - first it parses the utterance (Parser.ts)
- * - then it interprets the parse(s) (Interpreter.ts)
- * - then it creates plan(s) for the interpretation(s) (Planner.ts)
- *
- * Each of the modules Parser.ts, Interpreter.ts and Planner.ts
- * defines its own version of interface Result, which in the case
- * of Interpreter.ts and Planner.ts extends the Result interface
- * from the previous module in the pipeline. In essence, starting
- * from ParseResult, each module that it passes through adds its
- * own result to this structure, since each Result is fed
- * (directly or indirectly) into the next module.
- *
- * There are two sources of ambiguity: a parse might have several
- * possible interpretations, and there might be more than one plan
- * for each interpretation. In the code there are commented placeholders
- * that you can fill in to decide what to do in each case.
- * These placeholders are marked PLACEHOLDER.
- *
- * @param world: The current world.
- * @param utterance: The string that represents the command.
- * @returns: A plan in the form of a stack of strings, where each element
- *           is either a robot action, like "p" (for pick up) or "r" (for going right),
- *           or a system utterance in English that describes what the robot is doing.
+ * A conversation with the robot about one world. The session owns everything that is carried
+ * from one utterance to the next: the command waiting for clarifications, the history for undo
+ * and the objects that pronouns refer to. Sessions do not share any state, so several worlds
+ * can talk to their users at the same time.
  */
-export function parseUtteranceIntoPlan(world: World, utterance: string): string[] | null | string {
-    let parses;
-    let interpretations;
-    let plans: string | ShrdliteResult[];
-
-    // see if utterance is dnf, parse it, pass shrdliteresults to planner
-    if (utterance.slice(0, 4) === "dnf ") {
-        const ent: Entity = new Entity("the", new SimpleObject("anyform", null, null));
-        const loca: Location = new Location("ontop", ent);
-        interpretations = [new ShrdliteResult(utterance,
-            new MoveCommand(ent, loca),
-            DNFFormula.parse(utterance.slice(4)),
-            [])];
-    } else {
-        // Call the parser with the utterance, and then log the parse results
-        world.printDebugInfo(`Parsing utterance: "${utterance}"`);
+export class ShrdliteSession<W extends World = World> {
+    public command: ShrdliteResult[] | undefined;   // The command waiting for clarifications
+    public clarifications: Clarification[][] = [];  // The clarifications given so far
+    public history = new WorldHistory();            // The commands that can be undone
+    public discourse = new DiscourseMemory();       // The objects that pronouns can refer to
+
+    // The interpretation of the last planned command, so that it can be planned again if its plan halts
+    private goal: ShrdliteResult[] | undefined;
+
+    /**
+     * @param world: The world the robot lives in, which is changed when plans are performed.
+     */
+    constructor(public world: W) {}
+
+    /**
+     * Take an utterance and return a plan. It works according to the following pipeline:
+     * - first it parses the utterance (Parser.ts)
+     * - then it interprets the parse(s) (Interpreter.ts)
+     * - then it creates plan(s) for the interpretation(s) (Planner.ts)
+     *
+     * Each of the modules Parser.ts, Interpreter.ts and Planner.ts
+     * defines its own version of interface Result, which in the case
+     * of Interpreter.ts and Planner.ts extends the Result interface
+     * from the previous module in the pipeline. In essence, starting
+     * from ParseResult, each module that it passes through adds its
+     * own result to this structure, since each Result is fed
+     * (directly or indirectly) into the next module.
+     *
+     * There are two sources of ambiguity: a parse might have several
+     * possible interpretations, and there might be more than one plan
+     * for each interpretation. In the code there are commented placeholders
+     * that you can fill in to decide what to do in each case.
+     * These placeholders are marked PLACEHOLDER.
+     *
+     * @param utterance: The string that represents the command.
+     * @param trace: Collects the parses and the chosen interpretations, if given.
+     * @returns: A plan of robot actions, like "p" (for pick up) or "r" (for going right),
+     *           and system utterances in English that describe what the robot is doing, see Plan.ts.
+     */
+    public parseUtteranceIntoPlan(utterance: string, trace: IUtteranceTrace = createTrace()): Plan | null | string {
+        const world = this.world;
+        let parses;
+        let interpretations;
+        let plans: string | ShrdliteResult[];
+        this.goal = undefined;
+
+        // see if utterance is dnf, parse it, pass shrdliteresults to planner
+        if (utterance.slice(0, 4) === "dnf ") {
+            const ent: Entity = new Entity("the", new SimpleObject("anyform", null, null));
+            const loca: Location = new Location("ontop", ent);
+            interpretations = [new ShrdliteResult(utterance,
+                new MoveCommand(ent, loca),
+                DNFFormula.parse(utterance.slice(4)),
+                new Plan())];
+        } else {
+            // Call the parser with the utterance, and then log the parse results
+            world.printDebugInfo(`Parsing utterance: "${utterance}"`);
+            try {
+                parses = parse(utterance);
+            } catch (err) {
+                world.printError("[Parsing failure]", err);
+                return null;
+            }
+            trace.parses = parses.map((result) => result.parse);
+            world.printDebugInfo(`Found ${parses.length} parses`);
+            parses.forEach((result, n) => {
+                world.printDebugInfo(`  (${n}) ${result.parse.toString()}`);
+            });
+
+            // Undo and redo restore a previous world state instead of being interpreted
+            const historyCommand = parses[0].parse;
+            if (historyCommand instanceof UndoCommand || historyCommand instanceof RedoCommand) {
+                this.command = undefined;
+                this.clarifications.length = 0;
+                return this.restoreHistory(historyCommand);
+            }
+
+            if (parses.some((parse) => parse.parse instanceof Clarification)) {
+                if (this.command === undefined) {
+                    world.printError("Expected an instruction, please enter a command.");
+                    return null;
+                }
+                this.clarifications.push(parses.map((parse) => parse.parse as Clarification));
+            } else {
+                this.command = parses;
+                this.clarifications.length = 0;
+            }
+            const command = this.command;
+
+            // Each command of a sequence is interpreted in the world state left by the previous one
+            if (command[0].parse instanceof SequenceCommand) {
+                return this.parseSequenceIntoPlan(command, trace);
+            }
+
+            // Call the interpreter for all parses, and then log the interpretations
+            try {
+                interpretations = interpret(command, this.clarifications, world.currentState, this.discourse);
+                this.command = undefined;
+                this.clarifications.length = 0;
+            } catch (err) {
+                if (err instanceof AmbiguityError) {
+                    return err.message;
+                }
+                world.printError("[Interpretation failure]", err);
+                return null;
+            }
+            world.printDebugInfo(`Found ${interpretations.length} interpretations`);
+            interpretations.forEach((result, n) => {
+                world.printDebugInfo(`  (${n}) ${result.interpretation.toString()}`);
+            });
+
+            // Questions are answered from the current world state, the robot does not move
+            const question = interpretations[0].parse;
+            if (IsQuestion(question)) {
+                trace.interpretations.push(interpretations[0].interpretation);
+                this.discourse.mention(interpretations[0].interpretation.conjuncts
+                    .reduce((literals, conjunction) => literals.concat(conjunction.literals), [] as Literal[]));
+                const answer = DescribeAnswer(question, interpretations[0].interpretation, world.currentState);
+                world.printSystemOutput(answer);
+                return new Plan();
+            }
+        }
+
+        // Call the planner for all interpretations, and then log the resulting plans
         try {
-            parses = parse(utterance);
+            plans = plan(interpretations, world.currentState);
         } catch (err) {
-            world.printError("[Parsing failure]", err);
+            printPlanningError(world, "[Planning failure]", err);
             return null;
         }
-        world.printDebugInfo(`Found ${parses.length} parses`);
-        parses.forEach((result, n) => {
-            world.printDebugInfo(`  (${n}) ${result.parse.toString()}`);
+        world.printDebugInfo(`Found ${plans.length} plans`);
+        plans.forEach((result, n) => {
+            world.printDebugInfo(`  (${n}) ${result.plan.toString()}`);
         });
 
-        if (parses.some((parse) => parse.parse instanceof Clarification)) {
-            if (Command === undefined) {
-                world.printError("Expected an instruction, please enter a command.");
+        let finalPlan: Plan;
+        let finalInterpretation: DNFFormula;
+        if (plans.length === 1) {
+            // if only one plan was found, it's the one we return
+            finalPlan = plans[0].plan;
+            finalInterpretation = plans[0].interpretation;
+        } else {
+            // PLACEHOLDER:
+            // several plans were found -- how should this be handled?
+            // this means that we have several interpretations and one plan for each of them,
+            // should we throw an ambiguity error?
+            // ... throw new Error("Ambiguous utterance");
+            // or should we ask the user?
+            // or should we select the interpretation with the shortest plan?
+            plans.sort((a, b) => a.plan.steps.length - b.plan.steps.length);
+            finalPlan = plans[0].plan;
+            finalInterpretation = plans[0].interpretation;
+        }
+
+        // Log the final plan, remember it for undo and pronouns, and return it
+        trace.interpretations.push(finalInterpretation);
+        world.printDebugInfo("Final plan: " + finalPlan.toString());
+        this.history.record(world.currentState, finalPlan.getActions());
+        this.discourse.mention(getAchievedLiterals(finalInterpretation,
+            predictState(world.currentState, finalPlan.getActions())));
+        this.goal = plans.filter((result) => result.plan === finalPlan);
+        return finalPlan;
+    }
+
+    /**
+     * Accept a plan typed by the user, like "r p l d", and remember it for undo.
+     * @param typed: The plan, as returned by 'splitStringIntoPlan()'.
+     * @returns: The plan.
+     */
+    public acceptTypedPlan(typed: string[]): Plan {
+        this.goal = undefined;
+        this.history.record(this.world.currentState, typed);
+        return Plan.fromLegacy(typed, this.world.currentState);
+    }
+
+    /**
+     * Get a replanner for the plan returned by the last call of 'parseUtteranceIntoPlan()',
+     * which plans the same command again from the state where its plan halted.
+     * @returns: The replanner, or undefined if replanning is turned off or the plan was not made for a single command.
+     */
+    public getReplanner(): Replanner | undefined {
+        const goal = this.goal;
+        if (!ExecutionSettings.replan || goal === undefined) {
+            return undefined;
+        }
+        return (state) => {
+            try {
+                const plans = plan(goal, state);
+                plans.sort((a, b) => a.plan.steps.length - b.plan.steps.length);
+                return plans[0].plan;
+            } catch (err) {
                 return null;
             }
-            Clarifications.push(parses.map((parse) => parse.parse as Clarification));
-        } else {
-            Command = parses;
-            Clarifications.length = 0;
+        };
+    }
+
+    /**
+     * Remember what the robot actually did, when a plan halted or was replaced by a new plan,
+     * so that undo reverts the performed actions instead of the planned ones.
+     * @param result: The outcome of performing the plan.
+     */
+    public recordExecution(result: IExecutionResult): void {
+        if (result.failures.length > 0) {
+            this.history.correct(result.performed);
         }
+    }
 
-        // Call the interpreter for all parses, and then log the interpretations
+    /**
+     * Interpret and plan a sequence of commands. Every command is interpreted and planned in the
+     * world state predicted after the plan of the previous command, the robot only moves if all succeed.
+     * @param parses: The parses of the sequence.
+     * @param trace: Collects the chosen interpretations.
+     * @returns: The plans of all commands one after another, a question if a command is ambiguous,
+     *           or null if any command can not be interpreted or planned.
+     */
+    private parseSequenceIntoPlan(parses: ShrdliteResult[], trace: IUtteranceTrace): Plan | null | string {
+        const world = this.world;
+        // Only compare parses that split the utterance into the same commands
+        const steps = (parses[0].parse as SequenceCommand).commands.length;
+        const sequences = parses
+            .map((result) => result.parse as SequenceCommand)
+            .filter((sequence) => sequence.commands.length === steps);
+
+        // Commands use up the clarifications they need, the stored ones are kept for the next attempt.
+        // Likewise, pronouns can refer to earlier commands, but those are only remembered if all succeed.
+        const clarifications = this.clarifications.slice();
+        const discourse = this.discourse.clone();
+        const achieved: Literal[][] = [];
+        let state = world.currentState;
+        let finalPlan = new Plan();
+        for (let step = 0; step < steps; step++) {
+            const stepParses = sequences.map((sequence) =>
+                new ShrdliteResult(parses[0].input, sequence.commands[step], new DNFFormula(), new Plan()));
+
+            let interpretations: ShrdliteResult[];
+            try {
+                interpretations = interpret(stepParses, clarifications, state, discourse);
+            } catch (err) {
+                if (err instanceof AmbiguityError) {
+                    return err.message;
+                }
+                world.printError(`[Interpretation failure in command ${step + 1}]`, err);
+                return null;
+            }
+            world.printDebugInfo(`  (${step + 1}) ${interpretations[0].interpretation.toString()}`);
+
+            let plans: ShrdliteResult[];
+            try {
+                plans = plan(interpretations, state);
+            } catch (err) {
+                printPlanningError(world, `[Planning failure in command ${step + 1}]`, err);
+                return null;
+            }
+            plans.sort((a, b) => a.plan.steps.length - b.plan.steps.length);
+            finalPlan = finalPlan.concat(plans[0].plan);
+            state = predictState(state, plans[0].plan.getActions());
+            achieved.push(getAchievedLiterals(plans[0].interpretation, state));
+            trace.interpretations.push(plans[0].interpretation);
+            discourse.mention(achieved[step]);
+        }
+        this.command = undefined;
+        this.clarifications.length = 0;
+
+        world.printDebugInfo("Final plan: " + finalPlan.toString());
+        this.history.record(world.currentState, finalPlan.getActions());
+        achieved.forEach((literals) => this.discourse.mention(literals));
+        return finalPlan;
+    }
+
+    /**
+     * Undo or redo commands, either by resetting the world or by letting the robot move the objects.
+     * @param command: The undo or redo command.
+     * @returns: A plan restoring the world state, or null if there is nothing to restore.
+     */
+    private restoreHistory(command: UndoCommand | RedoCommand): Plan | null {
+        const world = this.world;
+        const history = this.history;
+        const undo = command instanceof UndoCommand;
+        let restoration: IRestoration;
         try {
-            interpretations = interpret(Command, Clarifications, world.currentState);
-            Command = undefined;
-            Clarifications.length = 0;
+            restoration = undo ? history.undo(command.steps) : history.redo(command.steps);
         } catch (err) {
-            if (err instanceof AmbiguityError) {
-                return err.message;
-            }
-            world.printError("[Interpretation failure]", err);
+            world.printError("[History failure]", err.message);
             return null;
         }
-        world.printDebugInfo(`Found ${interpretations.length} interpretations`);
-        interpretations.forEach((result, n) => {
-            world.printDebugInfo(`  (${n}) ${result.interpretation.toString()}`);
-        });
-    }
+        world.printDebugInfo(`Restoring ${restoration.steps} command(s) by ${history.mode}`);
 
-    // Call the planner for all interpretations, and then log the resulting plans
-    try {
-        plans = plan(interpretations, world.currentState);
-    } catch (err) {
-        world.printError("[Planning failure]", err);
-        return null;
+        const commands = restoration.steps > 1 ? `${restoration.steps} commands` : "command";
+        const description = undo ? `I undo the last ${commands}.` : `I redo the last ${commands} that I undid.`;
+        if (history.mode === "reset") {
+            world.restoreState(restoration.state);
+            return Plan.fromLegacy([description], world.currentState);
+        }
+        return Plan.fromLegacy([description].concat(restoration.actions), world.currentState);
     }
-    world.printDebugInfo(`Found ${plans.length} plans`);
-    plans.forEach((result, n) => {
-        world.printDebugInfo(`  (${n}) ${result.plan.toString()}`);
-    });
-
-    let finalPlan: string[] = [];
-    if (plans.length === 1) {
-        // if only one plan was found, it's the one we return
-        finalPlan = plans[0].plan;
+}
+
+/**
+ * Print why the planner failed, with the search statistics as debug information.
+ * @param world: The current world.
+ * @param error: The title of the error.
+ * @param err: The error thrown by the planner.
+ */
+function printPlanningError(world: World, error: string, err: any): void {
+    if (err instanceof PlanningError) {
+        err.statistics.forEach((line) => world.printDebugInfo(line));
+        world.printError(error, err.message);
     } else {
-        // PLACEHOLDER:
-        // several plans were found -- how should this be handled?
-        // this means that we have several interpretations and one plan for each of them,
-        // should we throw an ambiguity error?
-        // ... throw new Error("Ambiguous utterance");
-        // or should we ask the user?
-        // or should we select the interpretation with the shortest plan?
-        plans.sort((a, b) => a.plan.length - b.plan.length);
-        finalPlan = plans[0].plan;
+        world.printError(error, err);
     }
+}
 
-    // Log the final plan, and return it
-    world.printDebugInfo("Final plan: " + finalPlan.join(", "));
-    return finalPlan;
+/**
+ * Simulate a plan to find the world state after it has been performed.
+ * @param state: The world state before the plan.
+ * @param actions: The robot actions of the plan.
+ * @returns: The world state after the plan.
+ */
+function predictState(state: WorldState, actions: string[]): WorldState {
+    const node = NodeLowLevel.fromWorld(state);
+    for (const action of actions) {
+        node.updateState(action);
+    }
+    return node.toWorld();
+}
+
+/**
+ * Find the literals achieved by a plan, which are those of the first conjunction that holds after it.
+ * @param interpretation: The interpretation the plan was made for.
+ * @param state: The world state after the plan.
+ * @returns: The literals of the achieved conjunction, or none if no conjunction holds.
+ */
+function getAchievedLiterals(interpretation: DNFFormula, state: WorldState): Literal[] {
+    const achieved = interpretation.conjuncts.filter((conjunction) =>
+        conjunction.literals.every((literal) => Interpreter.isLiteralTrue(literal, state)));
+    return achieved.length > 0 ? achieved[0].literals : [];
 }
 
 /*
- * A convenience function that recognizes strings of the form "p r r d l p r d".
+ * A convenience function that recognizes strings of the form "p r r d l p r d",
+ * or steps of several arms like "r- pl -d" with one action or "-" for every arm.
  * You don't have to change this function.
  */
 export function splitStringIntoPlan(planstring: string): string[] | null {
@@ -143,10 +403,17 @@ export function splitStringIntoPlan(planstring: string): string[] | null {
     const actions: {[act: string]: string}
         = {p: "Picking", d: "Dropping", l: "Going left", r: "Going right"};
     for (let i = theplan.length - 1; i >= 0; i--) {
-        if (!actions[theplan[i]]) {
+        if (actions[theplan[i]]) {
+            theplan.splice(i, 0, actions[theplan[i]]);
+        } else if (theplan[i].length > 1 && /^[lrpd-]+$/.test(theplan[i]) && /[lrpd]/.test(theplan[i])) {
+            const description = theplan[i].split("")
+                .map((act, arm) => act === "-" ? "" : `arm ${arm} ${actions[act].toLowerCase()}`)
+                .filter((part) => part !== "")
+                .join(", ");
+            theplan.splice(i, 0, description.charAt(0).toUpperCase() + description.slice(1));
+        } else {
             return null;
         }
-        theplan.splice(i, 0, actions[theplan[i]]);
     }
     return theplan;
 }
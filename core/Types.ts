@@ -1,4 +1,6 @@
 
+import {Plan} from "./Plan";
+
 /*
  * Types
  *
@@ -12,7 +14,7 @@ export class ShrdliteResult {
         public input: string,
         public parse: Command,
         public interpretation: DNFFormula,
-        public plan: string[],
+        public plan: Plan,
     ) {}
 }
 
@@ -24,12 +26,13 @@ export type Command =
     | DropCommand
     | MoveCommand
     | Clarification
-/*
-// Here's an example of a new command
-// Don't forget to add a class definition below
-// The corresponding grammar rule(s) must also be added to Grammar.ne
     | WhereisCommand
-*/
+    | WhatisCommand
+    | CountCommand
+    | ExistsCommand
+    | UndoCommand
+    | RedoCommand
+    | SequenceCommand
 ;
 
 export class TakeCommand {
@@ -51,38 +54,89 @@ export class MoveCommand {
     public clone(): MoveCommand {return new MoveCommand(this.entity.clone(), this.location.clone()); }
 }
 
+// A sequence of commands, each performed after the previous one
+export class SequenceCommand {
+    constructor(public commands: Array<TakeCommand | DropCommand | MoveCommand>) {}
+    public toString(): string {return `SequenceCommand(${this.commands.map((cmd) => cmd.toString()).join(", ")})`; }
+    public clone(): SequenceCommand {return new SequenceCommand(this.commands.map((cmd) => cmd.clone())); }
+}
+
 export class Clarification {
     constructor(public entity: Entity) {}
     public toString(): string {return `Clarification(${this.entity.toString()})`; }
     public clone(): Clarification {return new Clarification(this.entity.clone()); }
 }
 
-/*
-// Here's an example of a class definition for a new command
-// Don't forget to add it to the type definition of 'Command' above
-// The corresponding grammar rule(s) must also be added to Grammar.ne
+// Undo and redo restore world states from the history, they are not interpreted
+
+export class UndoCommand {
+    constructor(public steps: number) {}
+    public toString(): string {return `UndoCommand(${this.steps})`; }
+    public clone(): UndoCommand {return new UndoCommand(this.steps); }
+}
+
+export class RedoCommand {
+    constructor(public steps: number) {}
+    public toString(): string {return `RedoCommand(${this.steps})`; }
+    public clone(): RedoCommand {return new RedoCommand(this.steps); }
+}
+
+// Questions do not move anything, they are answered from the current world state
+export type Question = WhereisCommand | WhatisCommand | CountCommand | ExistsCommand;
+
 export class WhereisCommand {
-    constructor(public entity : Entity) {}
-    toString() : string {return `WhereisCommand(${this.entity.toString()})`};
-    clone() : WhereisCommand {return new WhereisCommand(this.entity.clone())};
+    constructor(public entity: Entity) {}
+    public toString(): string {return `WhereisCommand(${this.entity.toString()})`; }
+    public clone(): WhereisCommand {return new WhereisCommand(this.entity.clone()); }
+}
+
+export class WhatisCommand {
+    constructor(public location: Location) {}
+    public toString(): string {return `WhatisCommand(${this.location.toString()})`; }
+    public clone(): WhatisCommand {return new WhatisCommand(this.location.clone()); }
+}
+
+export class CountCommand {
+    constructor(public entity: Entity) {}
+    public toString(): string {return `CountCommand(${this.entity.toString()})`; }
+    public clone(): CountCommand {return new CountCommand(this.entity.clone()); }
+}
+
+export class ExistsCommand {
+    constructor(public entity: Entity) {}
+    public toString(): string {return `ExistsCommand(${this.entity.toString()})`; }
+    public clone(): ExistsCommand {return new ExistsCommand(this.entity.clone()); }
 }
-*/
 
 export class Location {
     constructor(public relation: Relation,
-                public entity: Entity) {}
-    public toString(): string {return `Location(${this.relation}, ${this.entity.toString()})`; }
-    public clone(): Location {return new Location(this.relation, this.entity.clone()); }
+                public entity: Entity | Column,      // A column for the "incolumn" relation
+                public polarity: boolean = true) {}  // Whether the relation should hold (true) or not (false)
+    public toString(): string {
+        return `Location(${this.polarity ? "" : "-"}${this.relation}, ${this.entity.toString()})`;
+    }
+    public clone(): Location {return new Location(this.relation, this.entity.clone(), this.polarity); }
+}
+
+export class Column {
+    constructor(public quantifier: string,      // "the" for an index, or "any", "leftmost", "rightmost" empty column
+                public index: number | null) {} // The index of the column from 0, null for empty columns
+    public toString(): string {return `Column(${this.quantifier}, ${this.index === null ? "empty" : this.index})`; }
+    public clone(): Column {return new Column(this.quantifier, this.index); }
 }
 
 export class Entity {
     constructor(public quantifier: string,
-                public object: Object) {}
-    public toString(): string {return `Entity(${this.quantifier}, ${this.object.toString()})`; }
-    public clone(): Entity {return new Entity(this.quantifier, this.object.clone()); }
+                public object: Object,
+                public count?: number) {}  // The number of objects for the "atleast" and "exactly" quantifiers
+    public toString(): string {
+        const quantifier = this.count === undefined ? this.quantifier : `${this.quantifier} ${this.count}`;
+        return `Entity(${quantifier}, ${this.object.toString()})`;
+    }
+    public clone(): Entity {return new Entity(this.quantifier, this.object.clone(), this.count); }
 }
 
-export type Object = RelativeObject | SimpleObject;
+export type Object = RelativeObject | SuperlativeObject | SimpleObject;
 
 export class RelativeObject {
     constructor(public object: Object,
@@ -91,6 +145,20 @@ export class RelativeObject {
     public clone(): RelativeObject {return new RelativeObject(this.object.clone(), this.location.clone()); }
 }
 
+export class SuperlativeObject {
+    constructor(public object: Object,
+                public superlative: Superlative,
+                public reference?: Entity) {}  // The entity to measure distances to, the arm if undefined
+    public toString(): string {
+        const reference = this.reference === undefined ? "" : `, ${this.reference.toString()}`;
+        return `SuperlativeObject(${this.object.toString()}, ${this.superlative}${reference})`;
+    }
+    public clone(): SuperlativeObject {
+        return new SuperlativeObject(this.object.clone(), this.superlative,
+            this.reference === undefined ? undefined : this.reference.clone());
+    }
+}
+
 export class SimpleObject {
     constructor(public form: Form,
                 public size: Size | null,
@@ -102,8 +170,10 @@ export class SimpleObject {
 export type Size = "small" | "large";
 export type Color = "red" | "black" | "blue" | "green" | "yellow" | "white";
 export type Form = "anyform" | "brick" | "plank" | "ball" | "pyramid" | "box" | "table" | "floor";
+export type Superlative = "leftmost" | "rightmost" | "highest" | "lowest" | "tallest" | "shortest"
+    | "closest" | "farthest";
 export type Relation = "leftof" | "rightof" | "inside" | "ontop" | "under" | "beside" | "above" | "holding"
-    | "at any location";
+    | "at any location" | "incolumn";
 //////////////////////////////////////////////////////////////////////
 // Interpretations
 
@@ -126,8 +196,9 @@ export class Conjunction {
 // A Literal represents a relation that is intended to hold among some objects.
 export class Literal {
     public static parse(input: string): Literal {
-        const relargs = input.split("(");
-        return new Literal(relargs[0] as Relation, relargs[1].slice(0, -1).split(","));
+        const polarity = input[0] !== "-";
+        const relargs = (polarity ? input : input.slice(1)).split("(");
+        return new Literal(relargs[0] as Relation, relargs[1].slice(0, -1).split(","), polarity);
     }
     constructor(
         public relation: Relation,         // The name of the relation in question
@@ -136,3 +207,23 @@ export class Literal {
     ) {}
     public toString(): string {return (this.polarity ? "" : "-") + this.relation + "(" + this.args.join(",") + ")"; }
 }
+
+// The physical laws that can make a literal impossible, see docs/rules.md
+export type Law =
+      "floor"              // The floor cannot be moved
+    | "arity"              // The relation needs two objects
+    | "inside non-box"     // Objects can only be inside boxes
+    | "ontop box"          // Objects are inside boxes, not on top of them
+    | "ball support"       // Balls cannot support anything
+    | "ball rolls"         // Balls must be in boxes or on the floor
+    | "size"               // Small objects cannot support large objects
+    | "box contents"       // Boxes cannot contain pyramids, planks or boxes of the same size
+    | "small box support"  // Small boxes cannot be supported by small bricks or pyramids
+    | "large box support"  // Large boxes cannot be supported by pyramids
+;
+
+// A Rejection records that a literal was not interpreted, because it would break a law.
+export class Rejection {
+    constructor(public literal: Literal, public law: Law) {}
+    public toString(): string {return `Rejection(${this.literal.toString()}, ${this.law})`; }
+}
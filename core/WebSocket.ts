@@ -0,0 +1,231 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import * as net from "net";
+
+/*
+ * WebSocket
+ *
+ * The server side of the WebSocket protocol (RFC 6455), so that 'shrdlite-server.ts' can talk to browsers
+ * and other tools over a single connection without a library. Only what the server needs is supported:
+ * text messages, which may be split into fragments, ping and close. Extensions are never negotiated.
+ */
+
+export const Opcodes = {
+    binary: 0x2,
+    close: 0x8,
+    continuation: 0x0,
+    ping: 0x9,
+    pong: 0xA,
+    text: 0x1,
+};
+
+/**
+ * A frame of the protocol, the payload is unmasked.
+ */
+export interface IFrame {
+    fin: boolean;      // True if this is the last fragment of a message
+    opcode: number;
+    payload: Buffer;
+}
+
+// Added to the key of the client to prove that the server speaks the protocol, see RFC 6455 section 1.3
+const handshakeGuid = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/**
+ * Accept the upgrade of an HTTP request to a WebSocket connection.
+ * @param request: The request, which asks for an upgrade to "websocket".
+ * @param socket: The socket of the request.
+ * @param maxMessageLength: The longest message that the client may send, in bytes.
+ * @returns: The connection, or null if the request is not a valid handshake, which is then refused.
+ */
+export function acceptWebSocket(request: http.IncomingMessage,
+                                socket: net.Socket,
+                                maxMessageLength: number): WebSocketConnection | null {
+    const key = request.headers["sec-websocket-key"];
+    const upgrade = String(request.headers.upgrade || "").toLowerCase();
+    if (request.method !== "GET" || upgrade !== "websocket" || typeof key !== "string"
+        || request.headers["sec-websocket-version"] !== "13") {
+        socket.end("HTTP/1.1 400 Bad Request\r\nSec-WebSocket-Version: 13\r\nConnection: close\r\n\r\n");
+        return null;
+    }
+    const accept = crypto.createHash("sha1").update(key + handshakeGuid).digest("base64");
+    socket.write("HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n"
+        + `Sec-WebSocket-Accept: ${accept}\r\n\r\n`);
+    return new WebSocketConnection(socket, maxMessageLength);
+}
+
+/**
+ * Encode a frame that is not fragmented.
+ * @param opcode: The kind of frame.
+ * @param payload: The payload.
+ * @param mask: The masking key, which clients must use and servers must not.
+ * @returns: The bytes of the frame.
+ */
+export function encodeFrame(opcode: number, payload: Buffer, mask?: Buffer): Buffer {
+    const length = payload.length;
+    const lengthBytes = length < 126 ? 0 : length < 0x10000 ? 2 : 8;
+    const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+    header[0] = 0x80 | opcode;
+    header[1] = (mask ? 0x80 : 0) | (lengthBytes === 0 ? length : lengthBytes === 2 ? 126 : 127);
+    if (lengthBytes === 2) {
+        header.writeUInt16BE(length, 2);
+    } else if (lengthBytes === 8) {
+        header.writeUInt32BE(Math.floor(length / 0x100000000), 2);
+        header.writeUInt32BE(length % 0x100000000, 6);
+    }
+    if (!mask) {
+        return Buffer.concat([header, payload]);
+    }
+    mask.copy(header, 2 + lengthBytes);
+    return Buffer.concat([header, applyMask(payload, mask)]);
+}
+
+/**
+ * Splits the bytes received on a connection into frames, which can arrive in any number of pieces.
+ * @param maxPayloadLength: The longest payload that is accepted, in bytes.
+ */
+export class FrameReader {
+    private buffer = Buffer.alloc(0);
+
+    public constructor(private maxPayloadLength: number) {}
+
+    /**
+     * Add received bytes.
+     * @param data: The bytes.
+     * @returns: The frames that are complete. If a frame is too long, it throws an error.
+     */
+    public push(data: Buffer): IFrame[] {
+        this.buffer = Buffer.concat([this.buffer, data]);
+        const frames: IFrame[] = [];
+        while (this.buffer.length >= 2) {
+            const masked = (this.buffer[1] & 0x80) !== 0;
+            let length = this.buffer[1] & 0x7F;
+            let offset = 2;
+            if (length === 126) {
+                if (this.buffer.length < 4) {
+                    break;
+                }
+                length = this.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (this.buffer.length < 10) {
+                    break;
+                }
+                length = this.buffer.readUInt32BE(2) * 0x100000000 + this.buffer.readUInt32BE(6);
+                offset = 10;
+            }
+            if (length > this.maxPayloadLength) {
+                throw new Error(`The frame is longer than ${this.maxPayloadLength} bytes`);
+            }
+            const start = offset + (masked ? 4 : 0);
+            if (this.buffer.length < start + length) {
+                break;
+            }
+            const payload = this.buffer.slice(start, start + length);
+            frames.push({
+                fin: (this.buffer[0] & 0x80) !== 0,
+                opcode: this.buffer[0] & 0x0F,
+                payload: masked ? applyMask(payload, this.buffer.slice(offset, offset + 4)) : Buffer.from(payload),
+            });
+            this.buffer = this.buffer.slice(start + length);
+        }
+        return frames;
+    }
+}
+
+/**
+ * A WebSocket connection to a client, after the handshake.
+ * @param socket: The socket of the connection.
+ * @param maxMessageLength: The longest message that the client may send, in bytes.
+ */
+export class WebSocketConnection {
+    public onMessage?: (text: string) => void;
+    public onClose?: () => void;
+    private reader: FrameReader;
+    private fragments: Buffer[] = [];  // The fragments of the message that is being received
+    private closed = false;
+
+    public constructor(private socket: net.Socket, private maxMessageLength: number) {
+        this.reader = new FrameReader(maxMessageLength);
+        socket.on("data", (data: Buffer) => {
+            let frames: IFrame[];
+            try {
+                frames = this.reader.push(data);
+            } catch (err) {
+                this.close(1009, err.message);
+                return;
+            }
+            frames.forEach((frame) => this.receive(frame));
+        });
+        socket.on("close", () => this.finish());
+        socket.on("error", () => this.finish());
+    }
+
+    public send(text: string): void {
+        if (!this.closed) {
+            this.socket.write(encodeFrame(Opcodes.text, Buffer.from(text, "utf8")));
+        }
+    }
+
+    /**
+     * Close the connection.
+     * @param code: The status code, 1000 is a normal closure, see RFC 6455 section 7.4.
+     * @param reason: A description for the client.
+     */
+    public close(code: number = 1000, reason: string = ""): void {
+        if (this.closed) {
+            return;
+        }
+        const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+        payload.writeUInt16BE(code, 0);
+        payload.write(reason, 2);
+        this.socket.end(encodeFrame(Opcodes.close, payload));
+        this.finish();
+    }
+
+    private receive(frame: IFrame): void {
+        if (this.closed) {
+            return;
+        }
+        if (frame.opcode === Opcodes.ping) {
+            this.socket.write(encodeFrame(Opcodes.pong, frame.payload));
+        } else if (frame.opcode === Opcodes.close) {
+            this.close();
+        } else if (frame.opcode === Opcodes.text || frame.opcode === Opcodes.continuation) {
+            if ((frame.opcode === Opcodes.text) !== (this.fragments.length === 0)) {
+                this.close(1002, "Unexpected fragment");
+                return;
+            }
+            this.fragments.push(frame.payload);
+            const message = Buffer.concat(this.fragments);
+            if (message.length > this.maxMessageLength) {
+                this.close(1009, `The message is longer than ${this.maxMessageLength} bytes`);
+            } else if (frame.fin) {
+                this.fragments = [];
+                if (this.onMessage) {
+                    this.onMessage(message.toString("utf8"));
+                }
+            }
+        } else if (frame.opcode !== Opcodes.pong) {
+            this.close(1003, "Only text messages are supported");
+        }
+    }
+
+    private finish(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        if (this.onClose) {
+            this.onClose();
+        }
+    }
+}
+
+function applyMask(payload: Buffer, mask: Buffer): Buffer {
+    const result = Buffer.alloc(payload.length);
+    for (let index = 0; index < payload.length; index++) {
+        result[index] = payload[index] ^ mask[index % 4];
+    }
+    return result;
+}
@@ -1,8 +1,14 @@
 import * as $ from "jquery";
+import {CostPresets, CostSettings} from "../planner/CostModel";
+import {HeuristicSettings} from "../planner/Heuristics";
+import {PlannerSettings} from "../planner/PlannerOptimal";
 import {ExampleWorlds} from "../world/ExampleWorlds";
+import {ExecutionSettings, Replanner} from "../world/PlanExecution";
+import {getWorldByName, isRandomWorldName} from "../world/RandomWorld";
 import {SVGWorld} from "../world/SVGWorld";
-import {World} from "../world/World";
-import {parseUtteranceIntoPlan, splitStringIntoPlan} from "./Shrdlite";
+import {validateWorld} from "../world/WorldValidator";
+import {Plan} from "./Plan";
+import {ShrdliteSession, splitStringIntoPlan} from "./Shrdlite";
 
 /*
  * shrdlite-html
@@ -16,15 +22,30 @@ const defaultSpeech = true;
 
 $(() => {
     let current: string = getURLParameter("world");
-    if (!(current in ExampleWorlds)) {
+    if (!(current in ExampleWorlds) && !isRandomWorldName(current)) {
         current = defaultWorld;
     }
     const speech: string = (getURLParameter("speech") || "").toLowerCase();
     const useSpeech: boolean = (speech === "true" || speech === "1" || defaultSpeech);
+    const undo: string = getURLParameter("undo");
+    const heuristic: string = getURLParameter("heuristic");
+    if (heuristic === "admissible" || heuristic === "weighted") {
+        HeuristicSettings.mode = heuristic;
+    }
+    const planner: string = getURLParameter("planner");
+    if (planner === "hierarchical" || planner === "optimal" || planner === "auto") {
+        PlannerSettings.mode = planner;
+    }
+    const costs: string = getURLParameter("costs");
+    if (costs in CostPresets) {
+        CostSettings.model = CostPresets[costs];
+    }
+    const replan: string = (getURLParameter("replan") || "").toLowerCase();
+    ExecutionSettings.replan = replan === "true" || replan === "1";
 
     $("#currentworld").text(current);
     $("<a>").text("reset")
-        .attr("href", "?world=" + current + "&speech=" + useSpeech)
+        .attr("href", "?world=" + encodeURIComponent(current) + "&speech=" + useSpeech)
         .appendTo($("#resetworld"));
     $("#otherworlds").empty();
     for (const wname in ExampleWorlds) {
@@ -35,36 +56,67 @@ $(() => {
                 .after(" ");
         }
     }
+    // A new random world every time, the seed shows in the address so that it can be shared
+    const randomWorld = "random:seed=" + Math.floor(Math.random() * 100000);
+    $("<a>").text("random")
+        .attr("href", "?world=" + encodeURIComponent(randomWorld) + "&speech=" + useSpeech)
+        .appendTo($("#otherworlds"));
     $("<a>").text(useSpeech ? "turn off" : "turn on")
-        .attr("href", "?world=" + current + "&speech=" + (!useSpeech))
+        .attr("href", "?world=" + encodeURIComponent(current) + "&speech=" + (!useSpeech))
         .appendTo($("#togglespeech"));
 
-    const world = new SVGWorld(ExampleWorlds[current], useSpeech);
-    interactiveLoop(world);
+    let state = ExampleWorlds[defaultWorld];
+    let worldError: string | undefined;
+    try {
+        state = getWorldByName(current) || state;
+    } catch (err) {
+        worldError = err.message;
+    }
+    const world = new SVGWorld(state, useSpeech);
+    if (worldError) {
+        world.printError(`[Cannot create world ${current}]`, worldError);
+    }
+    for (const violation of validateWorld(world.currentState)) {
+        world.printError(`[Invalid world: ${violation.kind}]`, violation.message);
+    }
+    const session = new ShrdliteSession(world);
+    if (undo === "reset" || undo === "move") {
+        session.history.mode = undo;
+    }
+    interactiveLoop(session);
 });
 
 /**
  * The interaction loop.
  * It calls 'splitStringIntoPlan()' and 'parseUtteranceIntoPlan()' after each utterance.
- * @param {World} world
+ * @param {ShrdliteSession} session
  */
-function interactiveLoop(world: World): void {
+function interactiveLoop(session: ShrdliteSession): void {
+    const world = session.world;
     function endlessLoop(utterance: string = ""): void {
         const inputPrompt = "What can I do for you today? ";
         const nextInput = () => world.readUserInput(inputPrompt, endlessLoop);
         if (utterance.trim()) {
-            let theplan: string[] | null | string = splitStringIntoPlan(utterance);
-            if (!theplan) {
+            const typed = splitStringIntoPlan(utterance);
+            let theplan: Plan | null | string;
+            let replanner: Replanner | undefined;
+            if (typed) {
+                theplan = session.acceptTypedPlan(typed);
+            } else {
                 // Need clarification, outputs question
-                theplan = parseUtteranceIntoPlan(world, utterance);
+                theplan = session.parseUtteranceIntoPlan(utterance);
                 if (typeof theplan === "string") {
                     world.readUserInput(theplan, endlessLoop);
                     return;
                 }
+                replanner = session.getReplanner();
             }
             if (theplan) {
-                world.printDebugInfo("Plan: " + theplan.join(", "));
-                world.performPlan(theplan, nextInput);
+                world.printDebugInfo("Plan: " + theplan.toString());
+                world.performPlan(theplan, (result) => {
+                    session.recordExecution(result);
+                    nextInput();
+                }, replanner);
                 return;
             }
         }
@@ -107,7 +159,7 @@ function getURLParameter(sParam: string): string {
     for (const sURLVariable of sURLVariables) {
         const sParameterName = sURLVariable.split("=");
         if (sParameterName[0] === sParam) {
-            return sParameterName[1];
+            return decodeURIComponent(sParameterName[1]);
         }
     }
     return "";
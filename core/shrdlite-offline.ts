@@ -1,59 +1,246 @@
+import * as fs from "fs";
+import * as readline from "readline";
+import {CostPresets, CostSettings, ICostModel, parseCostModel} from "../planner/CostModel";
+import {HeuristicSettings} from "../planner/Heuristics";
+import {PlannerSettings} from "../planner/PlannerOptimal";
 import {ExampleWorlds} from "../world/ExampleWorlds";
+import {ExecutionSettings, Replanner} from "../world/PlanExecution";
+import {getWorldByName} from "../world/RandomWorld";
+import {RecordingWorld} from "../world/RecordingWorld";
 import {TextWorld} from "../world/TextWorld";
-import {parseUtteranceIntoPlan, splitStringIntoPlan} from "./Shrdlite";
+import {World, WorldState} from "../world/World";
+import {parseWorldState, serializeWorldState} from "../world/WorldFile";
+import {validateWorld} from "../world/WorldValidator";
+import {runUtterance} from "./BatchMode";
+import {RestoreMode} from "./History";
+import {Plan} from "./Plan";
+import {Repl} from "./Repl";
+import {ShrdliteSession, splitStringIntoPlan} from "./Shrdlite";
 
 /*
  * shrdlite-offline
  *
  * This is the main file for the command-line version.
  * You don't have to edit this file.
+ *
+ * With --batch, the utterances are read from a file, or from stdin if the file is "-", one per line,
+ * and the result of each utterance is written to stdout as one line of JSON, see BatchMode.ts.
+ * Without any utterances, the robot talks to the user in the terminal, see Repl.ts.
  */
 
 // Extract command line arguments.
 
 const nodename = process.argv[0];
 const jsfile = process.argv[1].replace(/^.*\//, "");
-const worldname = process.argv[2];
-const utterances = process.argv.slice(3);
+const args = process.argv.slice(2);
 
 // Print command usage and exit if necessary.
 const usage = "Usage: " + nodename + " " + jsfile +
-    " (" + Object.keys(ExampleWorlds).join(" | ") + ")" +
+    " [--undo (reset | move)] [--heuristic (admissible | weighted)]" +
+    " [--planner (hierarchical | optimal | auto)]" +
+    " [--costs (" + Object.keys(CostPresets).join(" | ") + " | path.json)] [--replan (on | off)]" +
+    " [--save path.json] [--batch (path | -)]" +
+    " (" + Object.keys(ExampleWorlds).join(" | ") + " | random:seed=42,cols=8,objs=20 | --world-file path.json)" +
     " (utterance | example no. | plan)*";
-if (utterances.length === 0 || !ExampleWorlds[worldname]) {
+
+// Options precede the world name
+let undoMode: RestoreMode | undefined;
+let worldFile: string | undefined;
+let saveFile: string | undefined;
+let batchFile: string | undefined;
+while (args.length > 0 && args[0].slice(0, 2) === "--") {
+    const option = args.shift();
+    const value = args.shift();
+    if (option === "--undo" && (value === "reset" || value === "move")) {
+        undoMode = value;
+    } else if (option === "--heuristic" && (value === "admissible" || value === "weighted")) {
+        HeuristicSettings.mode = value;
+    } else if (option === "--planner" && (value === "hierarchical" || value === "optimal" || value === "auto")) {
+        PlannerSettings.mode = value;
+    } else if (option === "--costs" && value) {
+        CostSettings.model = loadCostModel(value);
+    } else if (option === "--replan" && (value === "on" || value === "off")) {
+        ExecutionSettings.replan = value === "on";
+    } else if (option === "--world-file" && value) {
+        worldFile = value;
+    } else if (option === "--save" && value) {
+        saveFile = value;
+    } else if (option === "--batch" && value) {
+        batchFile = value;
+    } else {
+        console.error(usage);
+        process.exit(1);
+    }
+}
+
+// A world file takes the place of the world name
+const state = worldFile ? loadWorldFile(worldFile) : loadWorld(args.shift() || "");
+const utterances = args;
+if (utterances.length > 0 && batchFile !== undefined) {
     console.error(usage);
     process.exit(1);
 }
 
-// Loop through all example utterances, updating the world state
-const world = new TextWorld(ExampleWorlds[worldname]);
-world.printWorld();
-for (let utter of utterances) {
-    const example: number = parseInt(utter, 10);
-    if (!isNaN(example)) {
-        utter = world.currentState.examples[example];
-        if (!utter) {
-            console.error("ERROR: Cannot find example no. " + example);
+// World files must obey the physical laws, the example worlds are only warned about
+const violations = validateWorld(state);
+for (const violation of violations) {
+    console.error(`${worldFile ? "ERROR" : "WARNING"}: Invalid world (${violation.kind}): ${violation.message}`);
+}
+if (worldFile && violations.length > 0) {
+    console.error(`ERROR: Cannot use world file '${worldFile}', it breaks the physical laws`);
+    process.exit(1);
+}
+
+if (batchFile !== undefined) {
+    runBatch(batchFile);
+} else if (utterances.length === 0) {
+    runRepl();
+} else {
+    runUtterances();
+}
+
+/**
+ * Loop through all utterances given as arguments, updating and printing the world state.
+ */
+function runUtterances(): void {
+    const session = createSession(new TextWorld(state));
+    const world = session.world;
+    world.printWorld();
+    for (let utter of utterances) {
+        const example: number = parseInt(utter, 10);
+        if (!isNaN(example)) {
+            utter = world.currentState.examples[example];
+            if (!utter) {
+                console.error("ERROR: Cannot find example no. " + example);
+                process.exit(1);
+            }
+        }
+        console.log();
+        console.log("############################################################" +
+                    "############################################################");
+        console.log("#####", utter);
+        console.log("############################################################" +
+                    "############################################################");
+        console.log();
+        const typed = splitStringIntoPlan(utter);
+        let theplan: Plan | null | string;
+        let replanner: Replanner | undefined;
+        if (typed) {
+            theplan = session.acceptTypedPlan(typed);
+        } else {
+            theplan = session.parseUtteranceIntoPlan(utter);
+            replanner = session.getReplanner();
+        }
+        if (!theplan) {
+            console.error("ERROR: Couldn't find a plan for utterance '" + utter + "'");
             process.exit(1);
+        } else {
+            console.log();
+            if (typeof theplan === "string") {
+                // A clarification question, the answer can be the next utterance
+                world.printSystemOutput(theplan);
+            } else {
+                world.performPlan(theplan, (result) => session.recordExecution(result), replanner);
+            }
+            world.printWorld();
         }
     }
-    console.log();
-    console.log("############################################################" +
-                "############################################################");
-    console.log("#####", utter);
-    console.log("############################################################" +
-                "############################################################");
-    console.log();
-    let theplan: string[] | null | string = splitStringIntoPlan(utter);
-    if (!theplan) {
-        theplan = parseUtteranceIntoPlan(world, utter);
-    }
-    if (!theplan) {
-        console.error("ERROR: Couldn't find a plan for utterance '" + utter + "'");
+    saveWorld(world.currentState);
+}
+
+/**
+ * Talk to the user in the terminal, until the input ends or the user types :quit.
+ * Only what the robot says is printed, the debug information can be turned on with ":debug on".
+ */
+function runRepl(): void {
+    const session = createSession(new TextWorld(state));
+    session.world.showDebugInfo = false;
+    new Repl(session, saveWorld).start();
+}
+
+/**
+ * Run the utterances of a file or stdin one line at a time, writing one line of JSON for each.
+ * Empty lines and lines starting with "#" are skipped. Failing utterances are reported in their
+ * JSON, so the batch always runs to the end.
+ * @param path: The file, or "-" for stdin.
+ */
+function runBatch(path: string): void {
+    const session = createSession(new RecordingWorld(state));
+    const input: NodeJS.ReadableStream = path === "-" ? process.stdin : fs.createReadStream(path);
+    input.on("error", (err: Error) => {
+        console.error(`ERROR: Cannot read batch file '${path}': ${err.message}`);
         process.exit(1);
-    } else {
-        console.log();
-        world.performPlan(theplan as string[]);
-        world.printWorld();
+    });
+    const lines = readline.createInterface({input, terminal: false});
+    lines.on("line", (line: string) => {
+        const utterance = line.trim();
+        if (utterance !== "" && utterance[0] !== "#") {
+            console.log(JSON.stringify(runUtterance(session, utterance)));
+        }
+    });
+    lines.on("close", () => saveWorld(session.world.currentState));
+}
+
+/**
+ * Start the conversation with the robot, using the undo mode of the options.
+ * @param world: The world.
+ * @returns: The session.
+ */
+function createSession<W extends World>(world: W): ShrdliteSession<W> {
+    const session = new ShrdliteSession(world);
+    if (undoMode) {
+        session.history.mode = undoMode;
+    }
+    return session;
+}
+
+/**
+ * Save the final world state, so that it can be loaded again with --world-file.
+ * @param final: The world state after the last utterance.
+ */
+function saveWorld(final: WorldState): void {
+    if (saveFile) {
+        try {
+            fs.writeFileSync(saveFile, serializeWorldState(final));
+        } catch (err) {
+            console.error(`ERROR: Cannot save world file '${saveFile}': ${err.message}`);
+            process.exit(1);
+        }
+    }
+}
+
+function loadCostModel(nameOrPath: string): ICostModel {
+    if (nameOrPath in CostPresets) {
+        return CostPresets[nameOrPath];
+    }
+    try {
+        return parseCostModel(fs.readFileSync(nameOrPath, "utf8"));
+    } catch (err) {
+        console.error(`ERROR: Cannot load cost model '${nameOrPath}': ${err.message}`);
+        return process.exit(1);
+    }
+}
+
+function loadWorldFile(path: string): WorldState {
+    try {
+        return parseWorldState(fs.readFileSync(path, "utf8"));
+    } catch (err) {
+        console.error(`ERROR: Cannot load world file '${path}': ${err.message}`);
+        return process.exit(1);
+    }
+}
+
+function loadWorld(name: string): WorldState {
+    let state: WorldState | undefined;
+    try {
+        state = getWorldByName(name);
+    } catch (err) {
+        console.error(`ERROR: Cannot create world '${name}': ${err.message}`);
+        return process.exit(1);
+    }
+    if (!state) {
+        console.error(usage);
+        return process.exit(1);
     }
+    return state;
 }
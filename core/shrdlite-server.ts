@@ -0,0 +1,450 @@
+import * as childProcess from "child_process";
+import * as crypto from "crypto";
+import * as http from "http";
+import * as net from "net";
+import {PlannerSettings} from "../planner/PlannerOptimal";
+import {ExampleWorlds} from "../world/ExampleWorlds";
+import {ExecutionSettings} from "../world/PlanExecution";
+import {getWorldByName} from "../world/RandomWorld";
+import {WorldEvent} from "../world/RecordingWorld";
+import {WorldState} from "../world/World";
+import {parseWorldState, serializeWorldState} from "../world/WorldFile";
+import {validateWorld} from "../world/WorldValidator";
+import {IBatchRecord} from "./BatchMode";
+import {runSessionWorker, ServerMessage, WorkerMessage} from "./SessionWorker";
+import {acceptWebSocket, WebSocketConnection} from "./WebSocket";
+
+/*
+ * shrdlite-server
+ *
+ * A local HTTP server, so that other tools can talk to the robot. Every session has its own world
+ * and its own dialogue, so a clarification question or an undo in one session does not affect the others.
+ * Requests and responses are JSON, and utterances are answered with the same records as the batch mode,
+ * see BatchMode.ts.
+ *
+ *   POST   /sessions                      {"world": "small"} or {"state": {...}} in the format of world files
+ *   GET    /sessions/:id                  The world and the pending question of the session
+ *   DELETE /sessions/:id
+ *   POST   /sessions/:id/utterances       {"utterance": "put the ball in a box"}
+ *   POST   /sessions/:id/answers          {"answer": "the large one"}, only when a question is pending
+ *   GET    /sessions/:id/state            The world state, which can be saved as a world file
+ *   GET    /sessions/:id/events           The events of the session, while plans are performed
+ *   GET    /sessions/:id/socket           A WebSocket for the utterances and the events of the session
+ *
+ * Events are streamed as server-sent events, which browsers read with EventSource. Every action,
+ * utterance and error of the robot is an event, and a "record" event ends every utterance.
+ * The WebSocket takes the same JSON bodies as the utterances and answers endpoints, and sends
+ * every event as a JSON object with its "type", a record as {"type": "record", "record": {...}}.
+ *
+ * Each session runs in a child process, see SessionWorker.ts, so a long search does not hold up
+ * the other sessions. A session that has not been used for a while is closed, with its followers.
+ */
+
+interface ISession {
+    id: string;
+    worker: childProcess.ChildProcess;
+    world: object;                    // The world state in the format of world files, as of the last event
+    question: string | null;          // The clarification question waiting for an answer
+    pending: Array<(record: IBatchRecord | null) => void>;  // Waiting for the records of the worker, in order
+    streams: http.ServerResponse[];   // The clients following the events
+    sockets: WebSocketConnection[];   // The clients connected with a WebSocket
+    timer?: NodeJS.Timer;             // Closes the session when it has been idle for too long
+}
+
+// An event of a session, for the clients following it
+type SessionEvent = WorldEvent | {type: "record", record: IBatchRecord};
+
+// Bodies are small JSON objects, but an uploaded world can have many objects
+const maxBodyLength = 1024 * 1024;
+
+// Every session has a process of its own, which takes some memory
+const maxSessions = 32;
+
+class RequestError extends Error {
+    constructor(m: string, public status: number) {
+        super(m);
+        (Object as any).setPrototypeOf(this, RequestError.prototype);
+    }
+}
+
+// Extract command line arguments.
+
+const nodename = process.argv[0];
+const jsfile = process.argv[1].replace(/^.*\//, "");
+const args = process.argv.slice(2);
+
+const usage = "Usage: " + nodename + " " + jsfile +
+    " [--port 8081] [--host 127.0.0.1] [--idle seconds] [--planner (hierarchical | optimal | auto)]" +
+    " [--replan (on | off)]";
+
+// The sessions are forked with the same settings, and "--worker" in front
+const worker = args[0] === "--worker";
+const workerArgs = ["--worker"].concat(worker ? args.slice(1) : args);
+if (worker) {
+    args.shift();
+}
+
+let port = 8081;
+let host = "127.0.0.1";
+let idleSeconds = 30 * 60;
+while (args.length > 0) {
+    const option = args.shift();
+    const value = args.shift();
+    if (option === "--port" && value && /^\d+$/.test(value)) {
+        port = parseInt(value, 10);
+    } else if (option === "--host" && value) {
+        host = value;
+    } else if (option === "--idle" && value && /^\d+(\.\d+)?$/.test(value) && Number(value) > 0) {
+        idleSeconds = Number(value);
+    } else if (option === "--planner" && (value === "hierarchical" || value === "optimal" || value === "auto")) {
+        PlannerSettings.mode = value;
+    } else if (option === "--replan" && (value === "on" || value === "off")) {
+        ExecutionSettings.replan = value === "on";
+    } else {
+        console.error(usage);
+        process.exit(1);
+    }
+}
+
+const sessions: {[id: string]: ISession} = {};
+
+if (worker) {
+    runSessionWorker();
+} else {
+    const server = http.createServer((request, response) => {
+        readBody(request, (err, body) => {
+            try {
+                if (err) {
+                    throw err;
+                }
+                route(request, response, body);
+            } catch (err) {
+                const status = err instanceof RequestError ? err.status : 500;
+                sendJSON(response, status, {error: err.message});
+            }
+        });
+    });
+    server.on("upgrade", (request: http.IncomingMessage, socket: net.Socket) => {
+        const path = getPath(request);
+        const session = path.length === 3 && path[0] === "sessions" && path[2] === "socket"
+            ? sessions[path[1]] : undefined;
+        if (!session) {
+            socket.end("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+            return;
+        }
+        const connection = acceptWebSocket(request, socket, maxBodyLength);
+        if (connection) {
+            followSocket(session, connection);
+        }
+    });
+    server.listen(port, host, () => {
+        console.log(`Shrdlite server listening on http://${host}:${server.address().port}/`);
+        console.log("Worlds: " + Object.keys(ExampleWorlds).join(", ") + ", random:seed=42,cols=8,objs=20");
+    });
+}
+
+/**
+ * Answer a request.
+ * @param request: The request.
+ * @param response: The response, which is ended unless it is a stream of events.
+ * @param body: The JSON body of the request, or undefined if it has none.
+ */
+function route(request: http.IncomingMessage, response: http.ServerResponse, body: any): void {
+    const path = getPath(request);
+    const method = request.method;
+    if (path[0] !== "sessions" || path.length > 3) {
+        throw new RequestError(`Unknown path: ${request.url}`, 404);
+    }
+    if (path.length === 1) {
+        if (method !== "POST") {
+            throw new RequestError(`Method not allowed: ${method}`, 405);
+        }
+        const created = createSession(body);
+        sendJSON(response, 201, describeSession(created));
+        return;
+    }
+
+    const session = sessions[path[1]];
+    if (!session) {
+        throw new RequestError(`Unknown session: ${path[1]}`, 404);
+    }
+    touchSession(session);
+    const endpoint = `${method} ${path[2] || ""}`;
+    const reply = (record: IBatchRecord | null) => record === null
+        ? sendJSON(response, 410, {error: "The session was closed before the utterance was run"})
+        : sendJSON(response, 200, record);
+    if (endpoint === "GET ") {
+        sendJSON(response, 200, describeSession(session));
+    } else if (endpoint === "DELETE ") {
+        closeSession(session, "The session was deleted");
+        response.writeHead(204);
+        response.end();
+    } else if (endpoint === "POST utterances") {
+        runSessionUtterance(session, getString(body, "utterance"), reply);
+    } else if (endpoint === "POST answers") {
+        if (session.question === null) {
+            throw new RequestError("There is no question to answer", 409);
+        }
+        runSessionUtterance(session, getString(body, "answer"), reply);
+    } else if (endpoint === "GET state") {
+        sendJSON(response, 200, session.world);
+    } else if (endpoint === "GET events") {
+        followEvents(session, response);
+    } else if (endpoint === "GET socket") {
+        throw new RequestError("Expected a WebSocket handshake", 426);
+    } else {
+        throw new RequestError(`Unknown endpoint: ${method} ${request.url}`, 404);
+    }
+}
+
+/**
+ * Create a session on a named world or on an uploaded world state, and start its worker.
+ * @param body: Either {"world": name} or {"state": world}, where the world is in the format of world files.
+ * @returns: The session.
+ */
+function createSession(body: any): ISession {
+    let state: WorldState | undefined;
+    if (body && typeof body.world === "string") {
+        try {
+            state = getWorldByName(body.world);
+        } catch (err) {
+            throw new RequestError(`Cannot create world '${body.world}': ${err.message}`, 400);
+        }
+        if (!state) {
+            throw new RequestError(`Unknown world: ${body.world}`, 400);
+        }
+    } else if (body && typeof body.state === "object" && body.state !== null) {
+        state = parseUploadedWorld(body.state);
+    } else {
+        throw new RequestError('Expected {"world": name} or {"state": world}', 400);
+    }
+    if (Object.keys(sessions).length >= maxSessions) {
+        throw new RequestError(`There are already ${maxSessions} sessions, delete one first`, 503);
+    }
+
+    const session: ISession = {
+        id: crypto.randomBytes(8).toString("hex"),
+        pending: [],
+        question: null,
+        sockets: [],
+        streams: [],
+        worker: childProcess.fork(process.argv[1], workerArgs),
+        world: JSON.parse(serializeWorldState(state)),
+    };
+    session.worker.on("message", (message: WorkerMessage) => receive(session, message));
+    session.worker.on("exit", () => closeSession(session, "The session stopped working"));
+    sendToWorker(session, {type: "start", world: session.world});
+    sessions[session.id] = session;
+    touchSession(session);
+    return session;
+}
+
+/**
+ * Read an uploaded world, which must obey the physical laws.
+ * @param upload: The world, in the format of world files.
+ * @returns: The world state.
+ */
+function parseUploadedWorld(upload: object): WorldState {
+    let state: WorldState;
+    try {
+        state = parseWorldState(JSON.stringify(upload));
+    } catch (err) {
+        throw new RequestError(`Invalid world: ${err.message}`, 400);
+    }
+    const violations = validateWorld(state);
+    if (violations.length > 0) {
+        const messages = violations.map((violation) => `${violation.kind}: ${violation.message}`);
+        throw new RequestError(`Invalid world, it breaks the physical laws (${messages.join("; ")})`, 400);
+    }
+    return state;
+}
+
+/**
+ * Run an utterance or an answer in the worker of a session. The record is also sent to the followers.
+ * @param session: The session.
+ * @param utterance: The utterance.
+ * @param callback: Called with the record of what happened, or with null if the session is closed first.
+ */
+function runSessionUtterance(session: ISession,
+                             utterance: string,
+                             callback: (record: IBatchRecord | null) => void): void {
+    session.pending.push(callback);
+    touchSession(session);
+    sendToWorker(session, {type: "utterance", utterance});
+}
+
+function receive(session: ISession, message: WorkerMessage): void {
+    if (message.type === "event") {
+        if (message.event.type === "action") {
+            session.world = message.event.world;
+        }
+        sendEvent(session, message.event);
+        return;
+    }
+    const record = message.record;
+    session.world = record.world;
+    session.question = record.status === "question" ? record.question : null;
+    sendEvent(session, {record, type: "record"});
+    const callback = session.pending.shift();
+    touchSession(session);
+    if (callback) {
+        callback(record);
+    }
+}
+
+function sendToWorker(session: ISession, message: ServerMessage): void {
+    session.worker.send(message);
+}
+
+/**
+ * Restart the idle time of a session. A session that waits for its worker is not idle.
+ * @param session: The session.
+ */
+function touchSession(session: ISession): void {
+    if (session.timer !== undefined) {
+        clearTimeout(session.timer);
+        session.timer = undefined;
+    }
+    if (session.pending.length === 0 && sessions[session.id] === session) {
+        session.timer = setTimeout(() => closeSession(session, "The session expired"), idleSeconds * 1000);
+    }
+}
+
+/**
+ * Close a session: stop its worker, disconnect its followers, and fail the utterances that are not run yet.
+ * @param session: The session.
+ * @param reason: Why the session was closed, for the followers.
+ */
+function closeSession(session: ISession, reason: string): void {
+    if (sessions[session.id] !== session) {
+        return;
+    }
+    delete sessions[session.id];
+    if (session.timer !== undefined) {
+        clearTimeout(session.timer);
+    }
+    session.worker.kill();
+    session.streams.forEach((stream) => stream.end(`event: close\ndata: ${JSON.stringify({reason})}\n\n`));
+    session.sockets.forEach((socket) => socket.close(1001, reason));
+    session.pending.splice(0).forEach((callback) => callback(null));
+}
+
+function describeSession(session: ISession): object {
+    return {
+        busy: session.pending.length > 0,
+        id: session.id,
+        question: session.question,
+        world: session.world,
+    };
+}
+
+/**
+ * Keep a response open and stream the events of a session to it, until the client goes away.
+ * @param session: The session.
+ * @param response: The response that the events are written to.
+ */
+function followEvents(session: ISession, response: http.ServerResponse): void {
+    response.writeHead(200, {
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "Content-Type": "text/event-stream",
+    });
+    response.write(": following session " + session.id + "\n\n");
+    session.streams.push(response);
+    response.on("close", () => {
+        session.streams = session.streams.filter((stream) => stream !== response);
+    });
+}
+
+/**
+ * Send the events of a session on a WebSocket, and run the utterances and answers that arrive on it.
+ * @param session: The session.
+ * @param connection: The WebSocket.
+ */
+function followSocket(session: ISession, connection: WebSocketConnection): void {
+    session.sockets.push(connection);
+    connection.onClose = () => {
+        session.sockets = session.sockets.filter((socket) => socket !== connection);
+    };
+    connection.onMessage = (text) => {
+        touchSession(session);
+        const fail = (error: string) => connection.send(JSON.stringify({error, type: "error"}));
+        let body: any;
+        try {
+            body = JSON.parse(text);
+        } catch (err) {
+            fail(`Invalid JSON: ${err.message}`);
+            return;
+        }
+        if (body && typeof body.utterance === "string") {
+            runSessionUtterance(session, body.utterance, () => undefined);
+        } else if (body && typeof body.answer === "string" && session.question !== null) {
+            runSessionUtterance(session, body.answer, () => undefined);
+        } else if (body && typeof body.answer === "string") {
+            fail("There is no question to answer");
+        } else {
+            fail('Expected {"utterance": string} or {"answer": string}');
+        }
+    };
+}
+
+function sendEvent(session: ISession, event: SessionEvent): void {
+    const data = JSON.stringify(event.type === "record" ? event.record : event);
+    for (const stream of session.streams) {
+        stream.write(`event: ${event.type}\ndata: ${data}\n\n`);
+    }
+    for (const socket of session.sockets) {
+        socket.send(JSON.stringify(event));
+    }
+}
+
+function sendJSON(response: http.ServerResponse, status: number, data: object): void {
+    response.writeHead(status, {"Content-Type": "application/json"});
+    response.end(JSON.stringify(data) + "\n");
+}
+
+function getPath(request: http.IncomingMessage): string[] {
+    return (request.url || "").split("?")[0].split("/").filter((part) => part !== "");
+}
+
+/**
+ * Read the JSON body of a request.
+ * @param request: The request.
+ * @param callback: Called with an error if the body is too long or not JSON,
+ *                  or with the body, which is undefined if it is empty.
+ */
+function readBody(request: http.IncomingMessage, callback: (err: RequestError | null, body?: any) => void): void {
+    let text = "";
+    let failed = false;
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+        if (failed) {
+            return;
+        }
+        text += chunk;
+        if (text.length > maxBodyLength) {
+            failed = true;
+            callback(new RequestError(`The body is longer than ${maxBodyLength} characters`, 413));
+        }
+    });
+    request.on("end", () => {
+        if (failed) {
+            return;
+        }
+        let body: any;
+        try {
+            body = text.trim() === "" ? undefined : JSON.parse(text);
+        } catch (err) {
+            callback(new RequestError(`Invalid JSON: ${err.message}`, 400));
+            return;
+        }
+        callback(null, body);
+    });
+}
+
+function getString(body: any, key: string): string {
+    if (!body || typeof body[key] !== "string") {
+        throw new RequestError(`Expected {"${key}": string}`, 400);
+    }
+    return body[key];
+}
@@ -2,15 +2,21 @@ import {ListObjects} from "../core/Describer";
 import {GetSimple} from "../core/Helper";
 import {
     Clarification,
+    Column,
+    CountCommand,
     DropCommand,
     Entity,
+    ExistsCommand,
     Location,
     MoveCommand,
     Object,
     RelativeObject,
     ShrdliteResult,
     SimpleObject,
+    SuperlativeObject,
     TakeCommand,
+    WhatisCommand,
+    WhereisCommand,
 } from "../core/Types";
 import {AmbiguityError} from "./AmbiguityError";
 
@@ -29,6 +35,19 @@ export function resolveParseAmbiguities(possibleParses: ShrdliteResult[],
             ambiguousObjects.push({parse, entity: parse.parse.entity});
         } else if (parse.parse instanceof TakeCommand) {
             ambiguousObjects.push({parse, entity: parse.parse.entity});
+        } else if (parse.parse instanceof WhereisCommand) {
+            ambiguousObjects.push({parse, entity: parse.parse.entity});
+        } else if (parse.parse instanceof CountCommand || parse.parse instanceof ExistsCommand) {
+            ambiguousObjects.push({parse, entity: parse.parse.entity});
+        } else if (parse.parse instanceof WhatisCommand) {
+            // A column is described by the objects in it
+            const location = parse.parse.location;
+            ambiguousObjects.push({
+                entity: location.entity instanceof Column
+                    ? new Entity("the", new RelativeObject(new SimpleObject("anyform", null, null), location))
+                    : location.entity,
+                parse,
+            });
         } else if (parse.parse instanceof DropCommand) {
             // Describe the object being held in terms of an entity
             ambiguousObjects.push({
@@ -72,7 +91,7 @@ export function resolveParseAmbiguities(possibleParses: ShrdliteResult[],
  * @returns: False if entity has properties different from filter.
  */
 function isEntityMatch(filter: Entity, entity: Entity): boolean {
-    if (entity.quantifier !== filter.quantifier) {
+    if (entity.quantifier !== filter.quantifier || entity.count !== filter.count) {
         return false;
     }
     return isObjectMatch(filter.object, entity.object);
@@ -98,6 +117,17 @@ function isObjectMatch(filter: Object, object: Object): boolean {
             return false;
         }
         return true;
+    } else if (filter instanceof SuperlativeObject) {
+        if (!(object instanceof SuperlativeObject) || object.superlative !== filter.superlative) {
+            return false;
+        }
+        if (filter.reference === undefined || object.reference === undefined) {
+            return filter.reference === object.reference && isObjectMatch(filter.object, object.object);
+        }
+        if (!isEntityMatch(filter.reference, object.reference)) {
+            return false;
+        }
+        return isObjectMatch(filter.object, object.object);
     } else {
         if (filter.location.relation === "at any location") {
             if (object instanceof RelativeObject) {
@@ -105,7 +135,7 @@ function isObjectMatch(filter: Object, object: Object): boolean {
             }
             return isObjectMatch(filter.object, object);
         }
-        if (object instanceof SimpleObject) {
+        if (!(object instanceof RelativeObject)) {
             return false;
         }
         return isLocationMatch(filter.location, object.location) && isObjectMatch(filter.object, object.object);
@@ -120,8 +150,11 @@ function isObjectMatch(filter: Object, object: Object): boolean {
   * @returns: False if location has properties different from filter.
   */
 function isLocationMatch(filter: Location, location: Location): boolean {
-    if (location.relation !== filter.relation) {
+    if (location.relation !== filter.relation || location.polarity !== filter.polarity) {
         return false;
     }
+    if (location.entity instanceof Column || filter.entity instanceof Column) {
+        return `${location.entity}` === `${filter.entity}`;
+    }
     return isEntityMatch(filter.entity, location.entity);
 }
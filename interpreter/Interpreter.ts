@@ -1,24 +1,35 @@
 import {Dictionary, util} from "typescript-collections";
+import {getArms} from "../world/Arms";
 import {WorldState} from "../world/World";
 import {AmbiguityError} from "./AmbiguityError";
 
-import {ListObjects} from "../core/Describer";
+import {DescribeRejections, ListObjects} from "../core/Describer";
+import {DiscourseMemory} from "../core/Discourse";
+import {IsQuestion} from "../core/Helper";
 import {
     Clarification,
+    Column,
     Command,
     Conjunction,
+    CountCommand,
     DNFFormula,
     DropCommand,
     Entity,
+    ExistsCommand,
+    Law,
     Literal,
     Location,
     MoveCommand,
     Object,
+    Rejection,
     Relation,
     RelativeObject,
     ShrdliteResult,
     SimpleObject,
+    SuperlativeObject,
     TakeCommand,
+    WhatisCommand,
+    WhereisCommand,
 } from "../core/Types";
 import {resolveParseAmbiguities} from "./AmbiguityResolver";
 
@@ -55,6 +66,7 @@ import {resolveParseAmbiguities} from "./AmbiguityResolver";
  * @param parses: List of parses produced by the Parser.
  * @param clarifications: Clarifications to resolve ambiguities
  * @param world: The current state of the world.
+ * @param discourse: The objects mentioned before, which pronouns refer to.
  * @returns: List of interpretation results, which are the parse results augmented
  *           with interpretations. Each interpretation is represented by a DNFFormula.
  *           If there's an interpretation error, it throws an error with a string description.
@@ -62,15 +74,16 @@ import {resolveParseAmbiguities} from "./AmbiguityResolver";
 export function interpret(
     parses: ShrdliteResult[],
     clarifications: Clarification[][],
-    world: WorldState): ShrdliteResult[] {
+    world: WorldState,
+    discourse: DiscourseMemory = new DiscourseMemory()): ShrdliteResult[] {
 
+    const interpreter = new Interpreter(discourse);
     const errors: Error[] = [];
     const possibleParses: ShrdliteResult[] = [];
 
     for (const parse of parses) {
-        console.log(parse);
         try {
-            const intp: DNFFormula = Interpreter.interpretCommand(parse.parse, [], world);
+            const intp: DNFFormula = interpreter.interpretCommand(parse.parse, [], world);
             possibleParses.push(parse);
             parse.interpretation = intp;
         } catch (err) {
@@ -90,7 +103,7 @@ export function interpret(
     const result = resolveParseAmbiguities(possibleParses, clarifications.slice());
 
     // Run interpretation
-    result.interpretation = Interpreter.interpretCommand(result.parse, clarifications, world);
+    result.interpretation = interpreter.interpretCommand(result.parse, clarifications, world);
     return [result];
 }
 
@@ -99,6 +112,8 @@ export function interpret(
 /**
  * Interpreter holds a world state and interprets commands based on it.
  * It can read the outputs of the grammar parser and convert them into DNFs for the planner.
+ * An interpreter is made for every call of 'interpret', so the state of one command
+ * never leaks into the commands of another dialogue. The static helpers only read the world state.
  */
 export class Interpreter {
     /**
@@ -107,11 +122,6 @@ export class Interpreter {
     public static floor = new SimpleObject("floor", null, null);
     public static floorEntity = new Entity("the", Interpreter.floor);
 
-    /**
-     * Cache for entities, to avoid duplicate amiguity resolutions
-     */
-    public static entityCache = new Dictionary<string, IEntitySemantics>();
-
     /**
      * Dictionary of functions that say if objectA is in a specific relation to objectB
      */
@@ -156,9 +166,393 @@ export class Interpreter {
             world.stacks[stackA].indexOf(Interpreter.getObjectName(objectB, world)),
     };
 
-    public static interpretCommand(cmd: Command, clarifications: Clarification[][], world: WorldState): DNFFormula {
-        const result = Interpreter.interpretCommandInternal(cmd, clarifications, world);
-        Interpreter.entityCache.clear();
+    /**
+     * Create a literal for a relation between objects
+     * @param relation: The relation between the objects
+     * @param args: The names of the objects
+     * @param polarity: Whether the relation should hold (true) or not (false)
+     * @param world: The current world state for context
+     * @returns: The literal, objects can not be on top of a box so they are kept out of it instead
+     */
+    public static createLiteral(relation: Relation, args: string[], polarity: boolean, world: WorldState): Literal {
+        if (!polarity && relation === "ontop" && util.has(world.objects, args[1])
+            && world.objects[args[1]].form === "box") {
+            return new Literal("inside", args, polarity);
+        }
+        return new Literal(relation, args, polarity);
+    }
+
+    /**
+     * Interpret a column as the entity of a location
+     * @param column: The column as parsed by the grammar
+     * @param world: The current world state for context
+     * @returns: The entity semantics with the indices of the columns it (might) refer to
+     */
+    public static interpretColumn(column: Column, world: WorldState): IEntitySemantics<number> {
+        if (column.index !== null) {
+            if (column.index < 0 || column.index >= world.stacks.length) {
+                throw new Error(`There is no column ${column.index + 1}, `
+                    + `the columns are numbered from 1 to ${world.stacks.length}`);
+            }
+            return {junction: Junction.Conjunction, objects: [column.index]};
+        }
+
+        const empty = world.stacks
+            .map((stack, index) => index)
+            .filter((index) => world.stacks[index].length === 0);
+        if (empty.length === 0) {
+            throw new Error("There is no empty column");
+        }
+        switch (column.quantifier) {
+            case "leftmost":
+                return {junction: Junction.Conjunction, objects: [empty[0]]};
+            case "rightmost":
+                return {junction: Junction.Conjunction, objects: [empty[empty.length - 1]]};
+            default:
+                return {junction: Junction.Disjunction, objects: empty};
+        }
+    }
+
+    /**
+     * Expand a choice of objects into all possible choices
+     * @param entity: The entity semantics to expand
+     * @returns: A conjunctive entity for each choice, or the entity itself if it is no choice
+     */
+    public static expandChoices<T>(entity: IEntitySemantics<T>): Array<IEntitySemantics<T>> {
+        if (entity.junction !== Junction.Choice) {
+            return [entity];
+        }
+        return getCombinations(entity.objects, Interpreter.getCount(entity))
+            .map((objects) => ({junction: Junction.Conjunction, objects}));
+    }
+
+    /**
+     * Get the number of objects to pick for a choice
+     * @param entity: The entity semantics of a choice
+     * @returns: The number of objects, one if the entity does not say
+     */
+    public static getCount<T>(entity: IEntitySemantics<T>): number {
+        return entity.count === undefined ? 1 : entity.count;
+    }
+
+    /**
+     * Finds the law that a literal breaks
+     * @param literal: The literal to check
+     * @param world: The current world state for context
+     * @returns: The broken law, or null if literal is allowed by rules
+     */
+    public static getViolatedLaw(literal: Literal, world: WorldState): Law | null {
+        // Cannot manipulate the floor
+        if (literal.args.length > 0 && literal.args[0] === Interpreter.getObjectName(Interpreter.floor, world)) {
+            return "floor";
+        }
+
+        // A relation can always be avoided
+        if (!literal.polarity) {
+            return null;
+        }
+
+        // Check holding, any location & columns separately
+        if (literal.relation === "holding" || literal.relation === "at any location"
+            || literal.relation === "incolumn") {
+            return null;
+        }
+
+        // All other relations take two arguments (for now)
+        if (literal.args.length !== 2) {
+            return "arity";
+        }
+        const objectA = Interpreter.getObject(literal.args[0], world);
+        const objectB = Interpreter.getObject(literal.args[1], world);
+
+        // Apply rules specific to relations
+        switch (literal.relation) {
+            case "leftof":
+                return null;
+            case "rightof":
+                return null;
+            case "inside":
+                if (objectB.form !== "box") {
+                    return "inside non-box";
+                }
+                if (objectA.size === "large" && objectB.size === "small") {
+                    return "size";
+                }
+                if (objectA.form === "pyramid" || objectA.form === "plank" || objectA.form === "box") {
+                    if (objectB.size === "small" || objectA.size === "large") {
+                        return "box contents";
+                    }
+                }
+                return null;
+            case "ontop":
+                if (objectB.form === "box") {
+                    return "ontop box";
+                }
+                if (objectB.form === "ball") {
+                    return "ball support";
+                }
+                if (objectA.form === "ball" && objectB !== Interpreter.floor) {
+                    return "ball rolls";
+                }
+                if (objectA.size === "large" && objectB.size === "small") {
+                    return "size";
+                }
+                if (objectA.form === "box" && objectA.size === "small") {
+                    if ((objectB.form === "brick" || objectB.form === "pyramid") && objectB.size === "small") {
+                        return "small box support";
+                    }
+                }
+                if (objectA.form === "box" && objectA.size === "large") {
+                    if (objectB.form === "pyramid") {
+                        return "large box support";
+                    }
+                }
+                return null;
+            case "under":
+                if (objectA.form === "ball") {
+                    return "ball support";
+                }
+                if (objectA.size === "small" && objectB.size === "large") {
+                    return "size";
+                }
+                return null;
+            case "beside":
+                return null;
+            case "above":
+                if (objectB.form === "ball") {
+                    return "ball support";
+                }
+                return null;
+            default:
+                throw new Error(`Unknown relation: ${literal.relation}`);
+        }
+    }
+
+    /**
+     * Get all objects within the world
+     * @returns: List of all simple objects
+     */
+    public static getSimpleObjects(world: WorldState): SimpleObject[] {
+        const array: SimpleObject[] = [];
+        for (const name in world.objects) {
+            if (util.has(world.objects, name)) {
+                array.push(world.objects[name]);
+            }
+        }
+        array.push(Interpreter.floor);
+        return array;
+    }
+
+    /**
+     * Check if an object is at a location
+     * @param object: Objects to check
+     * @param filter: The location as parsed by the grammar
+     * @param world: The current world state for context
+     * @returns: True if the object is at the location, false otherwise
+     */
+    public static matchLocation(filter: ILocationSemantics, object: SimpleObject, world: WorldState): boolean {
+        const relationTester = (objectA: SimpleObject, objectB: Target): boolean =>
+            Interpreter.testRelation(filter.relation, objectA, objectB, world);
+
+        if (filter.entity.junction === Junction.Choice) {
+            return filter.entity.objects.filter((locationObject) => relationTester(object, locationObject)).length
+                >= Interpreter.getCount(filter.entity);
+        }
+        return filter.entity.junction === Junction.Conjunction
+            ? filter.entity.objects.every((locationObject) => relationTester(object, locationObject))
+            : filter.entity.objects.some((locationObject) => relationTester(object, locationObject));
+    }
+
+    /**
+     * Check if two objects currently are in a relation
+     * @param relation: The relation to test
+     * @param objectA: The object in relation to objectB
+     * @param objectB: The object that objectA relates to, or the index of a column for "incolumn"
+     * @param world: The current world state for context
+     * @returns: True if the relation holds, false otherwise
+     */
+    public static testRelation(relation: Relation,
+                               objectA: SimpleObject,
+                               objectB: Target,
+                               world: WorldState): boolean {
+        if (relation === "at any location") {
+            return true;
+        }
+        const stackA = Interpreter.getStackId(objectA, world);
+        if (relation === "holding") {
+            return stackA === undefined;
+        }
+        if (typeof objectB === "number") {
+            return relation === "incolumn" && stackA === objectB;
+        }
+        const stackB = Interpreter.getStackId(objectB, world);
+        if ((stackA === undefined && objectA !== Interpreter.floor)
+            || (stackB === undefined && objectB !== Interpreter.floor)) {
+            return false;
+        }
+        return Interpreter.relationTesters[relation](objectA, stackA, objectB, stackB, world);
+    }
+
+    /**
+     * Check if a literal is currently true
+     * @param literal: The literal to check
+     * @param world: The current world state for context
+     * @returns: True if the relation holds for a positive literal, or does not hold for a negative one
+     */
+    public static isLiteralTrue(literal: Literal, world: WorldState): boolean {
+        const objectA = Interpreter.getObject(literal.args[0], world);
+        const objectB = literal.args.length < 2 ? Interpreter.floor
+            : literal.relation === "incolumn" ? Number(literal.args[1])
+            : Interpreter.getObject(literal.args[1], world);
+        return Interpreter.testRelation(literal.relation, objectA, objectB, world) === literal.polarity;
+    }
+
+    /**
+     * Collect the facts that best describe where an object is: what supports it and
+     * the closest stack next to it, preferably to its right.
+     * @param object: The object to describe
+     * @param world: The current world state for context
+     * @returns: Literals that currently hold for the object
+     */
+    public static getLocationFacts(object: SimpleObject, world: WorldState): Literal[] {
+        const name = Interpreter.getObjectName(object, world);
+        const stackId = Interpreter.getStackId(object, world);
+        if (stackId === undefined) {
+            return [new Literal("holding", [name])];
+        }
+
+        const facts: Literal[] = [];
+        const stack = world.stacks[stackId];
+        const stackIndex = stack.indexOf(name);
+        if (stackIndex === 0) {
+            facts.push(new Literal("ontop", [name, "floor"]));
+        } else {
+            const below = stack[stackIndex - 1];
+            facts.push(new Literal(world.objects[below].form === "box" ? "inside" : "ontop", [name, below]));
+        }
+
+        for (let distance = 1; distance < world.stacks.length; distance++) {
+            const right = world.stacks[stackId + distance];
+            if (right !== undefined && right.length > 0) {
+                facts.push(new Literal("leftof", [name, right[0]]));
+                break;
+            }
+            const left = world.stacks[stackId - distance];
+            if (left !== undefined && left.length > 0) {
+                facts.push(new Literal("rightof", [name, left[0]]));
+                break;
+            }
+        }
+        return facts;
+    }
+
+    /**
+     * Lookup an objects name in the world
+     * @param obj: The object to look up
+     * @param world: The current world state for context
+     * @returns: The name given to the object in the world
+     */
+    public static getObjectName(obj: SimpleObject, world: WorldState): string {
+        if (obj === Interpreter.floor) {
+            return "floor";
+        }
+        for (const name in world.objects) {
+            if (util.has(world.objects, name)) {
+                if (world.objects[name] === obj) {
+                    return name;
+                }
+            }
+        }
+        throw new Error("Could not find object");
+    }
+
+    /**
+     * Get the argument of a literal for what a location refers to
+     * @param target: The object, or the index of a column
+     * @param world: The current world state for context
+     * @returns: The name of the object, or the index of the column
+     */
+    public static getTargetName(target: Target, world: WorldState): string {
+        return typeof target === "number" ? `${target}` : Interpreter.getObjectName(target, world);
+    }
+
+    /**
+     * Lookup an objects by its name in the world
+     * @param name: The name of the object to look up
+     * @param world: The current world state for context
+     * @returns: The object matching the name
+     */
+    public static getObject(name: string, world: WorldState): SimpleObject {
+        if (name === "floor") {
+            return Interpreter.floor;
+        }
+        return world.objects[name];
+    }
+
+    /**
+     * Get number of stack containing object
+     * @param object: Object to get stack for
+     * @param world: The current world state for context
+     * @returns: The identifier of the stack containing object
+     * or undefined if no stack contains object
+     */
+    public static getStackId(object: SimpleObject, world: WorldState): number | undefined {
+        const stacks = world.stacks
+            .filter((stack) => stack.some((obj) => Interpreter.getObject(obj, world) === object));
+
+        if (stacks.length === 0) {
+            return undefined;
+        }
+        return world.stacks.indexOf(stacks[0]);
+    }
+
+    /**
+     * Get the object held by an arm, the leftmost arm first
+     * @param world: The current world state for context
+     * @returns: The name of the held object, or null if no arm holds anything
+     */
+    public static getHeldObject(world: WorldState): string | null {
+        const holding = getArms(world).filter((arm) => arm.holding !== null);
+        return holding.length === 0 ? null : holding[0].holding;
+    }
+
+    /**
+     * Get the column of the arm holding an object
+     * @param object: The held object
+     * @param world: The current world state for context
+     * @returns: The column of the arm, or of the first arm if no arm holds the object
+     */
+    public static getArmColumn(object: SimpleObject, world: WorldState): number {
+        const name = Interpreter.getObjectName(object, world);
+        const holding = getArms(world).filter((arm) => arm.holding === name);
+        return holding.length === 0 ? world.arm : holding[0].arm;
+    }
+
+    /**
+     * Cache for entities, to avoid duplicate amiguity resolutions
+     */
+    private entityCache = new Dictionary<string, IEntitySemantics>();
+
+    /**
+     * The literals rejected by the laws while interpreting the current command
+     */
+    private rejections: Rejection[] = [];
+
+    /**
+     * @param discourse: Objects mentioned before, which pronouns refer to
+     */
+    constructor(private discourse: DiscourseMemory = new DiscourseMemory()) {}
+
+    public interpretCommand(cmd: Command, clarifications: Clarification[][], world: WorldState): DNFFormula {
+        // An ambiguous entity throws before the command is interpreted, so the cache is cleared first
+        this.rejections = [];
+        this.entityCache.clear();
+        const result = this.interpretCommandInternal(cmd, clarifications, world);
+
+        // Questions describe the world as it is, an empty answer is still an answer
+        if (IsQuestion(cmd)) {
+            return result;
+        }
 
         // Remove all self referencing literals
         const filteredConjunctions: Conjunction[] = [];
@@ -171,8 +565,11 @@ export class Interpreter {
         }
         result.conjuncts = filteredConjunctions;
 
+        // Explain which laws made the command impossible, if any did
         if (result.conjuncts.length === 0) {
-            throw new Error("Can not interpret command");
+            throw new Error(this.rejections.length > 0
+                ? DescribeRejections(this.rejections, world)
+                : "Can not interpret command");
         }
         return result;
     }
@@ -185,148 +582,256 @@ export class Interpreter {
      * @returns: A DNFFormula representing the interpretation of the user's command.
      *           If there's an interpretation error, it throws an error with a string description.
      */
-    public static interpretCommandInternal(cmd: Command, clarifications: Clarification[][], world: WorldState)
+    public interpretCommandInternal(cmd: Command, clarifications: Clarification[][], world: WorldState)
         : DNFFormula {
         if (cmd instanceof MoveCommand) {
-            const entity = Interpreter.interpretEntityCached(cmd.entity, clarifications, world);
-            const location = Interpreter.interpretLocation(cmd.location, clarifications, world);
+            const entity = this.interpretEntityCached(cmd.entity, clarifications, world);
+            const location = this.interpretLocation(cmd.location, clarifications, world);
 
-            if (location.entity.junction === Junction.Conjunction) {
-                if (entity.junction === Junction.Conjunction) {
-                    // all objects && all locations => 1 big conjunction of all combinations 1 term
-                    const conjunction: Literal[] = [];
-                    for (const object of entity.objects) {
-                        for (const constraint of location.entity.objects) {
-                            const args = [Interpreter.getObjectName(object, world),
-                                Interpreter.getObjectName(constraint, world)];
-                            const literal = new Literal(location.relation, args);
-                            if (Interpreter.isLiteralValid(literal, world)) {
-                                conjunction.push(literal);
-                            }
-                        }
-                    }
-                    return new DNFFormula([new Conjunction(conjunction)]);
-                } else {
-                    // any objects && all locations
-                    // (o1c1 o1c2 o1c3) or (o2c1 o2c2 o2c3) or (o3c1 o3c2 o3c3) n terms
-                    const disjunction: Conjunction[] = [];
-                    for (const object of entity.objects) {
-                        const conjunction: Literal[] = [];
-                        for (const constraint of location.entity.objects) {
-                            const args = [Interpreter.getObjectName(object, world),
-                                Interpreter.getObjectName(constraint, world)];
-                            const literal = new Literal(location.relation, args);
-                            conjunction.push(literal);
-                        }
-
-                        // Only add non-empty conjunctions with valid literals
-                        if (conjunction.length > 0
-                            && conjunction.every((literal) => Interpreter.isLiteralValid(literal, world))) {
-                            disjunction.push(new Conjunction(conjunction));
-                        }
-                    }
-                    return new DNFFormula(disjunction);
+            // "no ball should be in a box" and "the ball should not be in a box" are both negated goals
+            if (!cmd.location.polarity !== (cmd.entity.quantifier === "no")) {
+                if (entity.junction === Junction.Choice || location.entity.junction === Junction.Choice) {
+                    throw new Error("Cannot count objects that should not be somewhere");
                 }
-            } else {
-                if (entity.junction === Junction.Conjunction) {
-                    // all objects && any locations => Disjunction(Conjunction(allobjects))
-                    // (o1c1 o2c1 o3c1) or (01c1 o2c1 o3c2) .... exponential growth 2^n terms
-                    const counter: number[] = new Array(entity.objects.length);
-                    for (let i = 0; i < entity.objects.length; ++i) {
-                        counter[i] = 0;
-                    }
+                // Not being at any of the locations means not being at each of them, and vice versa
+                const junction = location.entity.junction === Junction.Conjunction
+                    ? Junction.Disjunction
+                    : Junction.Conjunction;
+                // The floor never moves, so it is never in the way
+                const objects = entity.objects.filter((object) => object !== Interpreter.floor);
+                return this.interpretMove({junction: entity.junction, objects},
+                    {relation: location.relation, entity: {junction, objects: location.entity.objects}}, world, false);
+            }
 
-                    const totalCount = location.entity.objects.length ** entity.objects.length;
-                    // Iterate over individual conjunctions
-                    const disjunction: Conjunction[] = [];
-                    for (let i = 0; i < totalCount; ++i) {
-                        const conjunction: Literal[] = [];
-                        for (let j = 0; j < entity.objects.length; ++j) {
-                            const args = [Interpreter.getObjectName(entity.objects[j], world),
-                                Interpreter.getObjectName(location.entity.objects[counter[j]], world)];
-                            const literal = new Literal(location.relation, args);
-                            conjunction.push(literal);
-                        }
-                        // Only add non-empty conjunctions with valid literals
-                        if (conjunction.length > 0
-                            && conjunction.every((literal) => Interpreter.isLiteralValid(literal, world))) {
-                            disjunction.push(new Conjunction(conjunction));
-                        }
+            // Counted entities are expanded into every choice of objects, each choice is interpreted separately
+            const disjunction: Conjunction[] = [];
+            for (const entityChoice of Interpreter.expandChoices(entity)) {
+                for (const locationChoice of Interpreter.expandChoices(location.entity)) {
+                    const choice = this.interpretMove(entityChoice,
+                        {relation: location.relation, entity: locationChoice}, world);
 
-                        // Increment counter (base of constraint count)
-                        for (let j = entity.objects.length - 1; j >= 0; --j) {
-                            counter[j]++;
-                            if (counter[j] < location.entity.objects.length) {
-                                break;
-                            }
-                            counter[j] = 0;
-                        }
+                    // A choice is only possible if every chosen object can be at every chosen location
+                    const isChoice = entityChoice !== entity || locationChoice !== location.entity;
+                    if (isChoice && entityChoice.junction === Junction.Conjunction
+                        && locationChoice.junction === Junction.Conjunction
+                        && choice.conjuncts[0].literals.length
+                            < entityChoice.objects.length * locationChoice.objects.length) {
+                        continue;
                     }
-                    return new DNFFormula(disjunction);
-                } else {
-                    // any objects && any locations
-                    // (o1c1) or (o1c2) or (o1c3) or (o2)... or (o3)... n² terms
-                    const disjunction: Conjunction[] = [];
-                    for (const object of entity.objects) {
-                        for (const constraint of location.entity.objects) {
-                            const args = [Interpreter.getObjectName(object, world),
-                                Interpreter.getObjectName(constraint, world)];
-                            const literal = new Literal(location.relation, args);
-                            if (Interpreter.isLiteralValid(literal, world)) {
-                                disjunction.push(new Conjunction([literal]));
+
+                    // Objects that were not chosen must not end up at the location
+                    const exclusions: Literal[] = [];
+                    if (entity.exclusive) {
+                        for (const object of entity.objects) {
+                            if (entityChoice.objects.indexOf(object) >= 0) {
+                                continue;
+                            }
+                            for (const constraint of location.entity.objects) {
+                                const args = [Interpreter.getObjectName(object, world),
+                                    Interpreter.getTargetName(constraint, world)];
+                                if (this.isLiteralValid(new Literal(location.relation, args), world)) {
+                                    exclusions.push(Interpreter.createLiteral(location.relation, args, false, world));
+                                }
                             }
                         }
                     }
-                    return new DNFFormula(disjunction);
+                    for (const conjunction of choice.conjuncts) {
+                        disjunction.push(new Conjunction(conjunction.literals.concat(exclusions)));
+                    }
                 }
             }
+            return new DNFFormula(disjunction);
         } else if (cmd instanceof TakeCommand) {
             // We cannot pick up more than one object at a time
-            const entity = Interpreter.interpretEntityCached(cmd.entity, clarifications, world);
+            const entity = this.interpretEntityCached(cmd.entity, clarifications, world);
             if (entity.junction === Junction.Conjunction && entity.objects.length > 1) {
                 return new DNFFormula([]);
             }
+            if (entity.junction === Junction.Choice && Interpreter.getCount(entity) > 1) {
+                return new DNFFormula([]);
+            }
 
             // One conjunction term per object
             const disjunction: Conjunction[] = [];
             for (const objects of entity.objects) {
                 const literal = new Literal("holding", [Interpreter.getObjectName(objects, world)]);
-                if (Interpreter.isLiteralValid(literal, world)) {
+                if (this.isLiteralValid(literal, world)) {
                     disjunction.push(new Conjunction([literal]));
                 }
             }
             return new DNFFormula(disjunction);
         } else if (cmd instanceof DropCommand) {
-            if (!world.holding) {
-                return new DNFFormula([]);
+            // Without a held object "it" refers to the object mentioned before
+            const held = Interpreter.getHeldObject(world);
+            if (held === null) {
+                const it = new Entity("it", new SimpleObject("anyform", null, null));
+                return this.interpretCommandInternal(new MoveCommand(it, cmd.location), clarifications, world);
+            }
+
+            const location = this.interpretLocation(cmd.location, clarifications, world);
+            const disjunction: Conjunction[] = [];
+            for (const locationChoice of Interpreter.expandChoices(location.entity)) {
+                if (locationChoice.junction === Junction.Conjunction) {
+                    // One big conjunction term with all constraints
+                    const conjunction: Literal[] = [];
+                    for (const constraint of locationChoice.objects) {
+                        const args = [held, Interpreter.getTargetName(constraint, world)];
+                        const literal = new Literal(cmd.location.relation, args);
+                        if (this.isLiteralValid(literal, world)) {
+                            conjunction.push(literal);
+                        }
+                    }
+                    disjunction.push(new Conjunction(conjunction));
+                } else {
+                    // One conjunction term per constraint
+                    for (const constraint of locationChoice.objects) {
+                        const args = [held, Interpreter.getTargetName(constraint, world)];
+                        const literal = new Literal(cmd.location.relation, args);
+                        if (this.isLiteralValid(literal, world)) {
+                            disjunction.push(new Conjunction([literal]));
+                        }
+                    }
+                }
+            }
+            return new DNFFormula(disjunction);
+        } else if (cmd instanceof WhereisCommand) {
+            // One conjunction of facts per object that was asked about
+            const entity = this.interpretEntityCached(cmd.entity, clarifications, world);
+            return new DNFFormula(entity.objects
+                .filter((object) => object !== Interpreter.floor)
+                .map((object) => new Conjunction(Interpreter.getLocationFacts(object, world))));
+        } else if (cmd instanceof WhatisCommand) {
+            // One conjunction with a literal for every object found at the location
+            const location = this.interpretLocation(cmd.location, clarifications, world);
+            const conjunction: Literal[] = [];
+            for (const object of Interpreter.getSimpleObjects(world)) {
+                if (object === Interpreter.floor || !Interpreter.matchLocation(location, object, world)) {
+                    continue;
+                }
+                const name = Interpreter.getObjectName(object, world);
+                if (location.relation === "holding" || location.relation === "at any location") {
+                    conjunction.push(new Literal(location.relation, [name]));
+                    continue;
+                }
+                for (const locationObject of location.entity.objects) {
+                    if (Interpreter.testRelation(location.relation, object, locationObject, world)) {
+                        conjunction.push(new Literal(location.relation,
+                            [name, Interpreter.getTargetName(locationObject, world)]));
+                    }
+                }
             }
+            return new DNFFormula([new Conjunction(conjunction)]);
+        } else if (cmd instanceof CountCommand || cmd instanceof ExistsCommand) {
+            // One conjunction with a literal for every object matching the description
+            const objects = this.getObjects(cmd.entity.object, clarifications, world)
+                .filter((object) => object !== Interpreter.floor);
+            return new DNFFormula([new Conjunction(objects.map((object) =>
+                new Literal("at any location", [Interpreter.getObjectName(object, world)])))]);
+        }
+        throw new Error("Unknown command");
+    }
 
-            const location = Interpreter.interpretLocation(cmd.location, clarifications, world);
-            if (location.entity.junction === Junction.Conjunction) {
-                // One big conjunction term with all constraints
+    /**
+     * Interpret moving the objects of an entity to a location
+     * @param entity: The objects to move
+     * @param location: The location to move the objects to
+     * @param world: The current world state for context
+     * @param polarity: Whether the objects should be at the location (true) or not (false)
+     * @returns: A DNFFormula representing the move
+     */
+    public interpretMove(entity: IEntitySemantics,
+                                location: ILocationSemantics,
+                                world: WorldState,
+                                polarity: boolean = true): DNFFormula {
+        if (location.entity.junction === Junction.Conjunction) {
+            if (entity.junction === Junction.Conjunction) {
+                // all objects && all locations => 1 big conjunction of all combinations 1 term
                 const conjunction: Literal[] = [];
-                for (const constraint of location.entity.objects) {
-                    const args = [world.holding, Interpreter.getObjectName(constraint, world)];
-                    const literal = new Literal(cmd.location.relation, args);
-                    if (Interpreter.isLiteralValid(literal, world)) {
-                        conjunction.push(literal);
+                for (const object of entity.objects) {
+                    for (const constraint of location.entity.objects) {
+                        const args = [Interpreter.getObjectName(object, world),
+                            Interpreter.getTargetName(constraint, world)];
+                        const literal = Interpreter.createLiteral(location.relation, args, polarity, world);
+                        if (this.isLiteralValid(literal, world)) {
+                            conjunction.push(literal);
+                        }
                     }
                 }
                 return new DNFFormula([new Conjunction(conjunction)]);
             } else {
-                // One conjunction term per constraint
+                // any objects && all locations
+                // (o1c1 o1c2 o1c3) or (o2c1 o2c2 o2c3) or (o3c1 o3c2 o3c3) n terms
                 const disjunction: Conjunction[] = [];
-                for (const constraint of location.entity.objects) {
-                    const args = [world.holding, Interpreter.getObjectName(constraint, world)];
-                    const literal = new Literal(cmd.location.relation, args);
-                    if (Interpreter.isLiteralValid(literal, world)) {
-                        disjunction.push(new Conjunction([literal]));
+                for (const object of entity.objects) {
+                    const conjunction: Literal[] = [];
+                    for (const constraint of location.entity.objects) {
+                        const args = [Interpreter.getObjectName(object, world),
+                            Interpreter.getTargetName(constraint, world)];
+                        const literal = Interpreter.createLiteral(location.relation, args, polarity, world);
+                        conjunction.push(literal);
+                    }
+
+                    // Only add non-empty conjunctions with valid literals
+                    if (conjunction.length > 0
+                        && conjunction.every((literal) => this.isLiteralValid(literal, world))) {
+                        disjunction.push(new Conjunction(conjunction));
+                    }
+                }
+                return new DNFFormula(disjunction);
+            }
+        } else {
+            if (entity.junction === Junction.Conjunction) {
+                // all objects && any locations => Disjunction(Conjunction(allobjects))
+                // (o1c1 o2c1 o3c1) or (01c1 o2c1 o3c2) .... exponential growth 2^n terms
+                const counter: number[] = new Array(entity.objects.length);
+                for (let i = 0; i < entity.objects.length; ++i) {
+                    counter[i] = 0;
+                }
+
+                const totalCount = location.entity.objects.length ** entity.objects.length;
+                // Iterate over individual conjunctions
+                const disjunction: Conjunction[] = [];
+                for (let i = 0; i < totalCount; ++i) {
+                    const conjunction: Literal[] = [];
+                    for (let j = 0; j < entity.objects.length; ++j) {
+                        const args = [Interpreter.getObjectName(entity.objects[j], world),
+                            Interpreter.getTargetName(location.entity.objects[counter[j]], world)];
+                        const literal = Interpreter.createLiteral(location.relation, args, polarity, world);
+                        conjunction.push(literal);
+                    }
+                    // Only add non-empty conjunctions with valid literals
+                    if (conjunction.length > 0
+                        && conjunction.every((literal) => this.isLiteralValid(literal, world))) {
+                        disjunction.push(new Conjunction(conjunction));
+                    }
+
+                    // Increment counter (base of constraint count)
+                    for (let j = entity.objects.length - 1; j >= 0; --j) {
+                        counter[j]++;
+                        if (counter[j] < location.entity.objects.length) {
+                            break;
+                        }
+                        counter[j] = 0;
+                    }
+                }
+                return new DNFFormula(disjunction);
+            } else {
+                // any objects && any locations
+                // (o1c1) or (o1c2) or (o1c3) or (o2)... or (o3)... n² terms
+                const disjunction: Conjunction[] = [];
+                for (const object of entity.objects) {
+                    for (const constraint of location.entity.objects) {
+                        const args = [Interpreter.getObjectName(object, world),
+                            Interpreter.getTargetName(constraint, world)];
+                        const literal = Interpreter.createLiteral(location.relation, args, polarity, world);
+                        if (this.isLiteralValid(literal, world)) {
+                            disjunction.push(new Conjunction([literal]));
+                        }
                     }
                 }
                 return new DNFFormula(disjunction);
             }
         }
-        throw new Error("Unknown command");
     }
 
     /**
@@ -336,13 +841,16 @@ export class Interpreter {
      * @param world: The current world state for context
      * @returns: The location to build a DNF from
      */
-    public static interpretLocation(location: Location, clarifications: Clarification[][], world: WorldState)
+    public interpretLocation(location: Location, clarifications: Clarification[][], world: WorldState)
         : ILocationSemantics {
-        const entity = Interpreter.interpretEntityCached(location.entity, clarifications, world);
+        if (location.entity instanceof Column) {
+            return {relation: location.relation, entity: Interpreter.interpretColumn(location.entity, world)};
+        }
+        const entity = this.interpretEntityCached(location.entity, clarifications, world);
         return {relation: location.relation, entity};
     }
 
-    public static interpretEntityCached(ent: Entity, clarifications: Clarification[][], world: WorldState)
+    public interpretEntityCached(ent: Entity, clarifications: Clarification[][], world: WorldState)
         : IEntitySemantics {
         const key = ent.toString();
         if (this.entityCache.containsKey(key)) {
@@ -360,25 +868,69 @@ export class Interpreter {
      * @param world: The current world state for context
      * @returns: The entity to build a DNF from
      */
-    public static interpretEntity(ent: Entity, clarifications: Clarification[][], world: WorldState): IEntitySemantics {
+    public interpretEntity(ent: Entity, clarifications: Clarification[][], world: WorldState): IEntitySemantics {
         switch (ent.quantifier) {
             case "any":
                 // Return all possible objects and tell caller to pick any of them
                 return {
                     junction: Junction.Disjunction,
-                    objects: Interpreter.getObjects(ent.object, clarifications, world),
+                    objects: this.getObjects(ent.object, clarifications, world),
                 };
             case "all":
                 // Return all possible object and tell caller to match all of them
                 return {
                     junction: Junction.Conjunction,
-                    objects: Interpreter.getObjects(ent.object, clarifications, world),
+                    objects: this.getObjects(ent.object, clarifications, world),
+                };
+            case "no":
+                // Return all objects, the caller makes sure none of them matches
+                return {
+                    junction: Junction.Conjunction,
+                    objects: this.getObjects(ent.object, clarifications, world)
+                        .filter((object) => object !== Interpreter.floor),
                 };
             case "the":
                 // Find a single object matching the description and resolve ambiguities
-                const result = Interpreter.resolveAmbiguity(
-                    Interpreter.getObjects(ent.object, clarifications, world), clarifications, world);
+                const result = this.resolveAmbiguity(
+                    this.getObjects(ent.object, clarifications, world), clarifications, world);
                 return {junction: Junction.Conjunction, objects: [result]};
+            case "it":
+            case "that":
+                // Pronouns refer to an object mentioned before, "it" to an object that was moved or asked about
+                const referents = this.discourse
+                    .getReferents(ent.quantifier === "it", (name) => util.has(world.objects, name)
+                        && this.matchObject(ent.object, world.objects[name], clarifications, world))
+                    .map((name) => world.objects[name]);
+                const held = Interpreter.getHeldObject(world);
+                if (referents.length === 0 && ent.quantifier === "it" && held !== null) {
+                    referents.push(world.objects[held]);
+                }
+                if (referents.length === 0) {
+                    throw new Error(`I do not know which object you mean by "${ent.quantifier}"`);
+                }
+                return {
+                    junction: Junction.Conjunction,
+                    objects: [this.resolveAmbiguity(referents, clarifications, world)],
+                };
+            case "both":
+                // Return both objects matching the description, there must not be more or less
+                const both = this.getObjects(ent.object, clarifications, world)
+                    .filter((object) => object !== Interpreter.floor);
+                if (both.length !== 2) {
+                    throw new Error(`Expected two objects to refer to, but found ${both.length}`);
+                }
+                return {junction: Junction.Conjunction, objects: both};
+            case "atleast":
+            case "exactly":
+                // Return all possible objects and tell caller to pick the requested number of them
+                const count = ent.count === undefined ? 1 : ent.count;
+                const objects = this.getObjects(ent.object, clarifications, world)
+                    .filter((object) => object !== Interpreter.floor);
+                if (objects.length < count) {
+                    throw new Error(`Cannot find ${count} objects like that, there `
+                        + `${objects.length === 1 ? "is" : "are"} only ${objects.length}`);
+                }
+                return {count, exclusive: ent.quantifier === "exactly", junction: Junction.Choice, objects};
             default:
                 throw new Error(`Unknown quantifier: ${ent.quantifier}`);
         }
@@ -391,9 +943,99 @@ export class Interpreter {
      * @param world: The current world state for context
      * @returns: List of all matching simple objects
      */
-    public static getObjects(filter: Object, clarifications: Clarification[][], world: WorldState): SimpleObject[] {
-        return Interpreter.getSimpleObjects(world).filter((object) =>
-            Interpreter.matchObject(filter, object, clarifications, world));
+    public getObjects(filter: Object, clarifications: Clarification[][], world: WorldState): SimpleObject[] {
+        return this.filterObjects(filter, Interpreter.getSimpleObjects(world), clarifications, world);
+    }
+
+    /**
+     * Get the objects out of a list of candidates, that match the properties of the filter object
+     * @param filter: The object used to filter by
+     * @param objects: The candidates to pick from, superlatives compare the candidates with each other
+     * @param clarifications: Clarifications for resolving ambiguities
+     * @param world: The current world state for context
+     * @returns: List of all matching simple objects
+     */
+    public filterObjects(filter: Object,
+                                objects: SimpleObject[],
+                                clarifications: Clarification[][],
+                                world: WorldState): SimpleObject[] {
+        if (filter instanceof SuperlativeObject) {
+            const candidates = this.filterObjects(filter.object, objects, clarifications, world)
+                .filter((object) => object !== Interpreter.floor);
+            const scores = candidates.map((object) =>
+                this.getSuperlativeScore(filter, object, clarifications, world));
+            const best = Math.min.apply(Math, scores);
+            return candidates.filter((object, index) => scores[index] === best);
+        }
+        return objects.filter((object) => this.matchObject(filter, object, clarifications, world));
+    }
+
+    /**
+     * Score an object for a superlative, the best objects have the lowest score
+     * @param filter: The superlative object
+     * @param object: The object to score
+     * @param clarifications: Clarifications for resolving ambiguities
+     * @param world: The current world state for context
+     * @returns: The score of the object
+     */
+    public getSuperlativeScore(filter: SuperlativeObject,
+                                      object: SimpleObject,
+                                      clarifications: Clarification[][],
+                                      world: WorldState): number {
+        // A held object is in the column of the arm, above its stack
+        const stackId = Interpreter.getStackId(object, world);
+        const column = stackId === undefined ? Interpreter.getArmColumn(object, world) : stackId;
+        const height = stackId === undefined
+            ? world.stacks[column].length
+            : world.stacks[stackId].indexOf(Interpreter.getObjectName(object, world));
+
+        switch (filter.superlative) {
+            case "leftmost":
+                return column;
+            case "rightmost":
+                return -column;
+            case "highest":
+                return -height;
+            case "lowest":
+                return height;
+            case "tallest":
+                return -world.stacks[column].length;
+            case "shortest":
+                return world.stacks[column].length;
+            case "closest":
+            case "farthest":
+                const distance = this.getDistance(column, filter.reference, object, clarifications, world);
+                return filter.superlative === "closest" ? distance : -distance;
+            default:
+                throw new Error(`Unknown superlative: ${filter.superlative}`);
+        }
+    }
+
+    /**
+     * Get the distance in columns between a column and the closest object of an entity
+     * @param column: The column to measure from
+     * @param reference: The entity to measure to, the closest arm if undefined
+     * @param object: The object being measured, which is not its own reference
+     * @param clarifications: Clarifications for resolving ambiguities
+     * @param world: The current world state for context
+     * @returns: The number of columns to the closest reference
+     */
+    public getDistance(column: number,
+                              reference: Entity | undefined,
+                              object: SimpleObject,
+                              clarifications: Clarification[][],
+                              world: WorldState): number {
+        if (reference === undefined) {
+            return Math.min.apply(Math, getArms(world).map((arm) => Math.abs(column - arm.arm)));
+        }
+        const distances = this.interpretEntityCached(reference, clarifications, world).objects
+            .filter((referenceObject) => referenceObject !== object && referenceObject !== Interpreter.floor)
+            .map((referenceObject) => {
+                const referenceStackId = Interpreter.getStackId(referenceObject, world);
+                return Math.abs(column - (referenceStackId === undefined
+                    ? Interpreter.getArmColumn(referenceObject, world) : referenceStackId));
+            });
+        return Math.min.apply(Math, distances);
     }
 
     /**
@@ -404,7 +1046,7 @@ export class Interpreter {
      * @param world: The current world state for context
      * @return: List of all matching simple objects
      */
-    public static matchObject(filter: Object,
+    public matchObject(filter: Object,
                               object: SimpleObject,
                               clarifications: Clarification[][],
                               world: WorldState): boolean {
@@ -419,10 +1061,12 @@ export class Interpreter {
                 return false;
             }
             return true;
+        } else if (filter instanceof SuperlativeObject) {
+            return this.getObjects(filter, clarifications, world).indexOf(object) >= 0;
         } else {
-            const location = Interpreter.interpretLocation(filter.location, clarifications, world);
+            const location = this.interpretLocation(filter.location, clarifications, world);
             return Interpreter.matchLocation(location, object, world)
-                && Interpreter.matchObject(filter.object, object, clarifications, world);
+                && this.matchObject(filter.object, object, clarifications, world);
         }
     }
 
@@ -433,12 +1077,14 @@ export class Interpreter {
      * @param world: The current world state for context
      * @returns: The object desired by the user
      */
-    public static resolveAmbiguity(objects: SimpleObject[], clarifications: Clarification[][], world: WorldState)
+    public resolveAmbiguity(objects: SimpleObject[], clarifications: Clarification[][], world: WorldState)
         : SimpleObject {
         while (objects.length > 1 && clarifications.length > 0) {
             const clarification = clarifications.splice(0, 1)[0];
-            objects = objects.filter((object) =>
-                clarification.some((clar) => this.matchObject(clar.entity.object, object, clarifications, world)));
+            // Superlatives in clarifications, like "the leftmost one", only compare the objects in question
+            const candidates = objects;
+            objects = candidates.filter((object) => clarification.some((clar) =>
+                this.filterObjects(clar.entity.object, candidates, clarifications, world).indexOf(object) >= 0));
         }
 
         if (objects.length === 0) {
@@ -467,193 +1113,50 @@ export class Interpreter {
     }
 
     /**
-     * Checks if a literal complies with rules
+     * Checks if a literal complies with rules, and remembers the law that rejected it if it does not
      * @param literal: The literal to check
      * @param world: The current world state for context
      * @returns: True if literal is allowed by rules, false otherwise
      */
-    public static isLiteralValid(literal: Literal, world: WorldState): boolean {
-        // Cannot manipulate the floor
-        if (literal.args.length > 0 && literal.args[0] === Interpreter.getObjectName(Interpreter.floor, world)) {
-            return false;
-        }
-
-        // Check holding & any location separately
-        if (literal.relation === "holding" || literal.relation === "at any location") {
-            return true;
-        }
-
-        // All other relations take two arguments (for now)
-        if (literal.args.length !== 2) {
-            return false;
+    public isLiteralValid(literal: Literal, world: WorldState): boolean {
+        const law = Interpreter.getViolatedLaw(literal, world);
+        if (law !== null) {
+            this.rejections.push(new Rejection(literal, law));
         }
-        const objectA = Interpreter.getObject(literal.args[0], world);
-        const objectB = Interpreter.getObject(literal.args[1], world);
-
-        // Apply rules specific to relations
-        switch (literal.relation) {
-            case "leftof":
-                return true;
-            case "rightof":
-                return true;
-            case "inside":
-                if (objectB.form !== "box") {
-                    return false;
-                }
-                if (objectA.size === "large" && objectB.size === "small") {
-                    return false;
-                }
-                if (objectA.form === "pyramid" || objectA.form === "plank" || objectA.form === "box") {
-                    if (objectB.size === "small" || objectA.size === "large") {
-                        return false;
-                    }
-                }
-                return true;
-            case "ontop":
-                if (objectB.form === "box" || objectB.form === "ball") {
-                    return false;
-                }
-                if (objectA.form === "ball" && objectB !== Interpreter.floor) {
-                    return false;
-                }
-                if (objectA.size === "large" && objectB.size === "small") {
-                    return false;
-                }
-                if (objectA.form === "box" && objectA.size === "small") {
-                    if ((objectB.form === "brick" || objectB.form === "pyramid") && objectB.size === "small") {
-                        return false;
-                    }
-                }
-                if (objectA.form === "box" && objectA.size === "large") {
-                    if (objectB.form === "pyramid") {
-                        return false;
-                    }
-                }
-                return true;
-            case "under":
-                if (objectA.form === "ball") {
-                    return false;
-                }
-                if (objectA.size === "small" && objectB.size === "large") {
-                    return false;
-                }
-                return true;
-            case "beside":
-                return true;
-            case "above":
-                if (objectB.form === "ball") {
-                    return false;
-                }
-                return true;
-            default:
-                throw new Error(`Unknown relation: ${literal.relation}`);
-        }
-    }
-
-    /**
-     * Get all objects within the world
-     * @returns: List of all simple objects
-     */
-    public static getSimpleObjects(world: WorldState): SimpleObject[] {
-        const array: SimpleObject[] = [];
-        for (const name in world.objects) {
-            if (util.has(world.objects, name)) {
-                array.push(world.objects[name]);
-            }
-        }
-        array.push(Interpreter.floor);
-        return array;
-    }
-
-    /**
-     * Check if an object is at a location
-     * @param object: Objects to check
-     * @param filter: The location as parsed by the grammar
-     * @param world: The current world state for context
-     * @returns: True if the object is at the location, false otherwise
-     */
-    public static matchLocation(filter: ILocationSemantics, object: SimpleObject, world: WorldState): boolean {
-        const relationTester = (objectA: SimpleObject, objectB: SimpleObject): boolean => {
-            if (filter.relation === "at any location") {
-                return true;
-            }
-            const stackA = Interpreter.getStackId(objectA, world);
-            if (filter.relation === "holding") {
-                return stackA === undefined;
-            }
-            const stackB = Interpreter.getStackId(objectB, world);
-            if ((stackA === undefined && objectA !== Interpreter.floor)
-                || (stackB === undefined && objectB !== Interpreter.floor)) {
-                return false;
-            }
-            return Interpreter.relationTesters[filter.relation](objectA, stackA, objectB, stackB, world);
-        };
-
-        return filter.entity.junction === Junction.Conjunction
-            ? filter.entity.objects.every((locationObject) => relationTester(object, locationObject))
-            : filter.entity.objects.some((locationObject) => relationTester(object, locationObject));
-    }
-
-    /**
-     * Lookup an objects name in the world
-     * @param obj: The object to look up
-     * @param world: The current world state for context
-     * @returns: The name given to the object in the world
-     */
-    public static getObjectName(obj: SimpleObject, world: WorldState): string {
-        if (obj === Interpreter.floor) {
-            return "floor";
-        }
-        for (const name in world.objects) {
-            if (util.has(world.objects, name)) {
-                if (world.objects[name] === obj) {
-                    return name;
-                }
-            }
-        }
-        throw new Error("Could not find object");
-    }
-
-    /**
-     * Lookup an objects by its name in the world
-     * @param name: The name of the object to look up
-     * @param world: The current world state for context
-     * @returns: The object matching the name
-     */
-    public static getObject(name: string, world: WorldState): SimpleObject {
-        if (name === "floor") {
-            return Interpreter.floor;
-        }
-        return world.objects[name];
-    }
-
-    /**
-     * Get number of stack containing object
-     * @param object: Object to get stack for
-     * @param world: The current world state for context
-     * @returns: The identifier of the stack containing object
-     * or undefined if no stack contains object
-     */
-    public static getStackId(object: SimpleObject, world: WorldState): number | undefined {
-        const stacks = world.stacks
-            .filter((stack) => stack.some((obj) => Interpreter.getObject(obj, world) === object));
-
-        if (stacks.length === 0) {
-            return undefined;
-        }
-        return world.stacks.indexOf(stacks[0]);
+        return law === null;
     }
 }
 
-// Type of junction for building the DNF
-enum Junction { Disjunction, Conjunction}
+// Type of junction for building the DNF, a choice picks a number of the objects
+enum Junction { Disjunction, Conjunction, Choice }
 
 /**
  * Semantics of an entity, describing all objects they (might) refer to
  */
-interface IEntitySemantics {
+interface IEntitySemantics<T = SimpleObject> {
     junction: Junction;
-    objects: SimpleObject[];
+    objects: T[];
+    count?: number;      // The number of objects to pick for a choice
+    exclusive?: boolean; // Whether the objects that were not picked must not be at the location
+}
+
+/**
+ * Get all combinations of a number of values
+ * @param values: The values to pick from
+ * @param count: The number of values in each combination
+ * @returns: List of all combinations, keeping the order of values
+ */
+function getCombinations<T>(values: T[], count: number): T[][] {
+    if (count === 0) {
+        return [[]];
+    }
+    const result: T[][] = [];
+    for (let i = 0; i <= values.length - count; i++) {
+        for (const rest of getCombinations(values.slice(i + 1), count - 1)) {
+            result.push([values[i]].concat(rest));
+        }
+    }
+    return result;
 }
 
 /**
@@ -661,5 +1164,8 @@ interface IEntitySemantics {
  */
 interface ILocationSemantics {
     relation: Relation;
-    entity: IEntitySemantics;
+    entity: IEntitySemantics<Target>;
 }
+
+// What a location refers to, an object or the index of a column
+type Target = SimpleObject | number;
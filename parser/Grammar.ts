@@ -7,8 +7,10 @@ function id(d: any[]): any { return d[0]; }
 import {
     Command, TakeCommand, DropCommand, MoveCommand,
     Clarification,
-    Location, Entity,
-    Object, RelativeObject, SimpleObject,
+    WhereisCommand, WhatisCommand, CountCommand, ExistsCommand,
+    UndoCommand, RedoCommand, SequenceCommand,
+    Location, Column, Entity,
+    Object, RelativeObject, SimpleObject, SuperlativeObject,
 } from "../core/Types";
 
 export interface Token { value: any; [key: string]: any };
@@ -36,18 +38,78 @@ export var ParserRules: NearleyRule[] = [
     {"name": "main$ebnf$1", "symbols": [], "postprocess": () => null},
     {"name": "main$ebnf$2", "symbols": ["please"], "postprocess": id},
     {"name": "main$ebnf$2", "symbols": [], "postprocess": () => null},
-    {"name": "main$ebnf$3", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$3$string$1", "symbols": [{"literal":"n"}, {"literal":"o"}, {"literal":"w"}], "postprocess": (d) => d.join('')},
+    {"name": "main$ebnf$3", "symbols": ["main$ebnf$3$string$1"], "postprocess": id},
     {"name": "main$ebnf$3", "symbols": [], "postprocess": () => null},
-    {"name": "main", "symbols": ["main$ebnf$1", "main$ebnf$2", "command", "main$ebnf$3"], "postprocess": (d) => d[2]},
-    {"name": "main$ebnf$4", "symbols": ["will_you_use"], "postprocess": id},
+    {"name": "main$ebnf$4", "symbols": ["please"], "postprocess": id},
     {"name": "main$ebnf$4", "symbols": [], "postprocess": () => null},
-    {"name": "main$ebnf$5", "symbols": ["please"], "postprocess": id},
+    {"name": "main", "symbols": ["main$ebnf$1", "main$ebnf$2", "main$ebnf$3", "command", "main$ebnf$4"], "postprocess": (d) => d[3]},
+    {"name": "main$ebnf$5", "symbols": ["will_you"], "postprocess": id},
     {"name": "main$ebnf$5", "symbols": [], "postprocess": () => null},
-    {"name": "main", "symbols": ["main$ebnf$4", "entityClarification", "main$ebnf$5"], "postprocess": (d) => new Clarification(d[1])},
-    {"name": "command", "symbols": ["take", "entity"], "postprocess": (d) => new TakeCommand(d[1])},
-    {"name": "command", "symbols": ["move", "it", "location"], "postprocess": (d) => new DropCommand(d[2])},
-    {"name": "command", "symbols": ["move", "entity", "location"], "postprocess": (d) => new MoveCommand(d[1], d[2])},
+    {"name": "main$ebnf$6", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$6", "symbols": [], "postprocess": () => null},
+    {"name": "main$ebnf$7$string$1", "symbols": [{"literal":"n"}, {"literal":"o"}, {"literal":"w"}], "postprocess": (d) => d.join('')},
+    {"name": "main$ebnf$7", "symbols": ["main$ebnf$7$string$1"], "postprocess": id},
+    {"name": "main$ebnf$7", "symbols": [], "postprocess": () => null},
+    {"name": "main$ebnf$8$subexpression$1$ebnf$1", "symbols": ["then"], "postprocess": id},
+    {"name": "main$ebnf$8$subexpression$1$ebnf$1", "symbols": [], "postprocess": () => null},
+    {"name": "main$ebnf$8$subexpression$1", "symbols": ["main$ebnf$8$subexpression$1$ebnf$1", "action"]},
+    {"name": "main$ebnf$8", "symbols": ["main$ebnf$8$subexpression$1"]},
+    {"name": "main$ebnf$8$subexpression$2$ebnf$1", "symbols": ["then"], "postprocess": id},
+    {"name": "main$ebnf$8$subexpression$2$ebnf$1", "symbols": [], "postprocess": () => null},
+    {"name": "main$ebnf$8$subexpression$2", "symbols": ["main$ebnf$8$subexpression$2$ebnf$1", "action"]},
+    {"name": "main$ebnf$8", "symbols": ["main$ebnf$8", "main$ebnf$8$subexpression$2"], "postprocess": (d) => d[0].concat([d[1]])},
+    {"name": "main$ebnf$9", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$9", "symbols": [], "postprocess": () => null},
+    {"name": "main", "symbols": ["main$ebnf$5", "main$ebnf$6", "main$ebnf$7", "action", "main$ebnf$8", "main$ebnf$9"], "postprocess": (d) => new SequenceCommand([d[3]].concat(d[4].map((step: any) => step[1])))},
+    {"name": "main$ebnf$10", "symbols": ["will_you_use"], "postprocess": id},
+    {"name": "main$ebnf$10", "symbols": [], "postprocess": () => null},
+    {"name": "main$ebnf$11", "symbols": ["please"], "postprocess": id},
+    {"name": "main$ebnf$11", "symbols": [], "postprocess": () => null},
+    {"name": "main", "symbols": ["main$ebnf$10", "entityClarification", "main$ebnf$11"], "postprocess": (d) => new Clarification(d[1])},
+    {"name": "command", "symbols": ["action"], "postprocess": (d) => d[0]},
+    {"name": "action", "symbols": ["take", "entity"], "postprocess": (d) => new TakeCommand(d[1])},
+    {"name": "action", "symbols": ["take", "pronoun"], "postprocess": (d) => new TakeCommand(d[1])},
+    {"name": "action", "symbols": ["move", "it", "location"], "postprocess": (d) => new DropCommand(d[2])},
+    {"name": "action", "symbols": ["move", "entity", "location"], "postprocess": (d) => new MoveCommand(d[1], d[2])},
+    {"name": "action", "symbols": ["move", "entity", "off", "column"], "postprocess": (d) => new MoveCommand(d[1], new Location("incolumn", d[3], false))},
+    {"name": "action", "symbols": ["make_sure", "goalEntity", "be", "location"], "postprocess": (d) => new MoveCommand(d[1], d[3])},
+    {"name": "action$string$1", "symbols": [{"literal":"n"}, {"literal":"o"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "action", "symbols": ["make_sure", "goalEntity", "be", "action$string$1", "location"], "postprocess": (d) => new MoveCommand(d[1], new Location(d[4].relation, d[4].entity, false))},
+    {"name": "action", "symbols": ["goalEntity", "should_be", "location"], "postprocess": (d) => new MoveCommand(d[0], d[2])},
+    {"name": "action", "symbols": ["goalEntity", "should_not_be", "location"], "postprocess": (d) => new MoveCommand(d[0], new Location(d[2].relation, d[2].entity, false))},
+    {"name": "command", "symbols": ["undo"], "postprocess": (d) => new UndoCommand(1)},
+    {"name": "command", "symbols": ["undo", "number", "steps"], "postprocess": (d) => new UndoCommand(d[1])},
+    {"name": "command", "symbols": ["go_back"], "postprocess": (d) => new UndoCommand(1)},
+    {"name": "command", "symbols": ["go_back", "number", "steps"], "postprocess": (d) => new UndoCommand(d[1])},
+    {"name": "command", "symbols": ["redo"], "postprocess": (d) => new RedoCommand(1)},
+    {"name": "command", "symbols": ["redo", "number", "steps"], "postprocess": (d) => new RedoCommand(d[1])},
+    {"name": "command", "symbols": ["where_is", "entity"], "postprocess": (d) => new WhereisCommand(d[1])},
+    {"name": "command", "symbols": ["where_is", "pronoun"], "postprocess": (d) => new WhereisCommand(d[1])},
+    {"name": "command", "symbols": ["what_is", "location"], "postprocess": (d) => new WhatisCommand(d[1])},
+    {"name": "command", "symbols": ["how_many", "objectPL"], "postprocess": (d) => new CountCommand(new Entity("all", d[1]))},
+    {"name": "command", "symbols": ["how_many", "objectPL", "are_there"], "postprocess": (d) => new CountCommand(new Entity("all", d[1]))},
+    {"name": "command$string$1", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "command", "symbols": ["how_many", "objectPL", "command$string$1", "location"], "postprocess": (d) => new CountCommand(new Entity("all", new RelativeObject(d[1], d[3])))},
+    {"name": "command", "symbols": ["is_there", "entity"], "postprocess": (d) => new ExistsCommand(d[1])},
+    {"name": "command$ebnf$1$string$1", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
+    {"name": "command$ebnf$1", "symbols": ["command$ebnf$1$string$1"], "postprocess": id},
+    {"name": "command$ebnf$1", "symbols": [], "postprocess": () => null},
+    {"name": "command", "symbols": ["are_there", "command$ebnf$1", "objectPL"], "postprocess": (d) => new ExistsCommand(new Entity("any", d[2]))},
     {"name": "location", "symbols": ["relation", "entity"], "postprocess": (d) => new Location(d[0], d[1])},
+    {"name": "location", "symbols": ["relation", "pronoun"], "postprocess": (d) => new Location(d[0], d[1])},
+    {"name": "location", "symbols": ["relation", "objectPL"], "postprocess": (d) => new Location(d[0], new Entity("any", d[1]))},
+    {"name": "location$subexpression$1$string$1", "symbols": [{"literal":"i"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "location$subexpression$1", "symbols": ["location$subexpression$1$string$1"]},
+    {"name": "location$subexpression$1$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "location$subexpression$1", "symbols": ["location$subexpression$1$string$2"]},
+    {"name": "location$subexpression$1$string$3", "symbols": [{"literal":"o"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "location$subexpression$1", "symbols": ["location$subexpression$1$string$3"]},
+    {"name": "location$subexpression$1$string$4", "symbols": [{"literal":"t"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "location$subexpression$1", "symbols": ["location$subexpression$1$string$4"]},
+    {"name": "location$subexpression$1$string$5", "symbols": [{"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "location$subexpression$1", "symbols": ["location$subexpression$1$string$5"]},
+    {"name": "location", "symbols": ["location$subexpression$1", "column"], "postprocess": (d) => new Location("incolumn", d[1])},
     {"name": "location$string$1", "symbols": [{"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
     {"name": "location$string$2", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
     {"name": "location$string$3", "symbols": [{"literal":"l"}, {"literal":"o"}, {"literal":"c"}, {"literal":"a"}, {"literal":"t"}, {"literal":"i"}, {"literal":"o"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
@@ -57,10 +119,37 @@ export var ParserRules: NearleyRule[] = [
     {"name": "location", "symbols": ["location$string$4", "location$string$5"], "postprocess": (d) => new Location("holding", new Entity("the", new SimpleObject("floor", null, null)))},
     {"name": "entity", "symbols": ["quantifierSG", "objectSG"], "postprocess": (d) => new Entity(d[0], d[1])},
     {"name": "entity", "symbols": ["quantifierPL", "objectPL"], "postprocess": (d) => new Entity(d[0], d[1])},
+    {"name": "entity", "symbols": ["cardinalSG", "objectSG"], "postprocess": (d) => new Entity(d[0], d[1], 1)},
+    {"name": "entity", "symbols": ["cardinalPL", "objectPL"], "postprocess": (d) => new Entity(d[0][0], d[1], d[0][1])},
     {"name": "entity$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
-    {"name": "entity$string$2", "symbols": [{"literal":"f"}, {"literal":"l"}, {"literal":"o"}, {"literal":"o"}, {"literal":"r"}], "postprocess": (d) => d.join('')},
-    {"name": "entity", "symbols": ["entity$string$1", "entity$string$2"], "postprocess": (d) => new Entity("the", new SimpleObject("floor", null, null))},
+    {"name": "entity", "symbols": ["entity$string$1", "superlative", "objectSG"], "postprocess": (d) => new Entity("the", new SuperlativeObject(d[2], d[1]))},
+    {"name": "entity$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "entity", "symbols": ["entity$string$2", "objectSG", "stackSuperlative"], "postprocess": (d) => new Entity("the", new SuperlativeObject(d[1], d[2]))},
+    {"name": "entity$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "entity$string$4", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "entity$string$5", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"m"}], "postprocess": (d) => d.join('')},
+    {"name": "entity", "symbols": ["entity$string$3", "objectSG", "distanceSuperlative", "entity$string$4", "entity$string$5"], "postprocess": (d) => new Entity("the", new SuperlativeObject(d[1], d[2]))},
+    {"name": "entity$string$6", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "entity", "symbols": ["entity$string$6", "objectSG", "distanceSuperlative", "entity"], "postprocess": (d) => new Entity("the", new SuperlativeObject(d[1], d[2], d[3]))},
+    {"name": "entity$subexpression$1$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "entity$subexpression$1", "symbols": ["entity$subexpression$1$string$1"]},
+    {"name": "entity$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "entity$subexpression$1", "symbols": ["entity$subexpression$1$string$2"]},
+    {"name": "entity$subexpression$1$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "entity$subexpression$1$string$4", "symbols": [{"literal":"s"}, {"literal":"a"}, {"literal":"m"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "entity$subexpression$1", "symbols": ["entity$subexpression$1$string$3", "entity$subexpression$1$string$4"]},
+    {"name": "entity", "symbols": ["entity$subexpression$1", "objectSG"], "postprocess": (d) => new Entity("that", d[1])},
+    {"name": "entity$string$7", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "entity$string$8", "symbols": [{"literal":"f"}, {"literal":"l"}, {"literal":"o"}, {"literal":"o"}, {"literal":"r"}], "postprocess": (d) => d.join('')},
+    {"name": "entity", "symbols": ["entity$string$7", "entity$string$8"], "postprocess": (d) => new Entity("the", new SimpleObject("floor", null, null))},
     {"name": "entityClarification", "symbols": ["entity"], "postprocess": (d) => d[0]},
+    {"name": "pronoun$string$1", "symbols": [{"literal":"i"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "pronoun", "symbols": ["pronoun$string$1"], "postprocess": (d) => new Entity("it", new SimpleObject("anyform", null, null))},
+    {"name": "goalEntity", "symbols": ["entity"], "postprocess": (d) => d[0]},
+    {"name": "goalEntity$string$1", "symbols": [{"literal":"n"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "goalEntity", "symbols": ["goalEntity$string$1", "objectSG"], "postprocess": (d) => new Entity("no", d[1])},
+    {"name": "goalEntity$string$2", "symbols": [{"literal":"n"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "goalEntity", "symbols": ["goalEntity$string$2", "objectPL"], "postprocess": (d) => new Entity("no", d[1])},
     {"name": "objectSG$ebnf$1", "symbols": ["that_is"], "postprocess": id},
     {"name": "objectSG$ebnf$1", "symbols": [], "postprocess": () => null},
     {"name": "objectSG", "symbols": ["objectSG", "objectSG$ebnf$1", "location"], "postprocess": (d) => new RelativeObject(d[0], d[2])},
@@ -89,9 +178,100 @@ export var ParserRules: NearleyRule[] = [
     {"name": "quantifierSG$subexpression$3$string$1", "symbols": [{"literal":"e"}, {"literal":"v"}, {"literal":"e"}, {"literal":"r"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
     {"name": "quantifierSG$subexpression$3", "symbols": ["quantifierSG$subexpression$3$string$1"]},
     {"name": "quantifierSG", "symbols": ["quantifierSG$subexpression$3"], "postprocess": (d) => "all"},
+    {"name": "quantifierSG$subexpression$4$string$1", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "quantifierSG$subexpression$4", "symbols": ["quantifierSG$subexpression$4$string$1"]},
+    {"name": "quantifierSG", "symbols": ["quantifierSG$subexpression$4"], "postprocess": (d) => "any"},
     {"name": "quantifierPL$subexpression$1$string$1", "symbols": [{"literal":"a"}, {"literal":"l"}, {"literal":"l"}], "postprocess": (d) => d.join('')},
     {"name": "quantifierPL$subexpression$1", "symbols": ["quantifierPL$subexpression$1$string$1"]},
     {"name": "quantifierPL", "symbols": ["quantifierPL$subexpression$1"], "postprocess": (d) => "all"},
+    {"name": "cardinalSG$subexpression$1$string$1", "symbols": [{"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalSG$subexpression$1$string$2", "symbols": [{"literal":"l"}, {"literal":"e"}, {"literal":"a"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalSG$subexpression$1$string$3", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalSG$subexpression$1", "symbols": ["cardinalSG$subexpression$1$string$1", "cardinalSG$subexpression$1$string$2", "cardinalSG$subexpression$1$string$3"]},
+    {"name": "cardinalSG", "symbols": ["cardinalSG$subexpression$1"], "postprocess": (d) => "atleast"},
+    {"name": "cardinalSG$subexpression$2$string$1", "symbols": [{"literal":"e"}, {"literal":"x"}, {"literal":"a"}, {"literal":"c"}, {"literal":"t"}, {"literal":"l"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalSG$subexpression$2$string$2", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalSG$subexpression$2", "symbols": ["cardinalSG$subexpression$2$string$1", "cardinalSG$subexpression$2$string$2"]},
+    {"name": "cardinalSG", "symbols": ["cardinalSG$subexpression$2"], "postprocess": (d) => "exactly"},
+    {"name": "cardinalPL", "symbols": ["number"], "postprocess": (d) => ["atleast", d[0]]},
+    {"name": "cardinalPL$string$1", "symbols": [{"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalPL$string$2", "symbols": [{"literal":"l"}, {"literal":"e"}, {"literal":"a"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalPL", "symbols": ["cardinalPL$string$1", "cardinalPL$string$2", "number"], "postprocess": (d) => ["atleast", d[2]]},
+    {"name": "cardinalPL$string$3", "symbols": [{"literal":"e"}, {"literal":"x"}, {"literal":"a"}, {"literal":"c"}, {"literal":"t"}, {"literal":"l"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalPL", "symbols": ["cardinalPL$string$3", "number"], "postprocess": (d) => ["exactly", d[1]]},
+    {"name": "cardinalPL$string$4", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"t"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "cardinalPL", "symbols": ["cardinalPL$string$4"], "postprocess": (d) => ["both", 2]},
+    {"name": "superlative$string$1", "symbols": [{"literal":"l"}, {"literal":"e"}, {"literal":"f"}, {"literal":"t"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "superlative", "symbols": ["superlative$string$1"], "postprocess": (d) => "leftmost"},
+    {"name": "superlative$string$2", "symbols": [{"literal":"r"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"t"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "superlative", "symbols": ["superlative$string$2"], "postprocess": (d) => "rightmost"},
+    {"name": "superlative$subexpression$1$string$1", "symbols": [{"literal":"h"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "superlative$subexpression$1", "symbols": ["superlative$subexpression$1$string$1"]},
+    {"name": "superlative$subexpression$1$string$2", "symbols": [{"literal":"t"}, {"literal":"o"}, {"literal":"p"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "superlative$subexpression$1", "symbols": ["superlative$subexpression$1$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$1"], "postprocess": (d) => "highest"},
+    {"name": "superlative$subexpression$2$string$1", "symbols": [{"literal":"l"}, {"literal":"o"}, {"literal":"w"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "superlative$subexpression$2", "symbols": ["superlative$subexpression$2$string$1"]},
+    {"name": "superlative$subexpression$2$string$2", "symbols": [{"literal":"b"}, {"literal":"o"}, {"literal":"t"}, {"literal":"t"}, {"literal":"o"}, {"literal":"m"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "superlative$subexpression$2", "symbols": ["superlative$subexpression$2$string$2"]},
+    {"name": "superlative", "symbols": ["superlative$subexpression$2"], "postprocess": (d) => "lowest"},
+    {"name": "stackSuperlative$subexpression$1$string$1", "symbols": [{"literal":"o"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$1", "symbols": ["stackSuperlative$subexpression$1$string$1"]},
+    {"name": "stackSuperlative$subexpression$1$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$1", "symbols": ["stackSuperlative$subexpression$1$string$2"]},
+    {"name": "stackSuperlative$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$2$string$1", "symbols": [{"literal":"t"}, {"literal":"a"}, {"literal":"l"}, {"literal":"l"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$2", "symbols": ["stackSuperlative$subexpression$2$string$1"]},
+    {"name": "stackSuperlative$subexpression$2$string$2", "symbols": [{"literal":"h"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$2", "symbols": ["stackSuperlative$subexpression$2$string$2"]},
+    {"name": "stackSuperlative$string$2", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative", "symbols": ["stackSuperlative$subexpression$1", "stackSuperlative$string$1", "stackSuperlative$subexpression$2", "stackSuperlative$string$2"], "postprocess": (d) => "tallest"},
+    {"name": "stackSuperlative$subexpression$3$string$1", "symbols": [{"literal":"o"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$3", "symbols": ["stackSuperlative$subexpression$3$string$1"]},
+    {"name": "stackSuperlative$subexpression$3$string$2", "symbols": [{"literal":"i"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$3", "symbols": ["stackSuperlative$subexpression$3$string$2"]},
+    {"name": "stackSuperlative$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$4$string$1", "symbols": [{"literal":"s"}, {"literal":"h"}, {"literal":"o"}, {"literal":"r"}, {"literal":"t"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$4", "symbols": ["stackSuperlative$subexpression$4$string$1"]},
+    {"name": "stackSuperlative$subexpression$4$string$2", "symbols": [{"literal":"l"}, {"literal":"o"}, {"literal":"w"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative$subexpression$4", "symbols": ["stackSuperlative$subexpression$4$string$2"]},
+    {"name": "stackSuperlative$string$4", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}], "postprocess": (d) => d.join('')},
+    {"name": "stackSuperlative", "symbols": ["stackSuperlative$subexpression$3", "stackSuperlative$string$3", "stackSuperlative$subexpression$4", "stackSuperlative$string$4"], "postprocess": (d) => "shortest"},
+    {"name": "distanceSuperlative$subexpression$1$string$1", "symbols": [{"literal":"c"}, {"literal":"l"}, {"literal":"o"}, {"literal":"s"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "distanceSuperlative$subexpression$1", "symbols": ["distanceSuperlative$subexpression$1$string$1"]},
+    {"name": "distanceSuperlative$subexpression$1$string$2", "symbols": [{"literal":"n"}, {"literal":"e"}, {"literal":"a"}, {"literal":"r"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "distanceSuperlative$subexpression$1", "symbols": ["distanceSuperlative$subexpression$1$string$2"]},
+    {"name": "distanceSuperlative$string$1", "symbols": [{"literal":"t"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "distanceSuperlative", "symbols": ["distanceSuperlative$subexpression$1", "distanceSuperlative$string$1"], "postprocess": (d) => "closest"},
+    {"name": "distanceSuperlative$subexpression$2$string$1", "symbols": [{"literal":"f"}, {"literal":"a"}, {"literal":"r"}, {"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "distanceSuperlative$subexpression$2", "symbols": ["distanceSuperlative$subexpression$2$string$1"]},
+    {"name": "distanceSuperlative$subexpression$2$string$2", "symbols": [{"literal":"f"}, {"literal":"u"}, {"literal":"r"}, {"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "distanceSuperlative$subexpression$2", "symbols": ["distanceSuperlative$subexpression$2$string$2"]},
+    {"name": "distanceSuperlative$string$2", "symbols": [{"literal":"f"}, {"literal":"r"}, {"literal":"o"}, {"literal":"m"}], "postprocess": (d) => d.join('')},
+    {"name": "distanceSuperlative", "symbols": ["distanceSuperlative$subexpression$2", "distanceSuperlative$string$2"], "postprocess": (d) => "farthest"},
+    {"name": "column$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "column", "symbols": ["column$string$1", "ordinal", "column_noun"], "postprocess": (d) => new Column("the", d[1] - 1)},
+    {"name": "column$subexpression$1", "symbols": ["number"]},
+    {"name": "column$subexpression$1", "symbols": ["digits"]},
+    {"name": "column", "symbols": ["column_noun", "column$subexpression$1"], "postprocess": (d) => new Column("the", d[1][0] - 1)},
+    {"name": "column$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "column$subexpression$2$string$1", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "column$subexpression$2", "symbols": ["column$subexpression$2$string$1"]},
+    {"name": "column$subexpression$2$string$2", "symbols": [{"literal":"l"}, {"literal":"e"}, {"literal":"f"}, {"literal":"t"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "column$subexpression$2", "symbols": ["column$subexpression$2$string$2"]},
+    {"name": "column", "symbols": ["column$string$2", "column$subexpression$2", "empty_column"], "postprocess": (d) => new Column("leftmost", null)},
+    {"name": "column$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "column$subexpression$3$string$1", "symbols": [{"literal":"l"}, {"literal":"a"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "column$subexpression$3", "symbols": ["column$subexpression$3$string$1"]},
+    {"name": "column$subexpression$3$string$2", "symbols": [{"literal":"r"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"t"}, {"literal":"m"}, {"literal":"o"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "column$subexpression$3", "symbols": ["column$subexpression$3$string$2"]},
+    {"name": "column", "symbols": ["column$string$3", "column$subexpression$3", "empty_column"], "postprocess": (d) => new Column("rightmost", null)},
+    {"name": "column$subexpression$4", "symbols": [{"literal":"a"}]},
+    {"name": "column$subexpression$4$string$1", "symbols": [{"literal":"a"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "column$subexpression$4", "symbols": ["column$subexpression$4$string$1"]},
+    {"name": "column$subexpression$4$string$2", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
+    {"name": "column$subexpression$4", "symbols": ["column$subexpression$4$string$2"]},
+    {"name": "column", "symbols": ["column$subexpression$4", "empty_column"], "postprocess": (d) => new Column("any", null)},
     {"name": "relation$subexpression$1$string$1", "symbols": [{"literal":"l"}, {"literal":"e"}, {"literal":"f"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
     {"name": "relation$subexpression$1$string$2", "symbols": [{"literal":"o"}, {"literal":"f"}], "postprocess": (d) => d.join('')},
     {"name": "relation$subexpression$1", "symbols": ["relation$subexpression$1$string$1", "relation$subexpression$1$string$2"]},
@@ -187,6 +367,49 @@ export var ParserRules: NearleyRule[] = [
     {"name": "form", "symbols": ["form$string$4"], "postprocess": (d) => "pyramid"},
     {"name": "form$string$5", "symbols": [{"literal":"t"}, {"literal":"a"}, {"literal":"b"}, {"literal":"l"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
     {"name": "form", "symbols": ["form$string$5"], "postprocess": (d) => "table"},
+    {"name": "number$string$1", "symbols": [{"literal":"o"}, {"literal":"n"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$1"], "postprocess": (d) => 1},
+    {"name": "number$string$2", "symbols": [{"literal":"t"}, {"literal":"w"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$2"], "postprocess": (d) => 2},
+    {"name": "number$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"r"}, {"literal":"e"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$3"], "postprocess": (d) => 3},
+    {"name": "number$string$4", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"u"}, {"literal":"r"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$4"], "postprocess": (d) => 4},
+    {"name": "number$string$5", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"v"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$5"], "postprocess": (d) => 5},
+    {"name": "number$string$6", "symbols": [{"literal":"s"}, {"literal":"i"}, {"literal":"x"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$6"], "postprocess": (d) => 6},
+    {"name": "number$string$7", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"v"}, {"literal":"e"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$7"], "postprocess": (d) => 7},
+    {"name": "number$string$8", "symbols": [{"literal":"e"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$8"], "postprocess": (d) => 8},
+    {"name": "number$string$9", "symbols": [{"literal":"n"}, {"literal":"i"}, {"literal":"n"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$9"], "postprocess": (d) => 9},
+    {"name": "number$string$10", "symbols": [{"literal":"t"}, {"literal":"e"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "number", "symbols": ["number$string$10"], "postprocess": (d) => 10},
+    {"name": "digits$ebnf$1", "symbols": [/[0-9]/]},
+    {"name": "digits$ebnf$1", "symbols": ["digits$ebnf$1", /[0-9]/], "postprocess": (d) => d[0].concat([d[1]])},
+    {"name": "digits", "symbols": ["digits$ebnf$1"], "postprocess": (d) => parseInt(d[0].join(""), 10)},
+    {"name": "ordinal$string$1", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"r"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$1"], "postprocess": (d) => 1},
+    {"name": "ordinal$string$2", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"c"}, {"literal":"o"}, {"literal":"n"}, {"literal":"d"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$2"], "postprocess": (d) => 2},
+    {"name": "ordinal$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"i"}, {"literal":"r"}, {"literal":"d"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$3"], "postprocess": (d) => 3},
+    {"name": "ordinal$string$4", "symbols": [{"literal":"f"}, {"literal":"o"}, {"literal":"u"}, {"literal":"r"}, {"literal":"t"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$4"], "postprocess": (d) => 4},
+    {"name": "ordinal$string$5", "symbols": [{"literal":"f"}, {"literal":"i"}, {"literal":"f"}, {"literal":"t"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$5"], "postprocess": (d) => 5},
+    {"name": "ordinal$string$6", "symbols": [{"literal":"s"}, {"literal":"i"}, {"literal":"x"}, {"literal":"t"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$6"], "postprocess": (d) => 6},
+    {"name": "ordinal$string$7", "symbols": [{"literal":"s"}, {"literal":"e"}, {"literal":"v"}, {"literal":"e"}, {"literal":"n"}, {"literal":"t"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$7"], "postprocess": (d) => 7},
+    {"name": "ordinal$string$8", "symbols": [{"literal":"e"}, {"literal":"i"}, {"literal":"g"}, {"literal":"h"}, {"literal":"t"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$8"], "postprocess": (d) => 8},
+    {"name": "ordinal$string$9", "symbols": [{"literal":"n"}, {"literal":"i"}, {"literal":"n"}, {"literal":"t"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$9"], "postprocess": (d) => 9},
+    {"name": "ordinal$string$10", "symbols": [{"literal":"t"}, {"literal":"e"}, {"literal":"n"}, {"literal":"t"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "ordinal", "symbols": ["ordinal$string$10"], "postprocess": (d) => 10},
     {"name": "take$string$1", "symbols": [{"literal":"t"}, {"literal":"a"}, {"literal":"k"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
     {"name": "take", "symbols": ["take$string$1"]},
     {"name": "take$string$2", "symbols": [{"literal":"g"}, {"literal":"r"}, {"literal":"a"}, {"literal":"s"}, {"literal":"p"}], "postprocess": (d) => d.join('')},
@@ -202,6 +425,30 @@ export var ParserRules: NearleyRule[] = [
     {"name": "move", "symbols": ["move$string$3"]},
     {"name": "it$string$1", "symbols": [{"literal":"i"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
     {"name": "it", "symbols": ["it$string$1"]},
+    {"name": "off$string$1", "symbols": [{"literal":"o"}, {"literal":"f"}, {"literal":"f"}], "postprocess": (d) => d.join('')},
+    {"name": "off", "symbols": ["off$string$1"]},
+    {"name": "off$string$2", "symbols": [{"literal":"o"}, {"literal":"f"}, {"literal":"f"}], "postprocess": (d) => d.join('')},
+    {"name": "off$string$3", "symbols": [{"literal":"o"}, {"literal":"f"}], "postprocess": (d) => d.join('')},
+    {"name": "off", "symbols": ["off$string$2", "off$string$3"]},
+    {"name": "off$string$4", "symbols": [{"literal":"o"}, {"literal":"u"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "off$string$5", "symbols": [{"literal":"o"}, {"literal":"f"}], "postprocess": (d) => d.join('')},
+    {"name": "off", "symbols": ["off$string$4", "off$string$5"]},
+    {"name": "off$string$6", "symbols": [{"literal":"a"}, {"literal":"w"}, {"literal":"a"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
+    {"name": "off$string$7", "symbols": [{"literal":"f"}, {"literal":"r"}, {"literal":"o"}, {"literal":"m"}], "postprocess": (d) => d.join('')},
+    {"name": "off", "symbols": ["off$string$6", "off$string$7"]},
+    {"name": "off$string$8", "symbols": [{"literal":"f"}, {"literal":"r"}, {"literal":"o"}, {"literal":"m"}], "postprocess": (d) => d.join('')},
+    {"name": "off", "symbols": ["off$string$8"]},
+    {"name": "column_noun$string$1", "symbols": [{"literal":"c"}, {"literal":"o"}, {"literal":"l"}, {"literal":"u"}, {"literal":"m"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "column_noun", "symbols": ["column_noun$string$1"]},
+    {"name": "column_noun$string$2", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}], "postprocess": (d) => d.join('')},
+    {"name": "column_noun", "symbols": ["column_noun$string$2"]},
+    {"name": "empty_column$string$1", "symbols": [{"literal":"e"}, {"literal":"m"}, {"literal":"p"}, {"literal":"t"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
+    {"name": "empty_column$subexpression$1", "symbols": ["column_noun"]},
+    {"name": "empty_column$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"p"}, {"literal":"o"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "empty_column$subexpression$1", "symbols": ["empty_column$subexpression$1$string$1"]},
+    {"name": "empty_column$subexpression$1$string$2", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"a"}, {"literal":"c"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "empty_column$subexpression$1", "symbols": ["empty_column$subexpression$1$string$2"]},
+    {"name": "empty_column", "symbols": ["empty_column$string$1", "empty_column$subexpression$1"]},
     {"name": "that_is$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
     {"name": "that_is$string$2", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
     {"name": "that_is", "symbols": ["that_is$string$1", "that_is$string$2"]},
@@ -221,7 +468,105 @@ export var ParserRules: NearleyRule[] = [
     {"name": "will_you_use$string$1", "symbols": [{"literal":"u"}, {"literal":"s"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
     {"name": "will_you_use", "symbols": ["will_you", "will_you_use$string$1"]},
     {"name": "please$string$1", "symbols": [{"literal":"p"}, {"literal":"l"}, {"literal":"e"}, {"literal":"a"}, {"literal":"s"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
-    {"name": "please", "symbols": ["please$string$1"]}
+    {"name": "please", "symbols": ["please$string$1"]},
+    {"name": "then$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "then", "symbols": ["then$string$1"]},
+    {"name": "then$string$2", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": (d) => d.join('')},
+    {"name": "then$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"n"}], "postprocess": (d) => d.join('')},
+    {"name": "then", "symbols": ["then$string$2", "then$string$3"]},
+    {"name": "then$string$4", "symbols": [{"literal":"a"}, {"literal":"f"}, {"literal":"t"}, {"literal":"e"}, {"literal":"r"}], "postprocess": (d) => d.join('')},
+    {"name": "then$string$5", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "then", "symbols": ["then$string$4", "then$string$5"]},
+    {"name": "then$string$6", "symbols": [{"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": (d) => d.join('')},
+    {"name": "then$string$7", "symbols": [{"literal":"a"}, {"literal":"f"}, {"literal":"t"}, {"literal":"e"}, {"literal":"r"}], "postprocess": (d) => d.join('')},
+    {"name": "then$string$8", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "then", "symbols": ["then$string$6", "then$string$7", "then$string$8"]},
+    {"name": "make_sure$string$1", "symbols": [{"literal":"m"}, {"literal":"a"}, {"literal":"k"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "make_sure$string$2", "symbols": [{"literal":"s"}, {"literal":"u"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "make_sure$ebnf$1$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "make_sure$ebnf$1", "symbols": ["make_sure$ebnf$1$string$1"], "postprocess": id},
+    {"name": "make_sure$ebnf$1", "symbols": [], "postprocess": () => null},
+    {"name": "make_sure", "symbols": ["make_sure$string$1", "make_sure$string$2", "make_sure$ebnf$1"]},
+    {"name": "make_sure$string$3", "symbols": [{"literal":"e"}, {"literal":"n"}, {"literal":"s"}, {"literal":"u"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "make_sure$ebnf$2$string$1", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "make_sure$ebnf$2", "symbols": ["make_sure$ebnf$2$string$1"], "postprocess": id},
+    {"name": "make_sure$ebnf$2", "symbols": [], "postprocess": () => null},
+    {"name": "make_sure", "symbols": ["make_sure$string$3", "make_sure$ebnf$2"]},
+    {"name": "be$string$1", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "be", "symbols": ["be$string$1"]},
+    {"name": "be$string$2", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "be", "symbols": ["be$string$2"]},
+    {"name": "should_be$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"h"}, {"literal":"o"}, {"literal":"u"}, {"literal":"l"}, {"literal":"d"}], "postprocess": (d) => d.join('')},
+    {"name": "should_be$subexpression$1", "symbols": ["should_be$subexpression$1$string$1"]},
+    {"name": "should_be$subexpression$1$string$2", "symbols": [{"literal":"m"}, {"literal":"u"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "should_be$subexpression$1", "symbols": ["should_be$subexpression$1$string$2"]},
+    {"name": "should_be$string$1", "symbols": [{"literal":"b"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "should_be", "symbols": ["should_be$subexpression$1", "should_be$string$1"]},
+    {"name": "should_not_be$subexpression$1$string$1", "symbols": [{"literal":"s"}, {"literal":"h"}, {"literal":"o"}, {"literal":"u"}, {"literal":"l"}, {"literal":"d"}], "postprocess": (d) => d.join('')},
+    {"name": "should_not_be$subexpression$1", "symbols": ["should_not_be$subexpression$1$string$1"]},
+    {"name": "should_not_be$subexpression$1$string$2", "symbols": [{"literal":"m"}, {"literal":"u"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "should_not_be$subexpression$1", "symbols": ["should_not_be$subexpression$1$string$2"]},
+    {"name": "should_not_be$string$1", "symbols": [{"literal":"n"}, {"literal":"o"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "should_not_be$string$2", "symbols": [{"literal":"b"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "should_not_be", "symbols": ["should_not_be$subexpression$1", "should_not_be$string$1", "should_not_be$string$2"]},
+    {"name": "undo$string$1", "symbols": [{"literal":"u"}, {"literal":"n"}, {"literal":"d"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "undo", "symbols": ["undo$string$1"]},
+    {"name": "undo$string$2", "symbols": [{"literal":"u"}, {"literal":"n"}, {"literal":"d"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "undo$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "undo", "symbols": ["undo$string$2", "undo$string$3"]},
+    {"name": "undo$string$4", "symbols": [{"literal":"u"}, {"literal":"n"}, {"literal":"d"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "undo$string$5", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "undo$string$6", "symbols": [{"literal":"l"}, {"literal":"a"}, {"literal":"s"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "undo$subexpression$1$string$1", "symbols": [{"literal":"c"}, {"literal":"o"}, {"literal":"m"}, {"literal":"m"}, {"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": (d) => d.join('')},
+    {"name": "undo$subexpression$1", "symbols": ["undo$subexpression$1$string$1"]},
+    {"name": "undo$subexpression$1$string$2", "symbols": [{"literal":"m"}, {"literal":"o"}, {"literal":"v"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "undo$subexpression$1", "symbols": ["undo$subexpression$1$string$2"]},
+    {"name": "undo", "symbols": ["undo$string$4", "undo$string$5", "undo$string$6", "undo$subexpression$1"]},
+    {"name": "redo$string$1", "symbols": [{"literal":"r"}, {"literal":"e"}, {"literal":"d"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "redo", "symbols": ["redo$string$1"]},
+    {"name": "redo$string$2", "symbols": [{"literal":"r"}, {"literal":"e"}, {"literal":"d"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "redo$string$3", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "redo", "symbols": ["redo$string$2", "redo$string$3"]},
+    {"name": "go_back$string$1", "symbols": [{"literal":"g"}, {"literal":"o"}], "postprocess": (d) => d.join('')},
+    {"name": "go_back$string$2", "symbols": [{"literal":"b"}, {"literal":"a"}, {"literal":"c"}, {"literal":"k"}], "postprocess": (d) => d.join('')},
+    {"name": "go_back", "symbols": ["go_back$string$1", "go_back$string$2"]},
+    {"name": "steps$string$1", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"e"}, {"literal":"p"}], "postprocess": (d) => d.join('')},
+    {"name": "steps", "symbols": ["steps$string$1"]},
+    {"name": "steps$string$2", "symbols": [{"literal":"s"}, {"literal":"t"}, {"literal":"e"}, {"literal":"p"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "steps", "symbols": ["steps$string$2"]},
+    {"name": "steps$string$3", "symbols": [{"literal":"c"}, {"literal":"o"}, {"literal":"m"}, {"literal":"m"}, {"literal":"a"}, {"literal":"n"}, {"literal":"d"}], "postprocess": (d) => d.join('')},
+    {"name": "steps", "symbols": ["steps$string$3"]},
+    {"name": "steps$string$4", "symbols": [{"literal":"c"}, {"literal":"o"}, {"literal":"m"}, {"literal":"m"}, {"literal":"a"}, {"literal":"n"}, {"literal":"d"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "steps", "symbols": ["steps$string$4"]},
+    {"name": "steps$string$5", "symbols": [{"literal":"m"}, {"literal":"o"}, {"literal":"v"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "steps", "symbols": ["steps$string$5"]},
+    {"name": "steps$string$6", "symbols": [{"literal":"m"}, {"literal":"o"}, {"literal":"v"}, {"literal":"e"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "steps", "symbols": ["steps$string$6"]},
+    {"name": "where_is$string$1", "symbols": [{"literal":"w"}, {"literal":"h"}, {"literal":"e"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "where_is$string$2", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "where_is", "symbols": ["where_is$string$1", "where_is$string$2"]},
+    {"name": "what_is$subexpression$1$string$1", "symbols": [{"literal":"w"}, {"literal":"h"}, {"literal":"a"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "what_is$subexpression$1", "symbols": ["what_is$subexpression$1$string$1"]},
+    {"name": "what_is$subexpression$1$string$2", "symbols": [{"literal":"w"}, {"literal":"h"}, {"literal":"i"}, {"literal":"c"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "what_is$subexpression$1$string$3", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"c"}, {"literal":"t"}], "postprocess": (d) => d.join('')},
+    {"name": "what_is$subexpression$1", "symbols": ["what_is$subexpression$1$string$2", "what_is$subexpression$1$string$3"]},
+    {"name": "what_is$subexpression$1$string$4", "symbols": [{"literal":"w"}, {"literal":"h"}, {"literal":"i"}, {"literal":"c"}, {"literal":"h"}], "postprocess": (d) => d.join('')},
+    {"name": "what_is$subexpression$1$string$5", "symbols": [{"literal":"o"}, {"literal":"b"}, {"literal":"j"}, {"literal":"e"}, {"literal":"c"}, {"literal":"t"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "what_is$subexpression$1", "symbols": ["what_is$subexpression$1$string$4", "what_is$subexpression$1$string$5"]},
+    {"name": "what_is$subexpression$2$string$1", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "what_is$subexpression$2", "symbols": ["what_is$subexpression$2$string$1"]},
+    {"name": "what_is$subexpression$2$string$2", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "what_is$subexpression$2", "symbols": ["what_is$subexpression$2$string$2"]},
+    {"name": "what_is", "symbols": ["what_is$subexpression$1", "what_is$subexpression$2"]},
+    {"name": "how_many$string$1", "symbols": [{"literal":"h"}, {"literal":"o"}, {"literal":"w"}], "postprocess": (d) => d.join('')},
+    {"name": "how_many$string$2", "symbols": [{"literal":"m"}, {"literal":"a"}, {"literal":"n"}, {"literal":"y"}], "postprocess": (d) => d.join('')},
+    {"name": "how_many", "symbols": ["how_many$string$1", "how_many$string$2"]},
+    {"name": "is_there$string$1", "symbols": [{"literal":"i"}, {"literal":"s"}], "postprocess": (d) => d.join('')},
+    {"name": "is_there$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "is_there", "symbols": ["is_there$string$1", "is_there$string$2"]},
+    {"name": "are_there$string$1", "symbols": [{"literal":"a"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "are_there$string$2", "symbols": [{"literal":"t"}, {"literal":"h"}, {"literal":"e"}, {"literal":"r"}, {"literal":"e"}], "postprocess": (d) => d.join('')},
+    {"name": "are_there", "symbols": ["are_there$string$1", "are_there$string$2"]}
 ];
 
 export var ParserStart: string = "main";
@@ -1,4 +1,5 @@
 import * as nearley from "nearley";
+import {Plan} from "../core/Plan";
 import {Command, DNFFormula, ShrdliteResult} from "../core/Types";
 import * as grammar from "./Grammar";
 
@@ -43,6 +44,6 @@ export function parse(input: string): ShrdliteResult[] {
         // interpretation (placeholder -- will be replaced by the Interpreter)
         new DNFFormula(),
         // plan (placeholder -- will be replaced by the Planner)
-        [],
+        new Plan(),
     ));
 }
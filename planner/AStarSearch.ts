@@ -1,4 +1,3 @@
-import {Dictionary, PriorityQueue, Set} from "typescript-collections";
 import {IGraph, SearchResult, Successor} from "./Graph";
 
 /*
@@ -27,160 +26,336 @@ export function aStarSearch<Node>(graph: IGraph<Node>,
     // Find timeout time
     const endTime = Date.now() + timeout * 1000;
 
-    // Frontier is a collection of nodes that will be examined
-    const frontier: Frontier<Node> = new Frontier<Node>();
+    // Frontier is a collection of nodes that will be examined, it also remembers all discovered nodes
+    const frontier: Frontier<Node> = new Frontier<Node>(graph);
 
-    // Set of discovered nodes
-    const discovered: Set<Node> = new Set();
-
-    // Initialize frontier and visited with start node
-    frontier.add(new SearchNode<Node>(0, 0, {child: start, action: "", cost: 0}, undefined));
-    discovered.add(start);
+    // Initialize frontier with start node
+    frontier.add({child: start, action: "", cost: 0}, 0, 0, -1, frontier.hash(start));
 
     // Loop until we explored all nodes connected to start
     while (true) {
         // Test for timeout
         if (Date.now() > endTime) {
-            return new SearchResult<Node>("timeout", [], -1, discovered.size());
+            return new SearchResult<Node>("timeout", [], -1, frontier.discovered);
         }
 
         // Find node with min path cost + heuristic
-        const currentNode = frontier.dequeue();
-        if (currentNode === undefined) {
+        const current = frontier.dequeue();
+        if (current < 0) {
             // We explored all nodes connected to start, but none lead to goal.
-            return new SearchResult<Node>("failure", [], -1, discovered.size());
+            return new SearchResult<Node>("failure", [], -1, frontier.discovered);
         }
 
         // Test if we reached the goal
-        if (goal(currentNode.node.child)) {
+        const currentCost = frontier.getPathCost(current);
+        if (goal(frontier.getNode(current))) {
             return new SearchResult<Node>(
                 "success",
-                currentNode.reconstructPath(),
-                currentNode.pathCost,
-                discovered.size());
+                frontier.reconstructPath(current),
+                currentCost,
+                frontier.discovered);
         }
 
-        // We are not at the goal, find the successors
-        const successors: Array<Successor<Node>> = graph.successors(currentNode.node.child);
-
-        // Update successors with shorter pathCost
-        for (const successor of successors) {
-            // Find search node in frontier
-            const searchNode = frontier.get(successor.child);
-            if (searchNode !== undefined && searchNode.pathCost > currentNode.pathCost + successor.cost) {
+        // We are not at the goal, add undiscovered successors and successors with shorter pathCost
+        for (const successor of graph.successors(frontier.getNode(current))) {
+            const pathCost = currentCost + successor.cost;
+            const hash = frontier.hash(successor.child);
+            const searchNode = frontier.get(successor.child, hash);
+            if (searchNode < 0) {
+                frontier.add(successor, pathCost, heuristics(successor.child), current, hash);
+            } else if (!frontier.isExpanded(searchNode) && frontier.getPathCost(searchNode) > pathCost) {
                 // Remark: We cannot update existing items in the queue
                 // Instead we insert a new search node for the existing node
-                frontier.add(new SearchNode<Node>(
-                    currentNode.pathCost + successor.cost,
-                    searchNode.heuristic,
-                    successor,
-                    currentNode));
+                frontier.add(successor, pathCost, frontier.getHeuristic(searchNode), current, hash);
             }
         }
-
-        // Add unvisited successors to visited and frontier
-        const unvisitedSuccessors = successors.filter((value) => !discovered.contains(value.child));
-        for (const successor of unvisitedSuccessors) {
-            discovered.add(successor.child);
-            frontier.add(new SearchNode<Node>(
-                currentNode.pathCost + successor.cost,
-                heuristics(successor.child),
-                successor,
-                currentNode));
-        }
     }
 }
 
 /**
- * Stores additional node information for aStartSearch.
+ * Stores the search nodes, combining a priority queue with a hash table of the best search node
+ * for every discovered node, to allow quick ordered and lookup access to frontier.
+ *
+ * A search node is a number, which indexes typed arrays of its path cost, the estimated cost to goal,
+ * the previous search node and so on, so that millions of them take little memory and garbage collection.
+ * The priority queue is a 4-ary heap, and the hash table uses open addressing, where nodes with the same hash
+ * are compared by the graph. Search nodes replaced by a better one stay in the queue, and are skipped when they
+ * are dequeued.
  */
-class SearchNode<Node> {
-    // Cost of path up to this node
-    public pathCost: number;
+class Frontier<Node> {
+    // The number of nodes that have been added to the frontier
+    public discovered: number = 0;
+
+    // The represented node of each search node, and the action and the cost of the edge that leads to it.
+    // They are kept apart, so that the edges from the graph do not need to be kept
+    private nodes: Node[] = [];
+    private actions: string[] = [];
+    private costs: Float64Array = new Float64Array(1024);
+
+    // Cost of path up to each search node
+    private pathCosts: Float64Array = new Float64Array(1024);
+
+    // Estimated cost to goal from each search node
+    private heuristics: Float64Array = new Float64Array(1024);
 
-    // Estimated cost to goal from this node
-    public heuristic: number;
+    // The previous search node, or -1 for the start. This implicitly saves the entire path
+    private previous: Int32Array = new Int32Array(1024);
 
-    // The represented node
-    public node: Successor<Node>;
+    // Whether the successors of each search node have been added to the frontier
+    private expanded: Uint8Array = new Uint8Array(1024);
 
-    // The previous node. This implicitly saves the entire path
-    public previous: SearchNode<Node> | undefined;
+    // Whether each search node was replaced in the table by a better one for the same node
+    private replaced: Uint8Array = new Uint8Array(1024);
 
-    constructor(path: number, heuristic: number, node: Successor<Node>, previous: SearchNode<Node> | undefined) {
-        this.pathCost = path;
-        this.heuristic = heuristic;
-        this.node = node;
-        this.previous = previous;
+    // Priority queue for quick access to next element, a heap where the children of index i are at 4i+1 to 4i+4.
+    // The costs are kept next to the search nodes, so that ordering them does not need to look them up
+    private heap: Int32Array = new Int32Array(1024);
+    private heapTotals: Float64Array = new Float64Array(1024);
+    private heapPathCosts: Float64Array = new Float64Array(1024);
+    private heapSize: number = 0;
+
+    // Hash table for quick access by node. Every slot takes two positions: the best search node plus one,
+    // or zero for empty slots, and the hash of its node, so that probing does not need to look it up.
+    // The number of slots is a power of two that is kept at least twice the entries
+    private table: Int32Array = new Int32Array(2048);
+
+    constructor(private graph: IGraph<Node>) {}
+
+    /**
+     * Get the hash of a node
+     * @param {Node} node: The node
+     * @returns {number} The hash from the graph, or of the string representation of the node
+     */
+    public hash(node: Node): number {
+        if (this.graph.hashNode) {
+            return this.graph.hashNode(node);
+        }
+        const text = String(node);
+        let hash = 0;
+        for (let i = 0; i < text.length; i++) {
+            hash = (hash * 31 + text.charCodeAt(i)) | 0;
+        }
+        return hash;
     }
 
     /**
-     * The total estimated cost of a path over this node
+     * Add a search node to all internal collections, replacing the search node of the same node in the table
+     * @param {Successor<Node>} successor: The edge that leads to the node
+     * @param {number} pathCost: The cost of the path to the node
+     * @param {number} heuristic: The estimated cost to goal from the node
+     * @param {number} previous: The previous search node, or -1 for the start
+     * @param {number} hash: The hash of the node
      */
-    public totalCost(): number {
-        return this.pathCost + this.heuristic;
+    public add(successor: Successor<Node>, pathCost: number, heuristic: number, previous: number, hash: number) {
+        const searchNode = this.nodes.length;
+        if (searchNode === this.pathCosts.length) {
+            this.costs = grow(this.costs, new Float64Array(searchNode * 2));
+            this.pathCosts = grow(this.pathCosts, new Float64Array(searchNode * 2));
+            this.heuristics = grow(this.heuristics, new Float64Array(searchNode * 2));
+            this.previous = grow(this.previous, new Int32Array(searchNode * 2));
+            this.expanded = grow(this.expanded, new Uint8Array(searchNode * 2));
+            this.replaced = grow(this.replaced, new Uint8Array(searchNode * 2));
+        }
+        this.nodes.push(successor.child);
+        this.actions.push(successor.action);
+        this.costs[searchNode] = successor.cost;
+        this.pathCosts[searchNode] = pathCost;
+        this.heuristics[searchNode] = heuristic;
+        this.previous[searchNode] = previous;
+
+        const slot = this.find(successor.child, hash);
+        if (this.table[slot] === 0) {
+            this.discovered++;
+        } else {
+            this.replaced[this.table[slot] - 1] = 1;
+        }
+        this.table[slot] = searchNode + 1;
+        this.table[slot + 1] = hash;
+        if (this.discovered * 4 > this.table.length) {
+            this.resize();
+        }
+        this.push(searchNode);
+    }
+
+    /**
+     * Get and remove the search node with the lowest estimated cost, and mark it as expanded
+     * @returns {number} The search node, or -1 if the frontier is empty
+     */
+    public dequeue(): number {
+        let result = this.pop();
+        while (result >= 0 && this.replaced[result] === 1) {
+            result = this.pop();
+        }
+        if (result >= 0) {
+            this.expanded[result] = 1;
+        }
+        return result;
+    }
+
+    /**
+     * Get the best search node associated with node, whether it is expanded or not
+     * @param {Node} node: The node that is part of the resulting search node
+     * @param {number} hash: The hash of the node
+     * @returns {number} A search node that contains node, or -1 if it was not discovered
+     */
+    public get(node: Node, hash: number): number {
+        return this.table[this.find(node, hash)] - 1;
+    }
+
+    public getNode(searchNode: number): Node {
+        return this.nodes[searchNode];
+    }
+
+    public getPathCost(searchNode: number): number {
+        return this.pathCosts[searchNode];
+    }
+
+    public getHeuristic(searchNode: number): number {
+        return this.heuristics[searchNode];
+    }
+
+    public isExpanded(searchNode: number): boolean {
+        return this.expanded[searchNode] === 1;
     }
 
     /**
-     * Reconstruct a path from this node by visiting all linked nodes.
+     * Reconstruct a path to a search node by visiting all previous search nodes.
+     * @param {number} searchNode: The last search node of the path
      * @returns {Array<Successor<Node>>} Path from start to search node
      */
-    public reconstructPath(): Array<Successor<Node>> {
+    public reconstructPath(searchNode: number): Array<Successor<Node>> {
         const path: Array<Successor<Node>> = [];
 
         // Iterate over all links and reconstruct list of nodes
-        let current: SearchNode<Node> | undefined = this;
-        do {
-            path.push(current.node);
-            current = current.previous;
-        } while (current !== undefined);
+        // Skip the start node, since it is not expected in the path
+        for (let current = searchNode; this.previous[current] >= 0; current = this.previous[current]) {
+            path.push({action: this.actions[current], child: this.nodes[current], cost: this.costs[current]});
+        }
 
         // Reverse order since this list was built from end to start
-        // Skip the first item, since the start node is not expected in the path
-        return path.reverse().slice(1);
+        return path.reverse();
     }
-}
 
-/**
- * Combines a priority queue with a dictionary, to allow quick ordered and lookup access to frontier
- */
-class Frontier<Node> {
-    // Priority queue for quick access to next element
-    private queue: PriorityQueue<SearchNode<Node>> =
-        new PriorityQueue<SearchNode<Node>>((nodeA: SearchNode<Node>, nodeB: SearchNode<Node>) =>
-            nodeB.totalCost() - nodeA.totalCost());
+    /**
+     * Find the slot of a node in the hash table, by probing the slots after the one of its hash
+     * @returns {number} The position of the slot of the search node of the node, or of the empty slot where it belongs
+     */
+    private find(node: Node, hash: number): number {
+        const mask = this.table.length - 2;
+        let slot = (hash << 1) & mask;
+        let entry = this.table[slot];
+        while (entry !== 0
+               && (this.table[slot + 1] !== hash || this.graph.compareNodes(this.getNode(entry - 1), node) !== 0)) {
+            slot = (slot + 2) & mask;
+            entry = this.table[slot];
+        }
+        return slot;
+    }
 
-    // Dictionary for quick access by node
-    private nodeDictionary: Dictionary<Node, SearchNode<Node>> =
-        new Dictionary<Node, SearchNode<Node>>();
+    private resize(): void {
+        const entries = this.table;
+        this.table = new Int32Array(entries.length * 2);
+        const mask = this.table.length - 2;
+        for (let i = 0; i < entries.length; i += 2) {
+            if (entries[i] !== 0) {
+                // The entries are different nodes, so they only need an empty slot
+                let slot = (entries[i + 1] << 1) & mask;
+                while (this.table[slot] !== 0) {
+                    slot = (slot + 2) & mask;
+                }
+                this.table[slot] = entries[i];
+                this.table[slot + 1] = entries[i + 1];
+            }
+        }
+    }
 
     /**
-     * Add search node to all internal collections
-     * @param {SearchNode<Node>} searchNode: The new item
+     * Add a search node to the heap, by moving it up from the bottom until its parent is not more expensive
      */
-    public add(searchNode: SearchNode<Node>): void {
-        this.queue.add(searchNode);
-        this.nodeDictionary.setValue(searchNode.node.child, searchNode);
+    private push(searchNode: number): void {
+        if (this.heapSize === this.heap.length) {
+            this.heap = grow(this.heap, new Int32Array(this.heapSize * 2));
+            this.heapTotals = grow(this.heapTotals, new Float64Array(this.heapSize * 2));
+            this.heapPathCosts = grow(this.heapPathCosts, new Float64Array(this.heapSize * 2));
+        }
+        const pathCost = this.pathCosts[searchNode];
+        const total = pathCost + this.heuristics[searchNode];
+        let index = this.heapSize++;
+        while (index > 0) {
+            const parent = (index - 1) >> 2;
+            if (!isBefore(total, pathCost, this.heapTotals[parent], this.heapPathCosts[parent])) {
+                break;
+            }
+            this.moveInHeap(parent, index);
+            index = parent;
+        }
+        this.heap[index] = searchNode;
+        this.heapTotals[index] = total;
+        this.heapPathCosts[index] = pathCost;
     }
 
     /**
-     * Get and remove the node with the lowest estimated cost
-     * @returns {SearchNode<Node> | undefined}
+     * Remove the cheapest search node from the heap, by moving the last one down from the top
+     * until its children are not cheaper
+     * @returns {number} The search node, or -1 if the heap is empty
      */
-    public dequeue(): SearchNode<Node> | undefined {
-        const result = this.queue.dequeue();
-        if (result !== undefined) {
-            this.nodeDictionary.remove(result.node.child);
+    private pop(): number {
+        if (this.heapSize === 0) {
+            return -1;
         }
+        const result = this.heap[0];
+        const size = --this.heapSize;
+        const total = this.heapTotals[size];
+        const pathCost = this.heapPathCosts[size];
+        const last = this.heap[size];
+        let index = 0;
+        while (true) {
+            // Find the cheapest child
+            const first = 4 * index + 1;
+            if (first >= size) {
+                break;
+            }
+            let child = first;
+            for (let other = first + 1; other < first + 4 && other < size; other++) {
+                if (isBefore(this.heapTotals[other], this.heapPathCosts[other],
+                             this.heapTotals[child], this.heapPathCosts[child])) {
+                    child = other;
+                }
+            }
+            if (!isBefore(this.heapTotals[child], this.heapPathCosts[child], total, pathCost)) {
+                break;
+            }
+            this.moveInHeap(child, index);
+            index = child;
+        }
+        this.heap[index] = last;
+        this.heapTotals[index] = total;
+        this.heapPathCosts[index] = pathCost;
         return result;
     }
 
-    /**
-     * Get the search node associated with node
-     * @param {Node} node: The node that is part of the resulting search node
-     * @returns {SearchNode<Node> | undefined} A search node that contains node
-     */
-    public get(node: Node): SearchNode<Node> | undefined {
-        return this.nodeDictionary.getValue(node);
+    private moveInHeap(from: number, to: number): void {
+        this.heap[to] = this.heap[from];
+        this.heapTotals[to] = this.heapTotals[from];
+        this.heapPathCosts[to] = this.heapPathCosts[from];
     }
 }
+
+/**
+ * Orders search nodes by their total estimated cost, and equal ones by their path cost,
+ * so that the search continues from the node that is closest to the goal.
+ */
+function isBefore(totalA: number, pathCostA: number, totalB: number, pathCostB: number): boolean {
+    return totalA < totalB || (totalA === totalB && pathCostA > pathCostB);
+}
+
+/**
+ * Copy a typed array into a larger one.
+ * @param values: The array to copy.
+ * @param larger: The new array.
+ * @returns The new array.
+ */
+function grow<T extends Int32Array | Uint8Array | Float64Array>(values: T, larger: T): T {
+    larger.set(values);
+    return larger;
+}
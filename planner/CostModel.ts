@@ -0,0 +1,109 @@
+import {SimpleObject} from "../core/Types";
+
+/*
+ * CostModel
+ *
+ * The costs of the arm actions, used by every search of the planner and by the plan statistics.
+ * Moving the arm one column costs "move", plus "carry" for the size of the object it holds,
+ * and picking up or dropping an object costs "pick" or "drop", plus "handle" for its form.
+ * Sizes and forms that are missing from "carry" and "handle" cost nothing extra.
+ *
+ * A cost model can be loaded from JSON, for example:
+ *   {"move": 1, "pick": 2, "drop": 2, "carry": {"large": 1}, "handle": {"ball": 1}}
+ */
+
+export interface ICostModel {
+    move: number;                        // Moving the arm one column
+    pick: number;                        // Picking up an object
+    drop: number;                        // Dropping an object
+    carry: {[size: string]: number};     // Extra cost of moving one column with an object of a size
+    handle: {[form: string]: number};    // Extra cost of picking up or dropping an object of a form
+}
+
+export const CostPresets: {[name: string]: ICostModel} = {
+    // Every action costs the same, so the cost of a plan is its number of actions
+    unit: {carry: {}, drop: 1, handle: {}, move: 1, pick: 1},
+    // Picking and dropping are slower than moving, and large objects slow the arm down
+    robot: {carry: {large: 1, small: 0.5}, drop: 3, handle: {ball: 1, pyramid: 1}, move: 1, pick: 3},
+};
+
+export const CostSettings: {model: ICostModel} = {
+    model: CostPresets.unit,
+};
+
+/**
+ * Gets the cost of moving the arm one column.
+ * @param  model   The cost model.
+ * @param  carried The object that the arm holds, or undefined if it is empty.
+ * @return         The cost of the movement.
+ */
+export function getMoveCost(model: ICostModel, carried: SimpleObject | undefined): number {
+    return model.move + (carried === undefined ? 0 : model.carry[carried.size as string] || 0);
+}
+
+/**
+ * Gets the cost of picking up an object.
+ * @param  model  The cost model.
+ * @param  object The object to pick up.
+ * @return        The cost of the pick.
+ */
+export function getPickCost(model: ICostModel, object: SimpleObject): number {
+    return model.pick + (model.handle[object.form] || 0);
+}
+
+/**
+ * Gets the cost of dropping an object.
+ * @param  model  The cost model.
+ * @param  object The object to drop.
+ * @return        The cost of the drop.
+ */
+export function getDropCost(model: ICostModel, object: SimpleObject): number {
+    return model.drop + (model.handle[object.form] || 0);
+}
+
+/**
+ * Reads a cost model from JSON. The costs of the actions must be positive, so that every plan has a cost.
+ * @param  json The JSON text of the cost model.
+ * @return      The cost model, where missing costs are taken from the unit model.
+ */
+export function parseCostModel(json: string): ICostModel {
+    const data = JSON.parse(json);
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw new Error("A cost model must be an object");
+    }
+    const model: ICostModel = {
+        carry: {...CostPresets.unit.carry},
+        drop: CostPresets.unit.drop,
+        handle: {...CostPresets.unit.handle},
+        move: CostPresets.unit.move,
+        pick: CostPresets.unit.pick,
+    };
+    for (const key of Object.keys(data)) {
+        switch (key) {
+            case "move":
+            case "pick":
+            case "drop":
+                model[key] = parseCost(key, data[key], false);
+                break;
+            case "carry":
+            case "handle":
+                if (typeof data[key] !== "object" || data[key] === null || Array.isArray(data[key])) {
+                    throw new Error(`The cost "${key}" must be an object of costs`);
+                }
+                for (const name of Object.keys(data[key])) {
+                    model[key][name] = parseCost(`${key}.${name}`, data[key][name], true);
+                }
+                break;
+            default:
+                throw new Error(`Unknown cost "${key}", the costs are: move, pick, drop, carry, handle`);
+        }
+    }
+    return model;
+}
+
+function parseCost(key: string, value: any, extra: boolean): number {
+    if (typeof value !== "number" || !isFinite(value) || value < 0 || (!extra && value === 0)) {
+        throw new Error(`The cost "${key}" must be a ${extra ? "non-negative" : "positive"} number`);
+    }
+    return value;
+}
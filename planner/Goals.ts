@@ -1,8 +1,28 @@
 import {DescribeObjectState} from "../core/Describer";
 import {Conjunction, DNFFormula, Literal, Relation, SimpleObject} from "../core/Types";
 import {aStarSearch} from "./AStarSearch";
+import {CostSettings, getDropCost, getMoveCost, getPickCost, ICostModel} from "./CostModel";
+import {HeuristicSettings} from "./Heuristics";
 import {canPlace, GraphLowLevel, NodeLowLevel} from "./PlannerLowLevel";
 
+/**
+ * The result of evaluating a goal.
+ * @param success True if the goal was fulfilled.
+ * @param status  The status of the low level search, "success" if there was none.
+ * @param cost    The cost of the path.
+ * @param path    The actions of the path, separated by ";".
+ * @param state   The state after the path, undefined if the state did not change.
+ * @param visited The number of nodes visited by the low level search.
+ */
+export interface IEvaluation {
+    success: boolean;
+    status: "success" | "failure" | "timeout";
+    cost: number;
+    path: string;
+    state: NodeLowLevel | undefined;
+    visited: number;
+}
+
 /**
  * Node of the tree describing the problem to be solved. Provides methods for
  * tree search, high level nodes use this for the solution search.
@@ -11,8 +31,7 @@ import {canPlace, GraphLowLevel, NodeLowLevel} from "./PlannerLowLevel";
  */
 export abstract class NodeGoal {
     public children: NodeGoal[] = [];
-    public abstract evaluate: (state: NodeLowLevel) =>
-        {success: boolean, cost: number, path: string, state: NodeLowLevel | undefined};
+    public abstract evaluate: (state: NodeLowLevel) => IEvaluation;
     public abstract isFulfilled: (state: NodeLowLevel) => boolean;
     // If a node is a precondition, its children will always be evaluated next
     public precondition: boolean = true;
@@ -47,12 +66,12 @@ export abstract class NodeGoal {
 
     /**
      * Find way to satisfy the current goal by running a low level search.
+     * The estimates of the goals are not admissible, so they are only used in the weighted mode.
      * @param  state The current state used for calculating a heuristic
      *               and checking if the goal is fulfilled.
      * @return       The result of the low level search.
      */
-    public evaluateLowLevel(state: NodeLowLevel)
-        : {success: boolean, cost: number, path: string, state: NodeLowLevel | undefined} {
+    public evaluateLowLevel(state: NodeLowLevel): IEvaluation {
         if (this.isFulfilled(state)) {
             return this.evaluateSkip(state);
         }
@@ -60,26 +79,29 @@ export abstract class NodeGoal {
         const search = aStarSearch(new GraphLowLevel(),
             state,
             (node) => this.isFulfilled(node),
-            (node) => 0.5 * this.getHeuristic(node) + 0.5 * this.getHeuristicUp(node),
+            HeuristicSettings.mode === "weighted"
+                ? (node) => 0.5 * this.getHeuristic(node) + 0.5 * this.getHeuristicUp(node)
+                : (node) => 0,
             10);
         const actions = search.path.map((action) => action.action);
         actions.unshift(this.explain("", state));
 
         return {
             cost: search.cost, path: actions.join(";"),
+            state: search.path.length > 0 ? search.path[search.path.length - 1].child : undefined,
+            status: search.status,
             success: search.status === "success",
-            state: search.path.length > 0 ? search.path[search.path.length - 1].child : undefined
+            visited: search.visited,
         };
     }
 
     /**
-     * Skip over the current node instead of evaluating it.
+     * Skip over the current node instead of evaluating it. Skipping takes no actions, so it costs nothing.
      * @param  state Required by interface
      * @return       Required by interface
      */
-    public evaluateSkip(state: NodeLowLevel)
-        : {success: boolean, cost: number, path: string, state: NodeLowLevel | undefined} {
-        return {success: true, cost: 1, path: "", state: undefined};
+    public evaluateSkip(state: NodeLowLevel): IEvaluation {
+        return {success: true, status: "success", cost: 0, path: "", state: undefined, visited: 0};
     }
 
     /**
@@ -115,6 +137,20 @@ export abstract class NodeGoal {
         return result;
     }
 
+    /**
+     * Checks if the arms hold objects that the conjunction of this goal does not ask to hold,
+     * and that they did not hold at the start.
+     * @param  state The state to check.
+     * @return       True if an arm must put an object down.
+     */
+    public holdsStrayItems(state: NodeLowLevel): boolean {
+        let node: NodeGoal | undefined = this;
+        while (node !== undefined && !(node instanceof ConjunctionGoal)) {
+            node = node.heuristicParent;
+        }
+        return node !== undefined && state.getStrayItems((node as ConjunctionGoal).conjunction).length > 0;
+    }
+
     /**
      * Get the estimated cost to fulfill this goal.
      * @param  state The state used to estimated the goal.
@@ -226,7 +262,8 @@ export class DnfGoal extends NodeGoal {
 export class ConjunctionGoal extends CompositeGoal {
     public constructor(public conjunction: Conjunction, heuristicParent: NodeGoal, descriptionParent: NodeGoal) {
         super(heuristicParent, descriptionParent);
-        this.children = conjunction.literals.map((literal) => this.create(literal));
+        this.children = conjunction.literals.map((literal) => this.create(literal))
+            .concat([new PutDownGoal(conjunction, this, this)]);
     }
 
     public explain(previous: string, state: NodeLowLevel): string {
@@ -240,11 +277,16 @@ export class ConjunctionGoal extends CompositeGoal {
      */
     private create(literal: Literal): NodeGoal {
         if (literal.relation === "holding") {
-            return new PickUpGoal(literal.args[0], this, this);
+            return literal.polarity
+                ? new PickUpGoal(literal.args[0], this, this)
+                : new MoveAwayGoal(literal.args[0], literal.relation, undefined, this, this);
         }
         if (literal.args.length !== 2) {
             throw new Error("Unexpected number of arguments");
         }
+        if (!literal.polarity) {
+            return new MoveAwayGoal(literal.args[0], literal.relation, literal.args[1], this, this);
+        }
         switch (literal.relation) {
             case "leftof":
                 return new MoveBidirectionalGoal(literal.args[0], literal.args[1], "leftof", "rightof", this, this);
@@ -252,13 +294,14 @@ export class ConjunctionGoal extends CompositeGoal {
                 return new MoveBidirectionalGoal(literal.args[0], literal.args[1], "rightof", "leftof", this, this);
             case "beside":
                 return new MoveBidirectionalGoal(literal.args[0], literal.args[1], "beside", "beside", this, this);
+            case "incolumn":
+                return new MoveToStackGoal(literal.args[0], literal.args[1], "incolumn", this, this);
             case "inside":
             /* falls through */
             case "ontop":
                 return new MoveOnTopGoal(literal.args[0], literal.args[1], this, this);
             case "under":
-                literal.args = literal.args.reverse();
-            /* falls through */
+                return new MoveAboveGoal(literal.args[1], literal.args[0], this, this);
             case "above":
                 return new MoveAboveGoal(literal.args[0], literal.args[1], this, this);
             default:
@@ -343,17 +386,18 @@ class MoveToStackGoal extends CompositeGoal {
      */
     private stackCheck: { [relation: string]: (goal: string) => (stackId: number, state: NodeLowLevel) => boolean } = {
         beside: (goal: string) => (stackId: number, state: NodeLowLevel) => {
-            const stacks = state.stacks.filter((stack) => stack.indexOf(goal) >= 0);
-            return stacks.length === 0 ? false : (state.stacks.indexOf(stacks[0]) - 1 === stackId)
-                || (state.stacks.indexOf(stacks[0]) + 1 === stackId);
+            const stacks = state.getStacks().filter((stack) => stack.indexOf(goal) >= 0);
+            return stacks.length === 0 ? false : (state.getStacks().indexOf(stacks[0]) - 1 === stackId)
+                || (state.getStacks().indexOf(stacks[0]) + 1 === stackId);
         },
+        incolumn: (goal: string) => (stackId: number, state: NodeLowLevel) => stackId === Number(goal),
         leftof: (goal: string) => (stackId: number, state: NodeLowLevel) => {
-            const stacks = state.stacks.filter((stack) => stack.indexOf(goal) >= 0);
-            return stacks.length === 0 ? false : state.stacks.indexOf(stacks[0]) > stackId;
+            const stacks = state.getStacks().filter((stack) => stack.indexOf(goal) >= 0);
+            return stacks.length === 0 ? false : state.getStacks().indexOf(stacks[0]) > stackId;
         },
         rightof: (goal: string) => (stackId: number, state: NodeLowLevel) => {
-            const stacks = state.stacks.filter((stack) => stack.indexOf(goal) >= 0);
-            return stacks.length === 0 ? false : state.stacks.indexOf(stacks[0]) < stackId;
+            const stacks = state.getStacks().filter((stack) => stack.indexOf(goal) >= 0);
+            return stacks.length === 0 ? false : state.getStacks().indexOf(stacks[0]) < stackId;
         },
     };
 
@@ -372,8 +416,10 @@ class MoveToStackGoal extends CompositeGoal {
     }
 
     public explain(previous: string, state: NodeLowLevel): string {
-        const appendix =
-            ` move ${DescribeObjectState(this.item, state)} ${this.relation} ${DescribeObjectState(this.goal, state)}`;
+        const target = this.relation === "incolumn"
+            ? `to column ${Number(this.goal) + 1}`
+            : `${this.relation} ${DescribeObjectState(this.goal, state)}`;
+        const appendix = ` move ${DescribeObjectState(this.item, state)} ${target}`;
         return this.descriptionParent!.explain(previous ? `${previous} to ${appendix}` : appendix, state);
     }
 }
@@ -436,6 +482,41 @@ class MoveAboveGoal extends CompositeGoal {
     }
 }
 
+/**
+ * Makes sure that an item is not in a relation with a goal, by picking the item up
+ * and putting it down somewhere else.
+ * @param item              The item we want to move away.
+ * @param relation          The relation that should not hold.
+ * @param goal              The goal the item should not be in relation with.
+ * @param heuristicParent   Parent whose heuristic should be taken into consideration.
+ * @param descriptionParent Parent to ask for descriptions of the goal
+ */
+class MoveAwayGoal extends CompositeGoal {
+    public constructor(public item: string,
+                       public relation: Relation,
+                       public goal: string | undefined,
+                       heuristicParent: NodeGoal,
+                       descriptionParent: NodeGoal) {
+        super(heuristicParent, descriptionParent);
+        this.precondition = true;
+        if (relation !== "holding") {
+            this.appendChild((parent) => new PickUpGoal(item, parent, this));
+        }
+        const avoidRelationGoal =
+            this.appendChild((parent) => new AvoidRelationGoal(item, relation, goal, parent, this));
+        this.isFulfilled = avoidRelationGoal.isFulfilled;
+    }
+
+    public explain(previous: string, state: NodeLowLevel): string {
+        const appendix = this.goal === undefined
+            ? ` put down ${DescribeObjectState(this.item, state)}`
+            : this.relation === "incolumn"
+            ? ` move ${DescribeObjectState(this.item, state)} off column ${Number(this.goal) + 1}`
+            : ` move ${DescribeObjectState(this.item, state)} away from ${DescribeObjectState(this.goal, state)}`;
+        return this.descriptionParent!.explain(previous ? `${previous} to ${appendix}` : appendix, state);
+    }
+}
+
 /////////////////
 // Basic Goals //
 /////////////////
@@ -453,11 +534,11 @@ export class HoldingGoal extends NodeGoal {
         super(heuristicParent, descriptionParent);
     }
 
-    public isFulfilled = (state: NodeLowLevel) => state.holding === this.item;
+    public isFulfilled = (state: NodeLowLevel) => state.isHolding(this.item);
 
     /**
-     * Gets the distance between the current position of the arm and the
-     * position of the item.
+     * Gets the cost of moving the closest arm to the item and picking it up,
+     * after freeing an arm if all of them hold something.
      * @param  state The state to determine the heuristic for.
      * @return       Returns the estimated cost.
      */
@@ -465,15 +546,13 @@ export class HoldingGoal extends NodeGoal {
         if (this.isFulfilled(state)) {
             return 0;
         }
-        const stacks = state.stacks.filter((stack) => stack.indexOf(this.item) >= 0);
+        const stacks = state.getStacks().filter((stack) => stack.indexOf(this.item) >= 0);
         if (stacks.length === 0) {
             return 0;
         }
-        let result = Math.abs(state.arm - state.stacks.indexOf(stacks[0]));
-        if (state.holding !== undefined) {
-            result++;
-        }
-        return result;
+        const costs = CostSettings.model;
+        return getArmDistance(state.getStacks().indexOf(stacks[0]), state) * costs.move
+            + getPickCost(costs, state.world.objects[this.item]) + getFreeArmCost(state, costs);
     }
 
     public explain(previous: string, state: NodeLowLevel): string {
@@ -481,6 +560,38 @@ export class HoldingGoal extends NodeGoal {
     }
 }
 
+/**
+ * Makes sure that the arms do not keep objects that the conjunction does not ask to hold.
+ * @param conjunction       The conjunction, whose holding literals name the objects that may be held.
+ * @param heuristicParent   Parent whose heuristic should be taken into consideration.
+ * @param descriptionParent Parent to ask for descriptions of the goal
+ */
+export class PutDownGoal extends NodeGoal {
+    public evaluate = this.evaluateLowLevel;
+
+    public constructor(public conjunction: Conjunction, heuristicParent: NodeGoal, descriptionParent: NodeGoal) {
+        super(heuristicParent, descriptionParent);
+    }
+
+    public isFulfilled = (state: NodeLowLevel) => state.getStrayItems(this.conjunction).length === 0;
+
+    /**
+     * Gets the cost of dropping the objects.
+     * @param  state The state to determine the heuristic for.
+     * @return       Returns the estimated cost.
+     */
+    public getHeuristic(state: NodeLowLevel): number {
+        return state.getStrayItems(this.conjunction)
+            .reduce((sum, item) => sum + getDropCost(CostSettings.model, state.world.objects[item]), 0);
+    }
+
+    public explain(previous: string, state: NodeLowLevel): string {
+        const items = state.getStrayItems(this.conjunction);
+        const appendix = ` put down ${items.map((item) => DescribeObjectState(item, state)).join(" and ")}`;
+        return this.descriptionParent!.explain(previous ? `${previous} to ${appendix}` : appendix, state);
+    }
+}
+
 /**
  * Checks if the item is on the goal stack.
  * @param item             The item we want to check.
@@ -503,15 +614,15 @@ export class OnStackGoal extends NodeGoal {
      * @returns      True if the item is on a valid stack, false otherwise
      */
     public isFulfilled = (state: NodeLowLevel) => {
-        const stacks = state.stacks.filter((stack) => stack.indexOf(this.item) >= 0);
+        const stacks = state.getStacks().filter((stack) => stack.indexOf(this.item) >= 0);
         if (stacks.length === 0) {
             return false;
         }
-        return this.stackValid(state.stacks.indexOf(stacks[0]), state);
+        return this.stackValid(state.getStacks().indexOf(stacks[0]), state);
     }
 
     /**
-     * Find the distance to the closest stack that is a goal stack.
+     * Gets the cost of carrying the item to the closest stack that is a goal stack, and dropping it.
      * @param  state The state to determine the heuristic for.
      * @return       Returns the estimated cost.
      */
@@ -519,12 +630,13 @@ export class OnStackGoal extends NodeGoal {
         if (this.isFulfilled(state)) {
             return 0;
         }
-        const stacks = state.stacks.filter((stack) => stack.indexOf(this.item) >= 0);
-        const itemId = stacks.length === 0 ? state.arm : state.stacks.indexOf(stacks[0]);
-        const distances = state.stacks.map((stack) => state.stacks.indexOf(stack))
+        const costs = CostSettings.model;
+        const object = state.world.objects[this.item];
+        const itemId = getColumn(this.item, state);
+        const distances = state.getStacks().map((stack) => state.getStacks().indexOf(stack))
             .filter((stackId) => this.stackValid(stackId, state))
-            .map((stackId) => stackId - itemId);
-        return Math.min.apply(Math, distances);
+            .map((stackId) => Math.abs(stackId - itemId));
+        return Math.min.apply(Math, distances) * getMoveCost(costs, object) + getDropCost(costs, object);
     }
 
     public explain(previous: string, state: NodeLowLevel): string {
@@ -558,7 +670,7 @@ export class WidenStackGoal extends NodeGoal {
         if (this.goal === "floor") {
             return true;
         }
-        const stacks = state.stacks.filter((stack) => stack.indexOf(this.goal) >= 0);
+        const stacks = state.getStacks().filter((stack) => stack.indexOf(this.goal) >= 0);
         if (stacks.length === 0) {
             return false;
         }
@@ -581,7 +693,7 @@ export class WidenStackGoal extends NodeGoal {
         if (this.isFulfilled(state)) {
             return 0;
         }
-        const stacks = state.stacks.filter((stack) => stack.indexOf(this.goal) >= 0);
+        const stacks = state.getStacks().filter((stack) => stack.indexOf(this.goal) >= 0);
         if (stacks.length === 0) {
             return 0;
         }
@@ -645,18 +757,18 @@ export class SameStackGoal extends NodeGoal {
      * @returns      True if the item is in a specific relation with goal, false otherwise
      */
     public isFulfilled = (state: NodeLowLevel) => {
-        const stacksA = state.stacks.filter((stack) => stack.indexOf(this.item) >= 0);
+        const stacksA = state.getStacks().filter((stack) => stack.indexOf(this.item) >= 0);
         if (stacksA.length === 0) {
             return false;
         }
-        const indexA = state.stacks.indexOf(stacksA[0]);
+        const indexA = state.getStacks().indexOf(stacksA[0]);
         const stackIndexA = stacksA[0].indexOf(this.item);
         if (this.goal !== "floor") {
-            const stacksB = state.stacks.filter((stack) => stack.indexOf(this.goal) >= 0);
+            const stacksB = state.getStacks().filter((stack) => stack.indexOf(this.goal) >= 0);
             if (stacksB.length === 0) {
                 return false;
             }
-            const indexB = state.stacks.indexOf(stacksB[0]);
+            const indexB = state.getStacks().indexOf(stacksB[0]);
             if (indexA !== indexB) {
                 return false;
             }
@@ -683,7 +795,7 @@ export class SameStackGoal extends NodeGoal {
     }
 
     /**
-     * Gets the distance between the item and the goal.
+     * Gets the cost of carrying the item to the stack of the goal.
      * @param  state The state to determine the heuristic for.
      * @return       Returns the estimated cost.
      */
@@ -691,13 +803,11 @@ export class SameStackGoal extends NodeGoal {
         if (this.isFulfilled(state)) {
             return 0;
         }
-        const stacksA = state.stacks.filter((stack) => stack.indexOf(this.item) >= 0);
-        const stacksB = state.stacks.filter((stack) => stack.indexOf(this.goal) >= 0);
-        if (stacksA.length === 0 || stacksB.length === 0) {
-            const stackID = stacksA.length === 0 ? state.stacks.indexOf(stacksB[0]) : state.stacks.indexOf(stacksA[0]);
-            return Math.abs(stackID - state.arm);
+        if (this.goal === "floor") {
+            return 0;
         }
-        return Math.abs(state.stacks.indexOf(stacksA[0]) - state.stacks.indexOf(stacksB[0]));
+        const distance = Math.abs(getColumn(this.item, state) - getColumn(this.goal, state));
+        return distance * getMoveCost(CostSettings.model, state.world.objects[this.item]);
     }
 
     public explain(previous: string, state: NodeLowLevel): string {
@@ -719,15 +829,18 @@ export class ClearStackGoal extends NodeGoal {
     }
 
     /**
-     * Check if the item is free.
+     * Check if the item is free, and the items that were above it are put down.
      * @param  state The state to check against.
      * @returns      True if the item is free, false otherwise
      */
     public isFulfilled = (state: NodeLowLevel) => {
+        if (this.holdsStrayItems(state)) {
+            return false;
+        }
         if (this.item === "floor") {
-            return state.world.stacks.some((stack) => stack.length === 0);
+            return state.getStacks().some((stack) => stack.length === 0);
         }
-        const stacks = state.stacks.filter((stack) => stack.indexOf(this.item) >= 0);
+        const stacks = state.getStacks().filter((stack) => stack.indexOf(this.item) >= 0);
         if (stacks.length === 0) {
             return false;
         }
@@ -735,7 +848,7 @@ export class ClearStackGoal extends NodeGoal {
     }
 
     /**
-     * Count the number of items above item.
+     * Gets the cost of moving the closest arm to the item and moving the items above it away.
      * @param  state The state to determine the heuristic for.
      * @return       Returns the estimated cost.
      */
@@ -743,26 +856,28 @@ export class ClearStackGoal extends NodeGoal {
         if (this.isFulfilled(state)) {
             return 0;
         }
-        let result = 0;
+        const costs = CostSettings.model;
+        const stacks = state.getStacks();
+        let column: number;
+        let above: string[];
         if (this.item === "floor") {
-            const minFloor = Math.min.apply(Math, state.world.stacks.map((stack) => stack.length));
-            const minDistanceFloor = Math.min.apply(Math, state.world.stacks
-                .filter((stack) => stack.length === minFloor)
-                .map((stack) => Math.abs(state.world.stacks.indexOf(stack) - state.arm)));
-            result += minDistanceFloor;
-            result += minFloor;
+            const minFloor = Math.min.apply(Math, stacks.map((stack) => stack.length));
+            const columns = stacks.map((stack, stackId) => stackId)
+                .filter((stackId) => stacks[stackId].length === minFloor);
+            column = columns.reduce((closest, stackId) =>
+                getArmDistance(stackId, state) < getArmDistance(closest, state) ? stackId : closest);
+            above = stacks[column];
         } else {
-            const stacks = state.stacks.filter((stack) => stack.indexOf(this.item) >= 0);
-            if (stacks.length === 0) {
+            const stacksA = stacks.filter((stack) => stack.indexOf(this.item) >= 0);
+            if (stacksA.length === 0) {
                 return 0;
             }
-            result += Math.abs(state.arm - state.stacks.indexOf(stacks[0]));
-            result += (stacks[0].length - 1 - stacks[0].indexOf(this.item));
+            column = stacks.indexOf(stacksA[0]);
+            above = stacksA[0].slice(stacksA[0].indexOf(this.item) + 1);
         }
-        if (state.holding !== undefined) {
-            result++;
-        }
-        return result;
+        return getArmDistance(column, state) * costs.move + getFreeArmCost(state, costs)
+            + above.reduce((sum, name) => sum + getPickCost(costs, state.world.objects[name])
+                + getDropCost(costs, state.world.objects[name]), 0);
     }
 
     public explain(previous: string, state: NodeLowLevel): string {
@@ -789,18 +904,21 @@ export class ClearOnStackGoal extends NodeGoal {
     }
 
     /**
-     * Checks if item can be placed ontop of a goal stack.
+     * Checks if item can be placed ontop of a goal stack, and the items that were in the way are put down.
      * @param  state The state to check against.
      * @returns      True if the item can be placed above a goal stack, false otherwise
      */
     public isFulfilled = (state: NodeLowLevel) => {
-        const stacks = state.stacks.map((stack) => state.stacks.indexOf(stack))
+        if (this.holdsStrayItems(state)) {
+            return false;
+        }
+        const stacks = state.getStacks().map((stack) => state.getStacks().indexOf(stack))
             .filter((stackId) => this.stackValid(stackId, state) && this.isClear(stackId, state));
         return stacks.length > 0;
     }
 
     /**
-     * Finds the distance to closest stack that item can be placed on.
+     * Finds the cost of clearing the closest stack that item can be placed on.
      * @param  state The state to determine the heuristic for.
      * @return       Returns the estimated cost.
      */
@@ -808,20 +926,23 @@ export class ClearOnStackGoal extends NodeGoal {
         if (this.isFulfilled(state)) {
             return 0;
         }
-        const stacks = state.stacks.map((stack) => state.stacks.indexOf(stack))
+        const costs = CostSettings.model;
+        const objects = state.world.objects;
+        const stacks = state.getStacks().map((stack) => state.getStacks().indexOf(stack))
             .filter((stackId) => this.stackValid(stackId, state));
-        const objectA = state.world.objects[this.item];
-        const stacksA = state.stacks.filter((stack) => state.stacks.indexOf(stack) >= 0);
-        const indexA = stacksA.length === 0 ? state.arm : state.stacks.indexOf(stacksA[0]);
+        const objectA = objects[this.item];
+        const indexA = getColumn(this.item, state);
         const results = [];
         for (const stackId of stacks) {
-            const stack = state.stacks[stackId];
+            const stack = state.getStacks()[stackId];
+            let clearing = 0;
             for (let i = 0; i <= stack.length; i++) {
-                const objectB = state.world.objects[stack[stack.length - 1 - i]];
+                const objectB = objects[stack[stack.length - 1 - i]];
                 if (canPlace(objectA, objectB)) {
-                    results.push(i + Math.abs(indexA - stackId));
+                    results.push(clearing + Math.abs(indexA - stackId) * costs.move);
                     break;
                 }
+                clearing += getPickCost(costs, objectB) + getDropCost(costs, objectB);
             }
         }
         return Math.min.apply(Math, results);
@@ -839,7 +960,7 @@ export class ClearOnStackGoal extends NodeGoal {
      * @returns       True if the stack is empty or can support the item, false otherwise
      */
     private isClear(stackId: number, state: NodeLowLevel): boolean {
-        const dropStack = state.stacks[stackId];
+        const dropStack = state.getStacks()[stackId];
         if (dropStack.length === 0) {
             return true;
         }
@@ -848,3 +969,87 @@ export class ClearOnStackGoal extends NodeGoal {
         return canPlace(objectA, objectB);
     }
 }
+
+/**
+ * Makes sure that an item is put down somewhere, where it is not in a relation with a goal.
+ * @param item              The item that should not be in relation with the goal.
+ * @param relation          The relation that should not hold.
+ * @param goal              The goal the item should not be in relation with.
+ * @param heuristicParent   Parent whose heuristic should be taken into consideration.
+ * @param descriptionParent Parent to ask for descriptions of the goal
+ */
+export class AvoidRelationGoal extends NodeGoal {
+    public evaluate = this.evaluateLowLevel;
+
+    public constructor(public item: string,
+                       public relation: Relation,
+                       public goal: string | undefined,
+                       heuristicParent: NodeGoal,
+                       descriptionParent: NodeGoal) {
+        super(heuristicParent, descriptionParent);
+    }
+
+    /**
+     * Checks if the item has been put down, without being in relation with the goal.
+     * @param  state The state to check against.
+     * @returns      True if the relation does not hold, false otherwise
+     */
+    public isFulfilled = (state: NodeLowLevel) =>
+        !state.isHolding(this.item) && !state.holdsRelation(this.item, this.relation, this.goal)
+
+    /**
+     * Estimates the cost of putting the item down elsewhere.
+     * @param  state The state to determine the heuristic for.
+     * @return       Returns the estimated cost.
+     */
+    public getHeuristic(state: NodeLowLevel): number {
+        if (this.isFulfilled(state)) {
+            return 0;
+        }
+        // Move at least one stack over and drop the item, picking it up first if needed
+        const costs = CostSettings.model;
+        const object = state.world.objects[this.item];
+        return (state.isHolding(this.item) ? 0 : getPickCost(costs, object))
+            + getMoveCost(costs, object) + getDropCost(costs, object);
+    }
+
+    public explain(previous: string, state: NodeLowLevel): string {
+        return this.descriptionParent!.explain(previous, state);
+    }
+}
+
+/**
+ * Finds the column of an item, in a stack or in the arm holding it.
+ * @param  item  The item to find.
+ * @param  state The state to search.
+ * @return       The column, or the column of the first arm if the item is nowhere.
+ */
+function getColumn(item: string, state: NodeLowLevel): number {
+    const stacks = state.getStacks().filter((stack) => stack.indexOf(item) >= 0);
+    if (stacks.length > 0) {
+        return state.getStacks().indexOf(stacks[0]);
+    }
+    const holding = state.getArms().filter((arm) => arm.holding === item);
+    return holding.length > 0 ? holding[0].arm : state.arm;
+}
+
+/**
+ * Gets the distance from the closest arm to a column.
+ * @param  column The column.
+ * @param  state  The state with the arms.
+ * @return        The number of columns the closest arm must move.
+ */
+function getArmDistance(column: number, state: NodeLowLevel): number {
+    return Math.min.apply(Math, state.getArms().map((arm) => Math.abs(arm.arm - column)));
+}
+
+/**
+ * Gets the cost of freeing an arm to pick something up.
+ * @param  state The state with the arms.
+ * @param  costs The costs of the arm actions.
+ * @return       The cheapest drop of a held object, or nothing if an arm is empty.
+ */
+function getFreeArmCost(state: NodeLowLevel, costs: ICostModel): number {
+    return Math.min.apply(Math, state.getArms().map((arm) =>
+        arm.holding === null ? 0 : getDropCost(costs, state.world.objects[arm.holding])));
+}
@@ -21,6 +21,8 @@ export class Successor<Node> {
 export interface IGraph<Node> {
     compareNodes: CompareFunction<Node>;
     successors(node: Node): Array<Successor<Node>>;
+    // Optional hash of a node, equal nodes must have the same hash. Without it, the string of a node is hashed
+    hashNode?(node: Node): number;
 }
 
 /**
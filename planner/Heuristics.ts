@@ -0,0 +1,202 @@
+import {Conjunction, DNFFormula, Literal} from "../core/Types";
+import {CostSettings, getDropCost, getMoveCost, getPickCost, ICostModel} from "./CostModel";
+import {NodeLowLevel} from "./PlannerLowLevel";
+
+/*
+ * Heuristics
+ *
+ * Lower bounds on the cost of the arm actions needed to make literals true.
+ * Every bound only counts actions that any plan must perform, at their lowest cost, so the bounds are admissible:
+ * - the objects above an object must each be picked up and dropped before it can be picked up,
+ * - an object that is not where it should be must be picked up and dropped,
+ * - a held object must be dropped before anything else can be picked up,
+ * - the arm must travel to an object to pick it up, and then to a column it must be dropped in.
+ * The columns of objects that other objects should be moved to are not used, since they can move too.
+ * A conjunction costs at least as much as its most expensive literal,
+ * and a disjunction at least as much as its cheapest conjunction.
+ * With several arms, the searches move one arm at a time, so the bounds are on the total cost of all arms,
+ * and any arm can do the work.
+ */
+
+/**
+ * How the planners estimate the remaining cost.
+ * "admissible": Admissible heuristics only, so that the plans are optimal for the goals the planner tries.
+ * "weighted":   Weighted and inadmissible heuristics, which find longer plans faster.
+ */
+export type HeuristicMode = "admissible" | "weighted";
+
+export const HeuristicSettings: {mode: HeuristicMode, weight: number} = {
+    mode: "weighted",
+    weight: 2,  // The factor of the lower bounds in the weighted mode
+};
+
+/**
+ * Estimates the cost of fulfilling a formula.
+ * @param  formula The formula to fulfill.
+ * @param  state   The state to start from.
+ * @param  costs   The costs of the arm actions.
+ * @return         A lower bound on the cost.
+ */
+export function estimateFormula(formula: DNFFormula,
+                                state: NodeLowLevel,
+                                costs: ICostModel = CostSettings.model): number {
+    return Math.min.apply(Math, formula.conjuncts.map((conjunction) => estimateConjunction(conjunction, state, costs)));
+}
+
+/**
+ * Estimates the cost of fulfilling a conjunction.
+ * @param  conjunction The conjunction to fulfill.
+ * @param  state       The state to start from.
+ * @param  costs       The costs of the arm actions.
+ * @return             A lower bound on the cost.
+ */
+export function estimateConjunction(conjunction: Conjunction,
+                                    state: NodeLowLevel,
+                                    costs: ICostModel = CostSettings.model): number {
+    return Math.max.apply(Math, [0].concat(conjunction.literals.map((literal) =>
+        estimateLiteral(literal, state, costs))));
+}
+
+/**
+ * Estimates the cost of making a literal true.
+ * @param  literal The literal to make true.
+ * @param  state   The state to start from.
+ * @param  costs   The costs of the arm actions.
+ * @return         A lower bound on the cost.
+ */
+export function estimateLiteral(literal: Literal, state: NodeLowLevel, costs: ICostModel = CostSettings.model): number {
+    const [item, goal] = literal.args;
+    const objects = state.world.objects;
+    const holds = state.holdsRelation(item, literal.relation, goal);
+    if (!literal.polarity) {
+        // A held object must be dropped, and picking up either object breaks any other relation
+        if (state.isHolding(item)) {
+            return getDropCost(costs, objects[item]);
+        }
+        if (!holds) {
+            return 0;
+        }
+        return goal in objects
+            ? Math.min(getPickCost(costs, objects[item]), getPickCost(costs, objects[goal]))
+            : getPickCost(costs, objects[item]);
+    }
+    if (holds) {
+        return 0;
+    }
+
+    switch (literal.relation) {
+        case "holding":
+            return estimatePickUp(item, state, costs);
+        case "incolumn":
+            return estimateMove(item, Number(goal), state, costs);
+        case "inside":
+        case "ontop":
+            return estimateMoveOnTop(item, goal, state, costs);
+        case "above":
+            return estimateMove(item, undefined, state, costs);
+        case "under":
+            // Nothing can be put below an object, so the goal must be moved
+            return estimateMove(goal, undefined, state, costs);
+        default:
+            // Either object can be moved to make a relation between columns true
+            return Math.min(estimateMove(item, undefined, state, costs), estimateMove(goal, undefined, state, costs));
+    }
+}
+
+/**
+ * Estimates the cost of picking up an item.
+ * @param  item  The item to pick up.
+ * @param  state The state to start from.
+ * @param  costs The costs of the arm actions.
+ * @return       A lower bound on the cost.
+ */
+function estimatePickUp(item: string, state: NodeLowLevel, costs: ICostModel): number {
+    if (state.isHolding(item)) {
+        return 0;
+    }
+    const objects = state.world.objects;
+    const position = findPosition(item, state);
+    const arms = state.getArms();
+
+    // An arm must be empty and go to the item, the closest arm does not have to be the empty one
+    const drop = Math.min.apply(Math, arms.map((arm) =>
+        arm.holding === null ? 0 : getDropCost(costs, objects[arm.holding])));
+    const travel = Math.min.apply(Math, arms.map((arm) => Math.abs(arm.arm - position.column!)));
+    return drop + travel * costs.move
+        + estimateMoveAway(position.above, state, costs) + getPickCost(costs, objects[item]);
+}
+
+/**
+ * Estimates the cost of moving an item to a column.
+ * @param  item   The item to move.
+ * @param  column The column to drop it in, or undefined if any column will do.
+ * @param  state  The state to start from.
+ * @param  costs  The costs of the arm actions.
+ * @return        A lower bound on the cost.
+ */
+function estimateMove(item: string, column: number | undefined, state: NodeLowLevel, costs: ICostModel): number {
+    const object = state.world.objects[item];
+    const position = findPosition(item, state);
+    const from = position.column !== undefined ? position.column
+        : state.getArms().filter((arm) => arm.holding === item)[0].arm;
+    const travel = column === undefined ? 0 : Math.abs(from - column);
+    return estimatePickUp(item, state, costs) + travel * getMoveCost(costs, object) + getDropCost(costs, object);
+}
+
+/**
+ * Estimates the cost of putting an item directly on top of or inside a goal,
+ * which also requires the objects above the goal to be moved away.
+ * @param  item  The item to move.
+ * @param  goal  The object to put it on.
+ * @param  state The state to start from.
+ * @param  costs The costs of the arm actions.
+ * @return       A lower bound on the cost.
+ */
+function estimateMoveOnTop(item: string, goal: string, state: NodeLowLevel, costs: ICostModel): number {
+    if (goal === "floor") {
+        return estimateMove(item, undefined, state, costs);
+    }
+    const itemPosition = findPosition(item, state);
+    const goalPosition = findPosition(goal, state);
+    if (goalPosition.column === undefined) {
+        return estimateMove(item, undefined, state, costs);
+    }
+
+    // The objects above the item are already counted when it is picked up
+    let uncovered = goalPosition.above;
+    if (itemPosition.column === goalPosition.column) {
+        uncovered = state.getStacks()[goalPosition.column].slice(goalPosition.height + 1, itemPosition.height);
+    }
+    return estimateMove(item, undefined, state, costs) + estimateMoveAway(uncovered, state, costs);
+}
+
+/**
+ * Estimates the cost of moving objects out of the way, each of them must be picked up and dropped.
+ * @param  names The names of the objects.
+ * @param  state The state to start from.
+ * @param  costs The costs of the arm actions.
+ * @return       A lower bound on the cost.
+ */
+function estimateMoveAway(names: string[], state: NodeLowLevel, costs: ICostModel): number {
+    return names.reduce((sum, name) => sum + getPickCost(costs, state.world.objects[name])
+        + getDropCost(costs, state.world.objects[name]), 0);
+}
+
+/**
+ * Finds where an object is.
+ * @param  name  The name of the object.
+ * @param  state The state to search.
+ * @return       The column and height of the object and the objects above it,
+ *               the column is undefined if the object is held.
+ */
+function findPosition(name: string, state: NodeLowLevel)
+    : {column: number | undefined, height: number, above: string[]} {
+    const stacks = state.getStacks();
+    for (let column = 0; column < stacks.length; column++) {
+        const height = stacks[column].indexOf(name);
+        if (height >= 0) {
+            return {above: stacks[column].slice(height + 1), column, height};
+        }
+    }
+    return {above: [], column: undefined, height: 0};
+}
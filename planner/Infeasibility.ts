@@ -0,0 +1,173 @@
+import {DescribeObjectState} from "../core/Describer";
+import {DNFFormula, Literal} from "../core/Types";
+import {ConjunctionGoal, DnfGoal} from "./Goals";
+import {SearchResult} from "./Graph";
+import {GraphHighLevel, NodeHighLevel} from "./PlannerHighLevel";
+import {canPlace, NodeLowLevel} from "./PlannerLowLevel";
+import {PlanningError} from "./PlanningError";
+
+/*
+ * Infeasibility
+ *
+ * Explains why the planner could not find a plan. Either a search ran out of time,
+ * or the goal cannot be reached, and then the world is checked for what blocks it.
+ * The checks are necessary conditions only, so not every unreachable goal gets a reason.
+ */
+
+/**
+ * Explains a failed search for a plan.
+ * @param  graph  The graph that was searched, with the goals that could not be fulfilled.
+ * @param  search The result of the failed search.
+ * @param  start  The state the search started from.
+ * @return        An error describing the failure, with the search statistics.
+ */
+export function explainFailure(graph: GraphHighLevel,
+                               search: SearchResult<NodeHighLevel>,
+                               start: NodeLowLevel): PlanningError {
+    const timeouts = graph.failures.filter((failure) => failure.evaluation.status === "timeout");
+    const statistics = [
+        `High level search: ${search.status} after ${search.visited} visited nodes`,
+        `Failed goals: ${graph.failures.length}, of which ${timeouts.length} timed out`,
+    ].concat(graph.failures.map((failure) => `  ${failure.goal.explain("", failure.state)} `
+        + `(${failure.evaluation.status} after ${failure.evaluation.visited} visited nodes)`));
+
+    if (search.status === "timeout" || timeouts.length > 0) {
+        return new PlanningError("I gave up before finding a plan, it takes too long to work out how to do that.",
+            "timeout", statistics);
+    }
+
+    return explainUnreachable(graph.goalTreeRoot, start, statistics);
+}
+
+/**
+ * Explains a failed search of the optimal planner, which searches without a goal tree.
+ * @param  dnf    The formula that could not be made true.
+ * @param  search The result of the failed search.
+ * @param  start  The state the search started from.
+ * @return        An error describing the failure, with the search statistics.
+ */
+export function explainOptimalFailure(dnf: DNFFormula,
+                                      search: SearchResult<NodeLowLevel>,
+                                      start: NodeLowLevel): PlanningError {
+    const statistics = [`Optimal search: ${search.status} after ${search.visited} visited nodes`];
+    if (search.status === "timeout") {
+        return new PlanningError("I gave up before finding the shortest plan, there are too many ways to do that.",
+            "timeout", statistics);
+    }
+    // The search has tried every state, so the goal is unreachable even if no reason is found
+    return explainUnreachable(new DnfGoal(dnf), start, statistics);
+}
+
+/**
+ * Explains why no conjunction of a goal tree can be fulfilled.
+ * @param  root       The root of the goal tree.
+ * @param  start      The state the search started from.
+ * @param  statistics The statistics of the searches.
+ * @return            An error describing the failure.
+ */
+function explainUnreachable(root: DnfGoal, start: NodeLowLevel, statistics: string[]): PlanningError {
+    // Every conjunction has failed, the reason why the first one did is as good as any
+    const reasons = (root.children as ConjunctionGoal[])
+        .map((conjunction) => findBlockingReason(conjunction, start))
+        .filter((reason) => reason !== undefined);
+    const message = reasons.length > 0
+        ? `I cannot do that, because ${reasons[0]}.`
+        : "I cannot find any way to do that in this world.";
+    return new PlanningError(message, "unreachable", statistics);
+}
+
+/**
+ * Looks for something in the world that makes a conjunction unreachable.
+ * @param  conjunction The goal of the conjunction, with one child per literal.
+ * @param  state       The state to check.
+ * @return             The reason, or undefined if none was found.
+ */
+function findBlockingReason(conjunction: ConjunctionGoal, state: NodeLowLevel): string | undefined {
+    const literals = conjunction.conjunction.literals
+        .filter((literal, index) => literal.polarity && !conjunction.children[index].isFulfilled(state));
+
+    // Every column has room for one object on the floor
+    const onFloor = literals.filter((literal) => literal.relation === "ontop" && literal.args[1] === "floor");
+    if (onFloor.length > state.getStacks().length) {
+        return `the floor only has room for ${state.getStacks().length} objects`;
+    }
+
+    for (const literal of literals) {
+        const reason = findColumnProblem(literal, state)
+            || findSupportProblem(literal, state)
+            || findUnstackProblem(literal, state);
+        if (reason !== undefined) {
+            return reason;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks if there are enough columns for a relation between columns.
+ * @param  literal The literal to check.
+ * @param  state   The state to check.
+ * @return         The reason, or undefined if there are enough columns.
+ */
+function findColumnProblem(literal: Literal, state: NodeLowLevel): string | undefined {
+    const sideways = literal.relation === "leftof" || literal.relation === "rightof" || literal.relation === "beside";
+    if (sideways && state.getStacks().length < 2) {
+        return "there is only one column";
+    }
+    return undefined;
+}
+
+/**
+ * Checks if the object of an "above" or "under" literal can be supported as needed.
+ * @param  literal The literal to check.
+ * @param  state   The state to check.
+ * @return         The reason, or undefined if a support can be found.
+ */
+function findSupportProblem(literal: Literal, state: NodeLowLevel): string | undefined {
+    const objects = state.world.objects;
+    const [item, target] = literal.args;
+    const others = Object.keys(objects).filter((name) => name !== item && name !== target);
+    if (literal.relation === "above" && !canPlace(objects[item], objects[target])
+        && !others.some((name) => canPlace(objects[item], objects[name]))) {
+        return `nothing can support ${describe(item, state)} above ${describe(target, state)}`;
+    }
+    if (literal.relation === "under"
+        && !others.concat([target]).some((name) => canPlace(objects[name], objects[item]))) {
+        return `nothing can be placed on ${describe(item, state)}`;
+    }
+    return undefined;
+}
+
+/**
+ * Checks if the objects of a literal can be uncovered, which requires a place for the topmost object
+ * above them in another column.
+ * @param  literal The literal to check.
+ * @param  state   The state to check.
+ * @return         The reason, or undefined if the objects are free or can be uncovered.
+ */
+function findUnstackProblem(literal: Literal, state: NodeLowLevel): string | undefined {
+    // The moved object must be picked up, and objects are put on top of or inside their target
+    const covered = literal.relation === "ontop" || literal.relation === "inside" ? literal.args : [literal.args[0]];
+    for (const name of covered) {
+        const column = state.getStacks().map((stack) => stack.indexOf(name)).reduce(
+            (found, index, stackId) => index >= 0 ? stackId : found, -1);
+        if (column < 0) {
+            continue;
+        }
+        const stack = state.getStacks()[column];
+        const top = stack[stack.length - 1];
+        if (top === name) {
+            continue;
+        }
+        const places = state.getStacks().filter((other, stackId) => stackId !== column && (other.length === 0
+            || canPlace(state.world.objects[top], state.world.objects[other[other.length - 1]])));
+        if (places.length === 0) {
+            return `there is no free column to put ${describe(top, state)} on while I uncover ${describe(name, state)}`;
+        }
+    }
+    return undefined;
+}
+
+function describe(name: string, state: NodeLowLevel): string {
+    return name === "floor" ? "the floor" : `the ${DescribeObjectState(name, state)}`;
+}
@@ -1,8 +1,14 @@
+import {PlanBuilder} from "../core/Plan";
 import {ShrdliteResult} from "../core/Types";
+import {countArms, isStep} from "../world/Arms";
 import {WorldState} from "../world/World";
 import {aStarSearch} from "./AStarSearch";
 import {FinalNode} from "./Goals";
+import {explainFailure, explainOptimalFailure} from "./Infeasibility";
 import {GraphHighLevel} from "./PlannerHighLevel";
+import {NodeLowLevel, parallelizeSteps} from "./PlannerLowLevel";
+import {isSmallWorld, planOptimal, PlannerMode, PlannerSettings} from "./PlannerOptimal";
+import {PlanningError} from "./PlanningError";
 
 /*
  * Planner
@@ -20,41 +26,111 @@ import {GraphHighLevel} from "./PlannerHighLevel";
  *
  * @param interpretations: List of possible interpretations.
  * @param world: The current state of the world.
+ * @param mode: How to find the plans, see PlannerMode.
  * @returns: List of planner results, which are the interpretation results augmented with plans.
- *           Each plan is represented by a list of strings.
- *           If there's a planning error, it throws an error with a string description.
+ *           Each plan is a Plan of actions and narration, see Plan.ts.
+ *           If no interpretation can be planned, it throws a PlanningError explaining why,
+ *           or an error with a string description if something else went wrong.
  */
-export function plan(interpretations: ShrdliteResult[], world: WorldState): ShrdliteResult[] {
-    const errors: string[] = [];
+export function plan(interpretations: ShrdliteResult[],
+                     world: WorldState,
+                     mode: PlannerMode = PlannerSettings.mode): ShrdliteResult[] {
+    const errors: Array<Error | string> = [];
     const plans: ShrdliteResult[] = [];
     for (const interpretation of interpretations) {
         try {
-            const graph = new GraphHighLevel(interpretation.interpretation);
-            const search = aStarSearch(graph,
-                graph.getStartingNode(world),
-                (node) => node.goalNode instanceof FinalNode,
-                (node) => 0,
-                10);
-            if (search.status !== "success") {
-                errors.push(`Failed: ${search.status}`);
+            const optimal = mode === "optimal" || (mode === "auto" && isSmallWorld(world));
+            let error = optimal
+                ? planShortest(interpretation, world, mode === "optimal" ? 10 : PlannerSettings.autoTimeout)
+                : planHierarchical(interpretation, world);
+            // The auto mode falls back to the goal tree if the optimal search takes too long
+            if (optimal && mode === "auto" && error !== undefined && error.reason === "timeout") {
+                error = planHierarchical(interpretation, world);
+            }
+            if (error !== undefined) {
+                errors.push(error);
                 continue;
             }
-            interpretation.plan = search.path
-                .map((node) => node.action.split(";"))
-                .reduce((acc, action) => acc.concat(action), []);
-            interpretation.plan.push(`Path with ${search.path.length} moves (${search.visited} visited nodes)`);
         } catch (err) {
             errors.push(err);
             continue;
         }
-        if (interpretation.plan.length === 0) {
-            interpretation.plan.push("The interpretation is already true!");
+        if (interpretation.plan.steps.length === 0) {
+            interpretation.plan.steps.push({kind: "narration", text: "The interpretation is already true!"});
         }
         plans.push(interpretation);
     }
     if (plans.length === 0) {
-        // merge all errors into one
+        // merge all errors into one, keeping the explanations if the planner failed for every interpretation
+        const failures = errors.filter((error) => error instanceof PlanningError) as PlanningError[];
+        if (failures.length === errors.length) {
+            throw new PlanningError(
+                failures.map((failure) => failure.message).join(" ; "),
+                failures.some((failure) => failure.reason === "timeout") ? "timeout" : "unreachable",
+                failures.map((failure) => failure.statistics).reduce((acc, next) => acc.concat(next), []));
+        }
         throw errors.join(" ; ");
     }
     return plans;
 }
+
+/**
+ * Plans an interpretation by fulfilling the goals of a goal tree one after another.
+ * @param interpretation: The interpretation, its plan is set if the planning succeeds.
+ * @param world: The current state of the world.
+ * @returns: An error explaining why there is no plan, or undefined if the plan was set.
+ */
+function planHierarchical(interpretation: ShrdliteResult, world: WorldState): PlanningError | undefined {
+    const graph = new GraphHighLevel(interpretation.interpretation);
+    const search = aStarSearch(graph,
+        graph.getStartingNode(world),
+        (node) => node.goalNode instanceof FinalNode,
+        (node) => node.getHeuristic(),
+        10);
+    if (search.status !== "success") {
+        return explainFailure(graph, search, NodeLowLevel.fromWorld(world));
+    }
+    // Every goal on the path explains itself before its actions, goals that were skipped have neither.
+    // Where the arms act at the same time, an action belongs to the goal that was explained last.
+    const narrated: number[] = [];
+    const items = search.path.map((step, goal) => {
+        const [narration, ...actions] = step.action.split(";");
+        if (narration === "") {
+            return actions;
+        }
+        narrated.push(goal);
+        return [narration].concat(actions);
+    }).reduce((acc, next) => acc.concat(next), [] as string[]);
+    const builder = new PlanBuilder(world);
+    let current: number | undefined;
+    for (const item of parallelizeSteps(items, world)) {
+        if (isStep(item, countArms(world))) {
+            builder.act(item, current);
+        } else {
+            current = narrated.shift();
+            builder.narrate(item, current);
+        }
+    }
+    interpretation.plan = builder.build(
+        {cost: search.cost, length: search.path.length, search: "goals", visited: search.visited});
+    return undefined;
+}
+
+/**
+ * Plans an interpretation with the shortest sequence of arm movements.
+ * @param interpretation: The interpretation, its plan is set if the planning succeeds.
+ * @param world: The current state of the world.
+ * @param timeout: The seconds to search before giving up.
+ * @returns: An error explaining why there is no plan, or undefined if the plan was set.
+ */
+function planShortest(interpretation: ShrdliteResult, world: WorldState, timeout: number): PlanningError | undefined {
+    const search = planOptimal(interpretation.interpretation, world, timeout);
+    if (search.status !== "success") {
+        return explainOptimalFailure(interpretation.interpretation, search, NodeLowLevel.fromWorld(world));
+    }
+    const builder = new PlanBuilder(world);
+    parallelizeSteps(search.path.map((step) => step.action), world).forEach((action) => builder.act(action));
+    interpretation.plan = builder.build(search.path.length === 0 ? undefined
+        : {cost: search.cost, length: search.path.length, search: "shortest", visited: search.visited});
+    return undefined;
+}
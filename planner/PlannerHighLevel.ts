@@ -1,7 +1,8 @@
 import {DNFFormula} from "../core/Types";
 import {WorldState} from "../world/World";
-import {DnfGoal, NodeGoal} from "./Goals";
+import {ConjunctionGoal, DnfGoal, FinalNode, IEvaluation, NodeGoal} from "./Goals";
 import {IGraph, Successor} from "./Graph";
+import {estimateConjunction, HeuristicSettings} from "./Heuristics";
 import {NodeLowLevel} from "./PlannerLowLevel";
 
 /**
@@ -13,6 +14,9 @@ import {NodeLowLevel} from "./PlannerLowLevel";
 export class GraphHighLevel implements IGraph<NodeHighLevel> {
     public goalTreeRoot: DnfGoal;
 
+    // The goals that could not be fulfilled during the search
+    public failures: IGoalFailure[] = [];
+
     public constructor(dnf: DNFFormula) {
         this.goalTreeRoot = new DnfGoal(dnf);
     }
@@ -22,7 +26,7 @@ export class GraphHighLevel implements IGraph<NodeHighLevel> {
     }
 
     public successors(current: NodeHighLevel): Array<Successor<NodeHighLevel>> {
-        return current.successors();
+        return current.successors(this.failures);
     }
 
     public compareNodes(a: NodeHighLevel, b: NodeHighLevel): number {
@@ -30,6 +34,18 @@ export class GraphHighLevel implements IGraph<NodeHighLevel> {
     }
 }
 
+/**
+ * A goal that could not be fulfilled from a state.
+ * @param goal       The goal.
+ * @param state      The state the goal was evaluated in.
+ * @param evaluation The result of the failed evaluation.
+ */
+export interface IGoalFailure {
+    goal: NodeGoal;
+    state: NodeLowLevel;
+    evaluation: IEvaluation;
+}
+
 /**
  * Wraps the goal and worldstate. Uses incrementing ids as keys.
  * @param goalNode     The goal that needs to be fulfilled.
@@ -50,9 +66,10 @@ export class NodeHighLevel {
 
     /**
      * Gets successors of a goal by evaluating it with the current world state.
+     * @param  failures Collects the goals that could not be fulfilled.
      * @return Returns the succesors.
      */
-    public successors(): Array<Successor<NodeHighLevel>> {
+    public successors(failures: IGoalFailure[] = []): Array<Successor<NodeHighLevel>> {
         const result: Array<Successor<NodeHighLevel>> = [];
         const goals = this.goalNode.getChildren(this.nodeLowLevel, false);
         for (const goal of goals) {
@@ -63,13 +80,32 @@ export class NodeHighLevel {
                     child: new NodeHighLevel(goal, search.state || this.nodeLowLevel),
                     cost: search.cost});
             } else {
-                console.log("Failed to execute high level move");
-                console.log(goal);
+                failures.push({evaluation: search, goal, state: this.nodeLowLevel});
             }
         }
         return result;
     }
 
+    /**
+     * Estimates the actions needed to reach the final node. The goal tree only leaves a conjunction
+     * once it is fulfilled, so the bound of the conjunction that the goal belongs to is used,
+     * or the cheapest conjunction if no conjunction has been chosen yet.
+     * @return The lower bound of the actions, multiplied by the weight in the weighted mode.
+     */
+    public getHeuristic(): number {
+        if (this.goalNode instanceof FinalNode) {
+            return 0;
+        }
+        let goal: NodeGoal | undefined = this.goalNode;
+        while (goal !== undefined && !(goal instanceof ConjunctionGoal)) {
+            goal = goal.heuristicParent;
+        }
+        const conjunctions = goal === undefined ? this.goalNode.children as ConjunctionGoal[] : [goal];
+        const bound = Math.min.apply(Math, conjunctions.map((conjunction) =>
+            estimateConjunction(conjunction.conjunction, this.nodeLowLevel)));
+        return HeuristicSettings.mode === "weighted" ? HeuristicSettings.weight * bound : bound;
+    }
+
     public getId(): string {
         return this.id.toString();
     }
@@ -1,19 +1,33 @@
-import {SimpleObject} from "../core/Types";
-import {WorldState} from "../world/World";
+import {Conjunction, Relation, SimpleObject} from "../core/Types";
+import {getArms, isStep, setArms, waitAction} from "../world/Arms";
+import {IArmState, WorldState} from "../world/World";
+import {CostSettings, getDropCost, getMoveCost, getPickCost, ICostModel} from "./CostModel";
 import {IGraph, Successor} from "./Graph";
 
+// The possible arm movements
+const actions = ["l", "r", "p", "d"];
+
+// The steps that the search tries for each number of arms, see getSteps
+const steps: {[arms: number]: string[]} = {1: actions};
+
 /**
  * A graph representing possible arm movements.
+ * With several arms, only one arm acts in each step while the others wait, so a node has four successors
+ * per arm instead of one for every combination of actions. Since the cost of a step is the sum of the costs
+ * of its actions, this finds the same costs, and parallelizeSteps lets the arms of a plan act at the same time.
+ * @param costs The costs of the arm movements.
  */
 export class GraphLowLevel implements IGraph<NodeLowLevel> {
+    public constructor(public costs: ICostModel = CostSettings.model) {}
+
     // Gets succesors for each possible arm movement.
     public successors(current: NodeLowLevel): Array<Successor<NodeLowLevel>> {
         const result = [];
-        const actions = ["l", "r", "p", "d"];
-        for (const action of actions) {
-            const node = current.clone();
-            if (node.updateState(action)) {
-                const successor: Successor<NodeLowLevel> = {child: node, action, cost: 1};
+        for (const action of getSteps(current.getArmCount())) {
+            const node = current.move(action);
+            if (node !== null) {
+                const cost = current.getCost(action, this.costs);
+                const successor: Successor<NodeLowLevel> = {child: node, action, cost};
                 result.push(successor);
             }
         }
@@ -23,111 +37,725 @@ export class GraphLowLevel implements IGraph<NodeLowLevel> {
     public compareNodes(a: NodeLowLevel, b: NodeLowLevel): number {
         return a.compareTo(b);
     }
+
+    public hashNode(node: NodeLowLevel): number {
+        return node.hash;
+    }
 }
 
+// Positions in the encoded state: the column of every arm, the object held by every arm, the height
+// of every stack, and then the objects of every stack from the bottom up, starting with the leftmost stack.
+// The held objects start at the number of arms, and the heights at twice the number of arms.
+const armIndex = 0;
+
+// Object indices start at one, so that zero means that the arm holds nothing, or the floor
+const noObject = 0;
+
+// The size of the typed arrays that states are stored in
+const chunkSize = 0x10000;
+
+type StateArray = Uint8Array | Uint16Array;
+
 /**
  * Wraps the current world state. Can simulate arm movements.
- * @param stacks  The stacks of the world.
- * @param holding The item that the arm is holding.
- * @param arm     The position of the arm.
- * @param world   The original world state.
+ * The state is encoded as object indices, see the positions above, and identified by a Zobrist hash
+ * that is updated incrementally when an arm moves an object. The encoded states of all nodes are
+ * stored one after the other in large typed arrays, so a node only needs a few bytes of its own.
+ * Nodes are not changed by the search, every movement creates a new node.
+ * @param world    The original world state.
+ * @param encoding The object indices and hash keys, shared by all nodes of a world.
+ * @param chunk    The typed array the state is stored in.
+ * @param offset   The position of the state in the array.
+ * @param hash     The hash of the state.
  */
 export class NodeLowLevel {
     public static fromWorld(world: WorldState): NodeLowLevel {
-        return new NodeLowLevel(world.stacks, world.holding, world.arm, world);
+        const encoding = new StateEncoding(world);
+        const arms = getArms(world);
+        const objects = world.stacks.reduce((all, stack) => all.concat(stack), [] as string[]);
+        const offset = encoding.allocate(encoding.heights + world.stacks.length + objects.length);
+        const chunk = encoding.chunk;
+        arms.forEach((arm, index) => {
+            chunk[offset + armIndex + index] = arm.arm;
+            chunk[offset + encoding.arms + index] = arm.holding === null ? noObject : encoding.indices[arm.holding];
+        });
+        world.stacks.forEach((stack, column) => chunk[offset + encoding.heights + column] = stack.length);
+        objects.forEach((name, index) => chunk[offset + encoding.heights + world.stacks.length + index]
+            = encoding.indices[name]);
+        return new NodeLowLevel(world, encoding, chunk, offset, encoding.hashState(chunk, offset));
     }
 
-    // String identifier for efficient comparison
-    public id: string = "";
+    // The position of the first arm
+    public arm: number;
+
+    // The item that the first arm is holding
+    public holding: string | null;
+
+    // The stacks, decoded when they are first asked for
+    private stacks: string[][] | undefined;
+
+    constructor(public world: WorldState, private encoding: StateEncoding, private chunk: StateArray,
+                private offset: number, public hash: number) {
+        this.arm = chunk[offset + armIndex];
+        this.holding = encoding.names[chunk[offset + encoding.arms]];
+    }
+
+    /**
+     * Gets the stacks of the world.
+     * @return The stacks, which must not be changed since they are shared with the caller.
+     */
+    public getStacks(): string[][] {
+        if (this.stacks === undefined) {
+            const stacks: string[][] = [];
+            let position = this.offset + this.encoding.heights + this.encoding.columns;
+            for (let column = 0; column < this.encoding.columns; column++) {
+                const stack: string[] = [];
+                const height = this.chunk[this.offset + this.encoding.heights + column];
+                for (let i = 0; i < height; i++) {
+                    stack.push(this.encoding.names[this.chunk[position++]] as string);
+                }
+                stacks.push(stack);
+            }
+            this.stacks = stacks;
+        }
+        return this.stacks;
+    }
+
+    /**
+     * Gets all arms, from left to right.
+     * @return The positions and held items of the arms.
+     */
+    public getArms(): IArmState[] {
+        const arms: IArmState[] = [];
+        for (let index = 0; index < this.encoding.arms; index++) {
+            arms.push({
+                arm: this.chunk[this.offset + armIndex + index],
+                holding: this.encoding.names[this.chunk[this.offset + this.encoding.arms + index]],
+            });
+        }
+        return arms;
+    }
 
-    // Copy of the worlds stacks
-    public stacks: string[][];
+    public getArmCount(): number {
+        return this.encoding.arms;
+    }
 
-    constructor(stacks: string[][], public holding: string | null, public  arm: number, public world: WorldState) {
-        // Make copy of stacks
-        this.stacks = [];
-        for (const stack of stacks) {
-            this.stacks.push(stack.slice());
+    /**
+     * Checks if any arm holds an item.
+     * @param  item The item.
+     * @return      True if the item is held.
+     */
+    public isHolding(item: string): boolean {
+        const object = this.encoding.indices[item];
+        for (let index = 0; index < this.encoding.arms; index++) {
+            if (object !== undefined && this.chunk[this.offset + this.encoding.arms + index] === object) {
+                return true;
+            }
         }
+        return false;
     }
 
-    public clone(): NodeLowLevel {
-        return new NodeLowLevel(this.stacks, this.holding, this.arm, this.world);
+    /**
+     * Gets the items that were picked up since the original world state, although a conjunction
+     * does not ask to hold them. With several arms, one arm can pick up an object to make way for another,
+     * and it must not keep that object.
+     * @param  conjunction The conjunction.
+     * @return             The held items that were not held before, without a holding literal in the conjunction.
+     */
+    public getStrayItems(conjunction: Conjunction): string[] {
+        const items = conjunction.literals
+            .filter((literal) => literal.relation === "holding" && literal.polarity)
+            .map((literal) => literal.args[0]);
+        const before = getArms(this.world).map((arm) => arm.holding);
+        return this.getArms()
+            .filter((arm) => arm.holding !== null && items.indexOf(arm.holding) < 0 && before.indexOf(arm.holding) < 0)
+            .map((arm) => arm.holding!);
     }
 
     public toString(): string {
-        return this.id;
+        const values: number[] = [];
+        for (let i = 0; i < this.getLength(); i++) {
+            values.push(this.chunk[this.offset + i]);
+        }
+        return values.join();
+    }
+
+    /**
+     * Gets the world state after the simulated arm movements.
+     * @return A world state with copies of the stacks.
+     */
+    public toWorld(): WorldState {
+        const world: WorldState = {
+            arm: this.arm,
+            examples: this.world.examples,
+            holding: this.holding,
+            objects: this.world.objects,
+            stacks: this.getStacks().map((stack) => stack.slice()),
+        };
+        setArms(world, this.getArms());
+        return world;
     }
 
     public compareTo(other: NodeLowLevel) {
-        return this.id.localeCompare(other.id);
+        const length = this.getLength();
+        if (length !== other.getLength()) {
+            return length - other.getLength();
+        }
+        for (let i = 0; i < length; i++) {
+            const difference = this.chunk[this.offset + i] - other.chunk[other.offset + i];
+            if (difference !== 0) {
+                return difference;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Tests if an item is in a relation with a goal.
+     * @param  item     The item to test.
+     * @param  relation The relation to test.
+     * @param  goal     The goal the item might be in relation with.
+     * @return          True if the relation holds, false otherwise.
+     */
+    public holdsRelation(item: string, relation: Relation, goal: string | undefined): boolean {
+        if (relation === "holding") {
+            return this.isHolding(item);
+        }
+        const stacks = this.getStacks();
+        const stacksA = stacks.filter((stack) => stack.indexOf(item) >= 0);
+        if (stacksA.length === 0) {
+            return false;
+        }
+        const indexA = stacks.indexOf(stacksA[0]);
+        const stackIndexA = stacksA[0].indexOf(item);
+        if (goal === "floor") {
+            return relation === "above" || (relation === "ontop" && stackIndexA === 0);
+        }
+        if (relation === "incolumn") {
+            return indexA === Number(goal);
+        }
+
+        const stacksB = stacks.filter((stack) => stack.indexOf(goal!) >= 0);
+        if (stacksB.length === 0) {
+            return false;
+        }
+        const indexB = stacks.indexOf(stacksB[0]);
+        const stackIndexB = stacksB[0].indexOf(goal!);
+        switch (relation) {
+            case "leftof":
+                return indexA < indexB;
+            case "rightof":
+                return indexA > indexB;
+            case "beside":
+                return Math.abs(indexA - indexB) === 1;
+            case "inside":
+            /* falls through */
+            case "ontop":
+                return indexA === indexB && stackIndexA - 1 === stackIndexB;
+            case "above":
+                return indexA === indexB && stackIndexA > stackIndexB;
+            case "under":
+                return indexA === indexB && stackIndexA < stackIndexB;
+            default:
+                throw new Error(`Unknown relation: ${relation}`);
+        }
+    }
+
+    /**
+     * Gets the cost of an arm movement from this node.
+     * @param  action The action that the arm should take, or a step of all arms.
+     * @param  costs  The costs of the arm movements.
+     * @return        The cost of the action, for a step the sum of the costs of its actions:
+     *                the arms save time by acting at the same time, but not work.
+     */
+    public getCost(action: Action, costs: ICostModel): number {
+        let cost = 0;
+        for (let index = 0; index < this.encoding.arms; index++) {
+            cost += this.getActionCost(index, action.charAt(index), costs);
+        }
+        return cost;
+    }
+
+    /**
+     * Simulates an arm movement on a copy of this node.
+     * @param  action The action that the arm should take, or a step of all arms.
+     * @return        The node after the movement, or null if the movement is impossible.
+     */
+    public move(action: Action): NodeLowLevel | null {
+        const arms = this.encoding.arms;
+        if (arms === 1) {
+            return this.moveArm(0, action, true);
+        }
+        if (!isStep(action, arms)) {
+            return null;
+        }
+        const acting: number[] = [];
+        for (let index = 0; index < arms; index++) {
+            if (action.charAt(index) !== waitAction) {
+                acting.push(index);
+            }
+        }
+        if (acting.length === 1) {
+            return this.moveArm(acting[0], action.charAt(acting[0]), true);
+        }
+
+        // The arms act at the same time, so they only must not collide where they end up
+        let previous = -1;
+        for (let index = 0; index < arms; index++) {
+            const column = this.chunk[this.offset + armIndex + index]
+                + (action.charAt(index) === "l" ? -1 : action.charAt(index) === "r" ? 1 : 0);
+            if (column <= previous) {
+                return null;
+            }
+            previous = column;
+        }
+        let node: NodeLowLevel | null = this;
+        for (let i = 0; i < acting.length && node !== null; i++) {
+            node = node.moveArm(acting[i], action.charAt(acting[i]), false);
+        }
+        return node;
     }
 
     /**
      * Simulates arm movements.
-     * @param  action The action that the arm should take.
+     * @param  action The action that the arm should take, or a step of all arms.
      * @return        True if move has been executed, false otherwise.
      */
     public updateState(action: Action): boolean {
+        const node = this.move(action);
+        if (node === null) {
+            return false;
+        }
+        this.chunk = node.chunk;
+        this.offset = node.offset;
+        this.hash = node.hash;
+        this.arm = node.arm;
+        this.holding = node.holding;
+        this.stacks = undefined;
+        return true;
+    }
+
+    /**
+     * Simulates the movement of one arm on a copy of this node.
+     * @param  index     The index of the arm.
+     * @param  action    The action that the arm should take.
+     * @param  collision True if the arm must not move into the column of another arm.
+     * @return           The node after the movement, or null if the movement is impossible.
+     */
+    private moveArm(index: number, action: string, collision: boolean): NodeLowLevel | null {
+        const chunk = this.chunk;
+        const offset = this.offset;
+        const encoding = this.encoding;
+        const holdingIndex = encoding.arms + index;
+        const arm = chunk[offset + armIndex + index];
         switch (action) {
-            // Move arm left
+            // Move arm left or right
             case "l":
-                if (this.arm === 0) {
-                    // Cannot move left from leftmost position
-                    return false;
-                }
-                this.arm--;
-                break;
-            // Move arm right
             case "r":
-                if (this.arm === this.stacks.length - 1) {
-                    // Cannot move right from rightmost position
-                    return false;
+                const target = action === "l" ? arm - 1 : arm + 1;
+                if (target < 0 || target >= encoding.columns) {
+                    // Cannot move beyond the leftmost or rightmost position
+                    return null;
+                }
+                if (collision && ((index > 0 && chunk[offset + armIndex + index - 1] >= target)
+                    || (index < encoding.arms - 1 && chunk[offset + armIndex + index + 1] <= target))) {
+                    // Cannot move into the column of another arm
+                    return null;
                 }
-                this.arm++;
-                break;
+                const moved = encoding.copy(chunk, offset, this.getLength(), -1, 0);
+                encoding.chunk[moved + armIndex + index] = target;
+                return new NodeLowLevel(this.world, encoding, encoding.chunk, moved,
+                    this.hash ^ encoding.getArmKey(index, arm) ^ encoding.getArmKey(index, target));
             // Pick up object
             case "p":
-                if (this.holding !== null) {
-                    // Cannot pick up an item when already holding something
-                    return false;
-                }
-                const pickStack = this.stacks[this.arm];
-                if (pickStack.length === 0) {
-                    // Cannot pick up from empty stack
-                    return false;
+                const pickHeight = chunk[offset + encoding.heights + arm];
+                if (chunk[offset + holdingIndex] !== noObject || pickHeight === 0) {
+                    // Cannot pick up an item when already holding something, or from an empty stack
+                    return null;
                 }
-                const pickedUp = pickStack.splice(-1, 1);
-                this.holding = pickedUp[0];
-                break;
+                const top = this.getStackStart(arm) + pickHeight - 1;
+                const picked = chunk[offset + top];
+                const afterPick = encoding.copy(chunk, offset, this.getLength(), top, 1);
+                encoding.chunk[afterPick + holdingIndex] = picked;
+                encoding.chunk[afterPick + encoding.heights + arm]--;
+                return new NodeLowLevel(this.world, encoding, encoding.chunk, afterPick, this.hash
+                    ^ encoding.getObjectKey(picked, arm, pickHeight - 1)
+                    ^ encoding.getHoldingKey(index, noObject) ^ encoding.getHoldingKey(index, picked));
             // Drop object
             case "d":
-                if (this.holding === null) {
-                    // Cannot drop an item without holding something
-                    return false;
+                const dropped = chunk[offset + holdingIndex];
+                const dropHeight = chunk[offset + encoding.heights + arm];
+                const end = this.getStackStart(arm) + dropHeight;
+                if (dropped === noObject
+                    || !encoding.canPlace(dropped, dropHeight === 0 ? noObject : chunk[offset + end - 1])) {
+                    // Cannot drop an item without holding something, or on top of an item that cannot support it
+                    return null;
                 }
+                const afterDrop = encoding.copy(chunk, offset, this.getLength(), end, -1);
+                encoding.chunk[afterDrop + end] = dropped;
+                encoding.chunk[afterDrop + holdingIndex] = noObject;
+                encoding.chunk[afterDrop + encoding.heights + arm]++;
+                return new NodeLowLevel(this.world, encoding, encoding.chunk, afterDrop, this.hash
+                    ^ encoding.getObjectKey(dropped, arm, dropHeight)
+                    ^ encoding.getHoldingKey(index, dropped) ^ encoding.getHoldingKey(index, noObject));
+        }
+        return null;
+    }
 
-                // Can drop anything on the floor
-                const dropStack = this.stacks[this.arm];
-                if (dropStack.length !== 0) {
-                    const objectA = this.world.objects[this.holding];
-                    const objectB = this.world.objects[dropStack[dropStack.length - 1]];
-                    if (!canPlace(objectA, objectB)) {
-                        return false;
-                    }
+    /**
+     * Gets the cost of the action of one arm.
+     * @param  index  The index of the arm.
+     * @param  action The action that the arm should take, or "-" to wait.
+     * @param  costs  The costs of the arm movements.
+     * @return        The cost of the action, waiting costs nothing.
+     */
+    private getActionCost(index: number, action: string, costs: ICostModel): number {
+        const objects = this.world.objects;
+        const arm = this.chunk[this.offset + armIndex + index];
+        const holding = this.encoding.names[this.chunk[this.offset + this.encoding.arms + index]];
+        switch (action) {
+            case "p":
+                const top = this.getStackStart(arm) + this.chunk[this.offset + this.encoding.heights + arm] - 1;
+                return getPickCost(costs, objects[this.encoding.names[this.chunk[this.offset + top]] as string]);
+            case "d":
+                return getDropCost(costs, objects[holding!]);
+            case waitAction:
+                return 0;
+            default:
+                return getMoveCost(costs, holding === null ? undefined : objects[holding]);
+        }
+    }
+
+    /**
+     * Gets the length of the encoded state, which is shorter by one for every arm that holds an object.
+     * @return The number of positions.
+     */
+    private getLength(): number {
+        let length = this.encoding.length;
+        for (let index = 0; index < this.encoding.arms; index++) {
+            if (this.chunk[this.offset + this.encoding.arms + index] !== noObject) {
+                length--;
+            }
+        }
+        return length;
+    }
+
+    /**
+     * Finds where a stack starts in the encoded state.
+     * @param  column The index of the stack.
+     * @return        The position of the bottom object of the stack.
+     */
+    private getStackStart(column: number): number {
+        let position = this.encoding.heights + this.encoding.columns;
+        for (let i = 0; i < column; i++) {
+            position += this.chunk[this.offset + this.encoding.heights + i];
+        }
+        return position;
+    }
+}
+
+/**
+ * Gets the cost of a plan.
+ * @param  plan  The plan, where everything but the arm movements is ignored.
+ * @param  world The world the plan starts in.
+ * @param  costs The costs of the arm movements.
+ * @return       The total cost of the arm movements, up to the first one that is impossible.
+ */
+export function getPlanCost(plan: string[], world: WorldState, costs: ICostModel = CostSettings.model): number {
+    let node = NodeLowLevel.fromWorld(world);
+    let total = 0;
+    for (const action of plan.filter((step) => isStep(step, node.getArmCount()))) {
+        const next = node.move(action);
+        if (next === null) {
+            break;
+        }
+        total += node.getCost(action, costs);
+        node = next;
+    }
+    return total;
+}
+
+/**
+ * Lets the arms of a plan act at the same time. The planners move one arm per step, and every such step
+ * is moved into the earliest step of the plan where its arm is free, as long as every step can still be
+ * performed and the plan ends in the same state. Other plan items, like the explanations of the goals,
+ * stay in front of the step that followed them and keep their order. With one arm, the plan is returned as it is.
+ * @param  plan  The plan, with steps where only one arm acts.
+ * @param  world The world the plan starts in.
+ * @return       The plan with steps where several arms act.
+ */
+export function parallelizeSteps(plan: string[], world: WorldState): string[] {
+    const start = NodeLowLevel.fromWorld(world);
+    const arms = start.getArmCount();
+    if (arms === 1) {
+        return plan;
+    }
+    const scheduled: string[][] = [];     // The actions of each arm in each step
+    const items: string[][] = [];         // The other plan items in front of each step
+    const states: NodeLowLevel[] = [start];  // The state before each step, and after the last one
+    const lastSteps: number[] = getArms(world).map(() => -1);
+    let pending: string[] = [];
+    let pendingTime = 0;  // The step that the last other plan items were put in front of
+    let barrier = 0;
+    for (const item of plan) {
+        if (!isStep(item, arms)) {
+            pending.push(item);
+            continue;
+        }
+        const target = states[states.length - 1].move(item);
+        const acting = item.split("").filter((action) => action !== waitAction).length;
+        let time = scheduled.length;
+        if (target !== null && acting === 1) {
+            const index = item.split("").filter((action) => action === waitAction).length === arms - 1
+                ? item.search(/[^-]/) : -1;
+            const earliest = Math.max(barrier, lastSteps[index] + 1, pending.length > 0 ? pendingTime : 0);
+            for (time = earliest; time < scheduled.length; time++) {
+                const trial = scheduled.map((step) => step.slice());
+                trial[time][index] = item.charAt(index);
+                const trialStates = replaySteps(trial, time, states);
+                if (trialStates !== null && trialStates[trialStates.length - 1].compareTo(target) === 0) {
+                    scheduled[time] = trial[time];
+                    states.splice(time, states.length - time, ...trialStates.slice(time));
+                    break;
                 }
-                this.stacks[this.arm].push(this.holding);
-                this.holding = null;
-                break;
+            }
+            lastSteps[index] = time;
+        } else {
+            // A step of several arms, or one that cannot be performed, keeps its place after all earlier steps
+            barrier = scheduled.length + 1;
+        }
+        if (time === scheduled.length) {
+            scheduled.push(item.split(""));
+            items.push([]);
+            states.push(target === null ? states[states.length - 1] : target);
         }
+        if (pending.length > 0) {
+            items[time] = items[time].concat(pending);
+            pendingTime = time;
+            pending = [];
+        }
+    }
+    return scheduled
+        .map((step, time) => items[time].concat([step.join("")]))
+        .reduce((acc, next) => acc.concat(next), [] as string[])
+        .concat(pending);
+}
 
-        this.id = "";
-        for (const stack of this.stacks) {
-            this.id += stack.join() + "|";
+/**
+ * Performs the steps of a plan from one of its steps on.
+ * @param  scheduled The actions of each arm in each step.
+ * @param  from      The first step to perform.
+ * @param  states    The state before each step.
+ * @return           The states before each step and after the last one, or null if a step is impossible.
+ */
+function replaySteps(scheduled: string[][], from: number, states: NodeLowLevel[]): NodeLowLevel[] | null {
+    const result = states.slice(0, from + 1);
+    for (let time = from; time < scheduled.length; time++) {
+        const next = result[time].move(scheduled[time].join(""));
+        if (next === null) {
+            return null;
         }
-        this.id += this.arm + "|" + this.holding;
-        return true;
+        result.push(next);
+    }
+    return result;
+}
+
+/**
+ * Lists the steps that the search tries, which let one arm act while the others wait.
+ * @param  arms The number of arms.
+ * @return      The steps, the single actions for one arm.
+ */
+function getSteps(arms: number): string[] {
+    if (!(arms in steps)) {
+        const waiting = Array(arms + 1).join(waitAction);
+        steps[arms] = [];
+        for (let index = 0; index < arms; index++) {
+            for (const action of actions) {
+                steps[arms].push(waiting.slice(0, index) + action + waiting.slice(index + 1));
+            }
+        }
+    }
+    return steps[arms];
+}
+
+/**
+ * The objects of a world as small numbers, the physical laws between them, and the random keys
+ * of the Zobrist hash: the hash of a state is the exclusive or of the keys of the arm positions,
+ * of the held objects and of every object at its column and height. It also allocates the space
+ * for the encoded states.
+ * @param world The world to encode.
+ */
+class StateEncoding {
+    // The name of each object index, the first name is the empty arm
+    public names: Array<string | null> = [null];
+
+    // The index of each object
+    public indices: {[name: string]: number} = {};
+
+    // The number of arms and columns
+    public arms: number;
+    public columns: number;
+
+    // The position of the stack heights in an encoded state
+    public heights: number;
+
+    // The length of an encoded state when the arms hold nothing
+    public length: number;
+
+    // The typed array that new states are stored in
+    public chunk: StateArray;
+
+    // The keys of each arm at each position, of each arm holding each object,
+    // and of each object at each column and height
+    private armKeys: Int32Array;
+    private holdingKeys: Int32Array;
+    private objectKeys: Int32Array;
+
+    // Whether each object can be placed on each other object, where the empty arm is the floor
+    private placeable: Uint8Array;
+
+    // The number of positions of the current chunk that are used
+    private used: number = 0;
+
+    constructor(world: WorldState) {
+        // Objects that are not defined in the world still need an index of their own
+        const names = Object.keys(world.objects);
+        const held = getArms(world).filter((arm) => arm.holding !== null).map((arm) => [arm.holding as string]);
+        const placed = world.stacks.concat(held);
+        placed.forEach((stack) => stack
+            .filter((name) => !(name in world.objects) && names.indexOf(name) < 0)
+            .forEach((name) => names.push(name)));
+        names.forEach((name) => {
+            this.indices[name] = this.names.length;
+            this.names.push(name);
+        });
+
+        const count = this.names.length;
+        this.arms = getArms(world).length;
+        this.columns = world.stacks.length;
+        this.heights = armIndex + 2 * this.arms;
+        this.length = placed.reduce((sum, stack) => sum + stack.length, this.heights + this.columns);
+        this.placeable = new Uint8Array(count * count);
+        for (let a = 1; a < count; a++) {
+            // Can drop anything on the floor
+            this.placeable[a * count + noObject] = 1;
+            const objectA = world.objects[this.names[a] as string];
+            for (let b = 1; b < count; b++) {
+                this.placeable[a * count + b] = canPlace(objectA, world.objects[this.names[b] as string]) ? 1 : 0;
+            }
+        }
+
+        const random = createRandom();
+        this.armKeys = createKeys(this.arms * this.columns, random);
+        this.holdingKeys = createKeys(this.arms * count, random);
+        this.objectKeys = createKeys(count * this.columns * count, random);
+        this.chunk = this.createChunk();
+    }
+
+    public canPlace(objectA: number, objectB: number): boolean {
+        return this.placeable[objectA * this.names.length + objectB] === 1;
+    }
+
+    public getArmKey(arm: number, column: number): number {
+        return this.armKeys[arm * this.columns + column];
+    }
+
+    public getHoldingKey(arm: number, object: number): number {
+        return this.holdingKeys[arm * this.names.length + object];
+    }
+
+    public getObjectKey(object: number, column: number, height: number): number {
+        return this.objectKeys[(object * this.columns + column) * this.names.length + height];
+    }
+
+    /**
+     * Allocates space for a state, in a new chunk if the current one is full.
+     * @param  length The length of the state.
+     * @return        The position of the state in the current chunk.
+     */
+    public allocate(length: number): number {
+        if (this.used + length > this.chunk.length) {
+            this.chunk = this.createChunk();
+            this.used = 0;
+        }
+        this.used += length;
+        return this.used - length;
+    }
+
+    /**
+     * Copies a state, leaving out or making room for an object at one position.
+     * @param  chunk    The typed array of the state to copy.
+     * @param  offset   The position of the state in the array.
+     * @param  length   The length of the state to copy.
+     * @param  position The position where an object is left out or room is made, -1 for an exact copy.
+     * @param  shift    1 to leave out an object, -1 to make room for one, or 0.
+     * @return          The position of the copy in the current chunk.
+     */
+    public copy(chunk: StateArray, offset: number, length: number, position: number, shift: number): number {
+        const copyLength = length - shift;
+        const copyOffset = this.allocate(copyLength);
+        const copy = this.chunk;
+        const split = position < 0 ? copyLength : position;
+        for (let i = 0; i < split; i++) {
+            copy[copyOffset + i] = chunk[offset + i];
+        }
+        for (let i = Math.max(split, split - shift); i < copyLength; i++) {
+            copy[copyOffset + i] = chunk[offset + i + shift];
+        }
+        return copyOffset;
+    }
+
+    /**
+     * Computes the hash of a state from scratch.
+     * @param  chunk  The typed array of the state.
+     * @param  offset The position of the state in the array.
+     * @return        The exclusive or of the keys of the arms, the held objects and the objects in the stacks.
+     */
+    public hashState(chunk: StateArray, offset: number): number {
+        let hash = 0;
+        for (let arm = 0; arm < this.arms; arm++) {
+            hash ^= this.getArmKey(arm, chunk[offset + armIndex + arm])
+                ^ this.getHoldingKey(arm, chunk[offset + this.arms + arm]);
+        }
+        let position = offset + this.heights + this.columns;
+        for (let column = 0; column < this.columns; column++) {
+            for (let height = 0; height < chunk[offset + this.heights + column]; height++) {
+                hash ^= this.getObjectKey(chunk[position++], column, height);
+            }
+        }
+        return hash;
+    }
+
+    /**
+     * Creates a typed array for states, with elements large enough for the object indices and the columns.
+     * @return The array, filled with zeros.
+     */
+    private createChunk(): StateArray {
+        const size = Math.max(chunkSize, this.length + 1);
+        return this.names.length > 0xff || this.columns > 0xff ? new Uint16Array(size) : new Uint8Array(size);
+    }
+}
+
+/**
+ * Creates a random number generator for hash keys (xorshift), with a fixed seed so that searches can be repeated.
+ * @return A function returning random 32 bit integers.
+ */
+function createRandom(): () => number {
+    let state = 0x2545f491;
+    return () => {
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        return state;
+    };
+}
+
+function createKeys(count: number, random: () => number): Int32Array {
+    const keys = new Int32Array(count);
+    for (let i = 0; i < count; i++) {
+        keys[i] = random();
     }
+    return keys;
 }
 
 /**
@@ -0,0 +1,69 @@
+import {DNFFormula} from "../core/Types";
+import {Interpreter} from "../interpreter/Interpreter";
+import {WorldState} from "../world/World";
+import {aStarSearch} from "./AStarSearch";
+import {SearchResult} from "./Graph";
+import {estimateFormula} from "./Heuristics";
+import {GraphLowLevel, NodeLowLevel} from "./PlannerLowLevel";
+
+/*
+ * PlannerOptimal
+ *
+ * Plans without the goal tree of the Goals module, by searching the arm movements directly
+ * for a state where the whole formula is true. The heuristic is the admissible lower bound
+ * of the Heuristics module, so the plans are as short as possible, but the search only
+ * scales to small worlds.
+ */
+
+/**
+ * How the planner finds plans.
+ * "hierarchical": Fulfill the goals of the goal tree one after another, fast but not always shortest.
+ * "optimal":      Search the arm movements directly, shortest but only for small worlds.
+ * "auto":         Optimal for small worlds, hierarchical if the world is larger or the optimal search times out.
+ */
+export type PlannerMode = "hierarchical" | "optimal" | "auto";
+
+export const PlannerSettings: {mode: PlannerMode, autoObjects: number, autoTimeout: number} = {
+    autoObjects: 6,  // The largest number of objects that the auto mode plans optimally
+    autoTimeout: 2,  // The seconds that the auto mode spends on the optimal search
+    mode: "auto",
+};
+
+/**
+ * Decides if a world is small enough for the optimal search in the auto mode.
+ * @param  world The world to plan in.
+ * @return       True if the optimal search should be tried first.
+ */
+export function isSmallWorld(world: WorldState): boolean {
+    return Object.keys(world.objects).length <= PlannerSettings.autoObjects;
+}
+
+/**
+ * Searches for the shortest sequence of arm movements that makes a formula true.
+ * @param  dnf     The formula to make true, tested with the relations of the interpreter.
+ * @param  world   The world to start from.
+ * @param  timeout The seconds to search before giving up.
+ * @return         The result of the search, the path is empty if the formula is already true.
+ */
+export function planOptimal(dnf: DNFFormula, world: WorldState, timeout: number): SearchResult<NodeLowLevel> {
+    return aStarSearch(new GraphLowLevel(),
+        NodeLowLevel.fromWorld(world),
+        (node) => isFormulaTrue(dnf, node),
+        (node) => estimateFormula(dnf, node),
+        timeout);
+}
+
+/**
+ * Tests if a formula is true in a state, with the relations of the interpreter.
+ * Like the goals of the hierarchical planner, a negated literal only holds when its object is put down,
+ * and the arms must not hold anything that the conjunction does not ask for.
+ * @param  dnf   The formula to test.
+ * @param  state The state to test it in.
+ * @return       True if all literals of any conjunction are true.
+ */
+export function isFormulaTrue(dnf: DNFFormula, state: NodeLowLevel): boolean {
+    const world = state.toWorld();
+    return dnf.conjuncts.some((conjunction) => state.getStrayItems(conjunction).length === 0
+        && conjunction.literals.every((literal) => Interpreter.isLiteralTrue(literal, world)
+            && (literal.polarity || !state.isHolding(literal.args[0]))));
+}
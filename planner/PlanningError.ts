@@ -0,0 +1,8 @@
+export class PlanningError extends Error {
+    constructor(m: string,
+                public reason: "timeout" | "unreachable",  // Whether the planner gave up, or the goal cannot be reached
+                public statistics: string[]) {             // Statistics of the searches, for debugging
+        super(m);
+        (Object as any).setPrototypeOf(this, PlanningError.prototype);
+    }
+}
@@ -9,8 +9,10 @@ You are also free to add new test cases.
 
 export interface TestCase {
     world : string;
+    previous? : string[];   // Utterances interpreted before, which pronouns can refer to
     utterance : string;
-    interpretations : string[]
+    interpretations : string[];
+    ambiguous? : boolean;   // Whether the interpreter must ask which object is meant
 }
 
 export var testCases : TestCase[] = [];
@@ -370,3 +372,167 @@ testCases.push({
                       "leftof(SmlGrnPlnk,LrgRedPlnk) & leftof(SmlGrnPlnk,SmlRedTble) & leftof(SmlGrnPlnk,SmlRedPrmd) & " +
                       "leftof(SmlGrnPlnk,LrgRedBox)"]
 });
+
+
+//////////////////////////////////////////////////////////////////////
+// Questions are interpreted as the facts that currently hold
+
+testCases.push({
+    world: "small",
+    utterance: "where is the white ball",
+    interpretations: ["ontop(LargeWhiteBall,floor) & leftof(LargeWhiteBall,LargeBlueTable)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "what is on the floor",
+    interpretations: ["ontop(LargeWhiteBall,floor) & ontop(LargeBlueTable,floor) & ontop(LargeYellowBox,floor)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "what is in a box",
+    interpretations: ["inside(SmallBlackBall,SmallBlueBox) & inside(SmallBlueBox,LargeYellowBox)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "how many balls are in boxes",
+    interpretations: ["at any location(SmallBlackBall)"]
+});
+
+testCases.push({
+    world: "medium",
+    utterance: "is there a red pyramid",
+    interpretations: ["at any location(SmlRedPrmd)"]
+});
+
+// Numeric quantifiers pick that many of the matching objects
+
+testCases.push({
+    world: "small",
+    utterance: "put both balls in a box",
+    interpretations: [
+        "inside(LargeWhiteBall,LargeYellowBox) & inside(SmallBlackBall,LargeYellowBox) | "
+        + "inside(LargeWhiteBall,LargeYellowBox) & inside(SmallBlackBall,LargeRedBox) | "
+        + "inside(LargeWhiteBall,LargeYellowBox) & inside(SmallBlackBall,SmallBlueBox) | "
+        + "inside(LargeWhiteBall,LargeRedBox) & inside(SmallBlackBall,LargeYellowBox) | "
+        + "inside(LargeWhiteBall,LargeRedBox) & inside(SmallBlackBall,LargeRedBox) | "
+        + "inside(LargeWhiteBall,LargeRedBox) & inside(SmallBlackBall,SmallBlueBox)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "put two boxes on the table",
+    interpretations: [
+        "ontop(LargeYellowBox,LargeBlueTable) & ontop(LargeRedBox,LargeBlueTable) | "
+        + "ontop(LargeYellowBox,LargeBlueTable) & ontop(SmallBlueBox,LargeBlueTable) | "
+        + "ontop(LargeRedBox,LargeBlueTable) & ontop(SmallBlueBox,LargeBlueTable)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "put three balls in a box",
+    interpretations: []
+});
+
+testCases.push({
+    world: "small",
+    utterance: "put exactly one ball in the red box",
+    interpretations: [
+        "inside(LargeWhiteBall,LargeRedBox) & -inside(SmallBlackBall,LargeRedBox) | "
+        + "inside(SmallBlackBall,LargeRedBox) & -inside(LargeWhiteBall,LargeRedBox)"]
+});
+
+// Negated goals say which relations must not hold
+
+testCases.push({
+    world: "small",
+    utterance: "make sure nothing is on the red box",
+    interpretations: ["-inside(LargeWhiteBall,LargeRedBox) & -inside(SmallBlackBall,LargeRedBox) & "
+        + "-inside(LargeBlueTable,LargeRedBox) & -inside(LargeYellowBox,LargeRedBox) & "
+        + "-inside(SmallBlueBox,LargeRedBox)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "the black ball should not be in a box",
+    interpretations: ["-inside(SmallBlackBall,LargeYellowBox) & -inside(SmallBlackBall,LargeRedBox) & "
+        + "-inside(SmallBlackBall,SmallBlueBox)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "make sure that the white ball is not left of the table",
+    interpretations: ["-leftof(LargeWhiteBall,LargeBlueTable)"]
+});
+
+// Superlatives pick the best objects out of all matching ones
+
+testCases.push({
+    world: "small",
+    utterance: "take the rightmost ball",
+    interpretations: ["holding(SmallBlackBall)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "take the ball closest to the arm",
+    interpretations: ["holding(LargeWhiteBall)"]
+});
+
+testCases.push({
+    world: "medium",
+    utterance: "take the leftmost red object",
+    interpretations: ["holding(LrgRedBox)"]
+});
+
+// Columns are numbered from 1, like ordinals, and column 1 is the leftmost one
+
+testCases.push({
+    world: "small",
+    utterance: "put the white ball in the third column",
+    interpretations: ["incolumn(LargeWhiteBall,2)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "put the black ball in the first empty spot",
+    interpretations: ["incolumn(SmallBlackBall,2)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "move everything off stack 4",
+    interpretations: ["-incolumn(LargeWhiteBall,3) & -incolumn(SmallBlackBall,3) & -incolumn(LargeBlueTable,3) & "
+        + "-incolumn(LargeYellowBox,3) & -incolumn(LargeRedBox,3) & -incolumn(SmallBlueBox,3)"]
+});
+
+// Pronouns refer to the held object, or to objects mentioned in earlier commands
+
+testCases.push({
+    world: "medium",
+    utterance: "put it beside the large yellow pyramid",
+    interpretations: ["beside(LrgGrnBrck1,LrgYlwPrmd)"]
+});
+
+testCases.push({
+    world: "small",
+    utterance: "take it",
+    interpretations: []
+});
+
+testCases.push({
+    world: "impossible",
+    previous: ["take the green brick"],
+    utterance: "put it on the green table",
+    interpretations: ["ontop(LrgGrnBrck,LrgGrnTble)"]
+});
+
+testCases.push({
+    world: "small",
+    previous: ["put all balls on the floor"],
+    utterance: "take it",
+    interpretations: [],
+    ambiguous: true
+});
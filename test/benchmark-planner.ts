@@ -0,0 +1,40 @@
+import {aStarSearch} from "../planner/AStarSearch";
+import {GraphLowLevel, NodeLowLevel} from "../planner/PlannerLowLevel";
+import {ExampleWorlds} from "../world/ExampleWorlds";
+
+/*
+ * benchmark-planner
+ *
+ * Measures how fast the low level planner expands nodes in each of the example worlds.
+ * The search has an unreachable goal, so it explores the world until it times out
+ * or runs out of states, and the number of visited nodes per second is reported.
+ * A short unmeasured search runs first, so that the first world is not charged for compilation.
+ *
+ * Usage: node benchmark-planner.js [timeout in seconds] [world ...]
+ */
+
+const args = process.argv.slice(2);
+const timeout = args.length > 0 ? Number(args[0]) : 5;
+const worlds = args.length > 1 ? args.slice(1) : Object.keys(ExampleWorlds);
+
+const warmUp = ExampleWorlds[worlds[0]];
+if (warmUp) {
+    aStarSearch(new GraphLowLevel(), NodeLowLevel.fromWorld(warmUp), (node) => false, (node) => 0, 0.5);
+}
+
+let total = 0;
+for (const name of worlds) {
+    const world = ExampleWorlds[name];
+    if (!world) {
+        console.error(`ERROR: Unknown world ${name}`);
+        process.exit(1);
+    }
+    const start = Date.now();
+    const search = aStarSearch(new GraphLowLevel(), NodeLowLevel.fromWorld(world), (node) => false, (node) => 0,
+        timeout);
+    const seconds = (Date.now() - start) / 1000;
+    total += search.visited;
+    console.log(`${name}: ${search.visited} nodes in ${seconds.toFixed(2)} s (${search.status}), `
+        + `${Math.round(search.visited / seconds)} nodes/s`);
+}
+console.log(`Total: ${total} nodes`);
@@ -0,0 +1,70 @@
+import {CostPresets, ICostModel, parseCostModel} from "../planner/CostModel";
+
+/*
+ * test-costmodel
+ *
+ * Tests that parseCostModel reads valid cost models, fills in the missing costs from the unit model,
+ * and rejects every cost model that the planner cannot use.
+ *
+ * Usage: node test-costmodel.js
+ */
+
+const validCases: Array<{json: string, model: ICostModel}> = [
+    {json: "{}", model: CostPresets.unit},
+    {json: JSON.stringify(CostPresets.robot), model: CostPresets.robot},
+    {
+        json: `{"move": 0.5, "carry": {"large": 0}, "handle": {"ball": 2}}`,
+        model: {carry: {large: 0}, drop: 1, handle: {ball: 2}, move: 0.5, pick: 1},
+    },
+];
+
+const invalidCases: Array<{json: string, error: string}> = [
+    {json: "[1, 2]", error: "must be an object"},
+    {json: "null", error: "must be an object"},
+    {json: `{"speed": 1}`, error: `Unknown cost "speed"`},
+    {json: `{"pick": -1}`, error: `"pick" must be a positive number`},
+    {json: `{"move": 0}`, error: `"move" must be a positive number`},
+    {json: `{"drop": "2"}`, error: `"drop" must be a positive number`},
+    {json: `{"carry": {"large": -0.5}}`, error: `"carry.large" must be a non-negative number`},
+    {json: `{"carry": 1}`, error: `"carry" must be an object of costs`},
+    {json: `{"carry": [1]}`, error: `"carry" must be an object of costs`},
+    {json: `{"handle": null}`, error: `"handle" must be an object of costs`},
+];
+
+let failed = 0;
+for (const test of validCases) {
+    let result: string;
+    try {
+        result = JSON.stringify(sortKeys(parseCostModel(test.json)));
+    } catch (err) {
+        result = `error: ${err.message}`;
+    }
+    const expected = JSON.stringify(sortKeys(test.model));
+    if (result !== expected) {
+        failed++;
+        console.log(`FAILED: ${test.json}\n  expected ${expected}\n  got      ${result}`);
+    }
+}
+for (const test of invalidCases) {
+    let result: string;
+    try {
+        result = `no error, the model is ${JSON.stringify(parseCostModel(test.json))}`;
+    } catch (err) {
+        result = err.message;
+    }
+    if (result.indexOf(test.error) < 0) {
+        failed++;
+        console.log(`FAILED: ${test.json}\n  expected an error with: ${test.error}\n  got: ${result}`);
+    }
+}
+console.log(`Tested ${validCases.length + invalidCases.length} cost models, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
+
+function sortKeys(model: ICostModel): any {
+    const sorted: {[key: string]: any} = {};
+    for (const key of Object.keys(model).sort()) {
+        const value = (model as any)[key];
+        sorted[key] = typeof value === "object" ? sortKeys(value) : value;
+    }
+    return sorted;
+}
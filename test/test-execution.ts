@@ -0,0 +1,133 @@
+import {WorldHistory} from "../core/History";
+import {Plan} from "../core/Plan";
+import {performStep} from "../world/Arms";
+import {ExampleWorlds} from "../world/ExampleWorlds";
+import {executePlan, IExecutionResult, Replanner} from "../world/PlanExecution";
+import {WorldState} from "../world/World";
+
+/*
+ * test-execution
+ *
+ * Tests that executePlan checks every action before it is performed: a plan halts at the first action
+ * that breaks the physical laws, reports which action it was and why, and makes at most one new plan.
+ * The performed actions are what History.correct needs to undo a halted plan.
+ *
+ * Usage: node test-execution.js
+ */
+
+// Carries the large white ball of the small world to the small black ball, and drops it there,
+// which is refused since a ball cannot support anything
+const faultyPlan = ["p", "I carry the ball.", "# a comment, which is not said", "r", "r", "r", "d", "l"];
+const refusal = `The arm cannot drop "LargeWhiteBall", it cannot be on top of "SmallBlackBall" in column 4`;
+
+let failed = 0;
+let tested = 0;
+
+// The plan halts before the drop, the actions before it are performed and the comment is skipped
+perform(faultyPlan, undefined, (state, result, said) => {
+    check("halted plan: performed actions", result.performed, ["p", "r", "r", "r"]);
+    check("halted plan: completed", result.completed, false);
+    check("halted plan: failures", result.failures, [{action: "d", index: 5, reason: refusal}]);
+    check("halted plan: utterances", said, [
+        "I carry the ball.",
+        `Stopped before action "d" (action 5 of the plan): ${refusal}`,
+    ]);
+    check("halted plan: arm", [state.arm, state.holding], [3, "LargeWhiteBall"]);
+    check("halted plan: stacks", state.stacks, ExampleWorlds.small.stacks.map((stack, column) =>
+        column === 0 ? [] : stack));
+});
+
+// Undo only reverts the actions that were performed, once the history is corrected
+perform(faultyPlan, undefined, (state, result) => {
+    const history = new WorldHistory("move");
+    history.record(startState(), faultyPlan);
+    history.correct(result.performed);
+    const restoration = history.undo(1);
+    check("corrected history: undo actions", restoration.actions, ["l", "l", "l", "d"]);
+    check("corrected history: undo state", restoration.state.stacks, ExampleWorlds.small.stacks);
+});
+
+// A plan that halts at its first action did nothing, so there is nothing to undo
+perform(["d", "r"], undefined, (state, result) => {
+    const history = new WorldHistory("move");
+    history.record(startState(), ["d", "r"]);
+    history.correct(result.performed);
+    check("forgotten plan: failures", result.failures, [
+        {action: "d", index: 1, reason: "The arm is not holding anything"},
+    ]);
+    let error = "no error";
+    try {
+        history.undo(1);
+    } catch (err) {
+        error = err.message;
+    }
+    check("forgotten plan: undo", error, "There is nothing to undo.");
+});
+
+// The new plan starts from where the arm halted, and its actions are counted from 1 again
+const replans: Array<Array<number | string | null>> = [];
+perform(faultyPlan, (state) => {
+    replans.push([state.arm, state.holding]);
+    return Plan.fromLegacy(["l", "l", "d", "r", "p"], state);
+}, (state, result, said) => {
+    check("replanned: number of new plans", replans.length, 1);
+    check("replanned: start of the new plan", replans[0], [3, "LargeWhiteBall"]);
+    check("replanned: performed actions", result.performed, ["p", "r", "r", "r", "l", "l", "d", "r"]);
+    check("replanned: failures", result.failures.map((failure) => [failure.action, failure.index]), [
+        ["d", 5],
+        ["p", 5],
+    ]);
+    check("replanned: completed", result.completed, false);
+    check("replanned: announcement", said.indexOf("I make a new plan from here.") >= 0, true);
+});
+
+// A new plan is only made once, even if it halts too
+let calls = 0;
+perform(faultyPlan, (state) => {
+    calls++;
+    return Plan.fromLegacy(["d"], state);
+}, (state, result) => {
+    check("single replan: calls", calls, 1);
+    check("single replan: failures", result.failures.length, 2);
+    check("single replan: performed actions", result.performed, ["p", "r", "r", "r"]);
+});
+
+console.log(`Tested ${tested} outcomes of plans, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
+
+function startState(): WorldState {
+    const world = ExampleWorlds.small;
+    return {
+        arm: world.arm,
+        examples: [],
+        holding: world.holding,
+        objects: world.objects,
+        stacks: world.stacks.map((stack) => stack.slice()),
+    };
+}
+
+function perform(plan: string[],
+                 replan: Replanner | undefined,
+                 verify: (state: WorldState, result: IExecutionResult, said: string[]) => void): void {
+    const state = startState();
+    const said: string[] = [];
+    executePlan(state, Plan.fromLegacy(plan, state), {
+        halt: (explanation) => said.push(explanation),
+        perform: (action, next) => {
+            performStep(state, action);
+            next();
+        },
+        say: (utterance, next) => {
+            said.push(utterance);
+            next();
+        },
+    }, replan, (result) => verify(state, result, said));
+}
+
+function check(name: string, actual: any, expected: any): void {
+    tested++;
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        failed++;
+        console.log(`FAILED: ${name}\n  expected ${JSON.stringify(expected)}\n  got      ${JSON.stringify(actual)}`);
+    }
+}
@@ -1,4 +1,6 @@
+import {DiscourseMemory} from "../core/Discourse";
 import {ShrdliteResult} from "../core/Types";
+import {AmbiguityError} from "../interpreter/AmbiguityError";
 import {interpret} from "../interpreter/Interpreter";
 import {parse} from "../parser/Parser";
 import {ExampleWorlds} from "../world/ExampleWorlds";
@@ -18,6 +20,19 @@ function runTest(testcase: TestCase): boolean {
     const world = new TextWorld(ExampleWorlds[testcase.world]);
     const utterance = testcase.utterance;
 
+    // The previous utterances mention the objects of their first interpretation, like a successful command
+    const discourse = new DiscourseMemory();
+    for (const previous of testcase.previous || []) {
+        try {
+            const conjuncts = interpret(parse(previous), [], world.currentState, discourse)[0].interpretation.conjuncts;
+            discourse.mention(conjuncts.length > 0 ? conjuncts[0].literals : []);
+        } catch (err) {
+            console.log("ERROR: Previous utterance error!", err);
+            console.log();
+            return false;
+        }
+    }
+
     let parses: ShrdliteResult[];
     try {
         parses = parse(utterance);
@@ -35,16 +50,23 @@ function runTest(testcase: TestCase): boolean {
 
     const correctints: string[] = testcase.interpretations.map(cleanup).sort();
     let interpretations: string[] = [];
+    let ambiguous = false;
     try {
-        const intps: ShrdliteResult[] = interpret(parses, [], world.currentState);
+        const intps: ShrdliteResult[] = interpret(parses, [], world.currentState, discourse);
         interpretations = intps.map(
             (intp) => cleanup(intp.interpretation.toString())
         ).sort()
             .filter((intp, n, sorted_intps) => intp !== sorted_intps[n - 1]); // only keep unique interpretations
     } catch (err) {
+        ambiguous = err instanceof AmbiguityError;
         console.log("ERROR: Interpretation error!", err);
         console.log();
     }
+    if (testcase.ambiguous && !ambiguous) {
+        console.log("The interpreter should ask which object is meant");
+        console.log();
+        return false;
+    }
 
     console.log("Correct interpretations:");
     let n = 0;
@@ -0,0 +1,126 @@
+import {IPlanStatistics, Plan} from "../core/Plan";
+import {DNFFormula, Entity, Location, MoveCommand, ShrdliteResult, SimpleObject} from "../core/Types";
+import {plan} from "../planner/Planner";
+import {ExampleWorlds} from "../world/ExampleWorlds";
+import {WorldState} from "../world/World";
+
+/*
+ * test-plan
+ *
+ * Tests that plans survive a round trip through the legacy format: Plan.fromLegacy reads the plans
+ * of the current and of older versions, and Plan.toLegacy writes them back, without the comments.
+ *
+ * Usage: node test-plan.js
+ */
+
+// The small world, with a second arm in the rightmost column
+const twoArms: WorldState = {...ExampleWorlds.small, otherArms: [{arm: 4, holding: null}]};
+
+const cases: Array<{
+    name: string,
+    world: WorldState,
+    items: string[],
+    legacy: string[],
+    statistics?: IPlanStatistics,
+}> = [
+    {
+        items: ["I pick up the ball.", "p", "r", "d", "Path with 2 moves and cost 3 (9 visited nodes)"],
+        legacy: ["I pick up the ball.", "p", "r", "d", "Path with 2 moves and cost 3 (9 visited nodes)"],
+        name: "goal search",
+        statistics: {cost: 3, length: 2, search: "goals", visited: 9},
+        world: ExampleWorlds.small,
+    },
+    {
+        items: ["p", "r", "d", "Shortest path with 3 actions and cost 2.5 (40 visited nodes)"],
+        legacy: ["p", "r", "d", "Shortest path with 3 actions and cost 2.5 (40 visited nodes)"],
+        name: "optimal search",
+        statistics: {cost: 2.5, length: 3, search: "shortest", visited: 40},
+        world: ExampleWorlds.small,
+    },
+    {
+        items: ["I pick up the ball.", "p", "r", "d", "Path with 2 moves (9 visited nodes)"],
+        legacy: ["I pick up the ball.", "p", "r", "d", "Path with 2 moves (9 visited nodes)"],
+        name: "goal search without cost",
+        statistics: {length: 2, search: "goals", visited: 9},
+        world: ExampleWorlds.small,
+    },
+    {
+        items: ["p", "r", "d", "Shortest path with 3 actions (40 visited nodes)"],
+        legacy: ["p", "r", "d", "Shortest path with 3 actions (40 visited nodes)"],
+        name: "optimal search without cost",
+        statistics: {length: 3, search: "shortest", visited: 40},
+        world: ExampleWorlds.small,
+    },
+    {
+        items: ["# picks up the white ball", "P", "", "  r ", "#d", "d"],
+        legacy: ["p", "r", "d"],
+        name: "comments and spacing",
+        world: ExampleWorlds.small,
+    },
+    {
+        items: ["p-", "rl", "I pick up the black ball.", "-p", "d-", "Shortest path with 5 actions (7 visited nodes)"],
+        legacy: ["p-", "rl", "I pick up the black ball.", "-p", "d-", "Shortest path with 5 actions (7 visited nodes)"],
+        name: "two arms",
+        statistics: {length: 5, search: "shortest", visited: 7},
+        world: twoArms,
+    },
+];
+
+let failed = 0;
+for (const test of cases) {
+    const parsed = Plan.fromLegacy(test.items, test.world);
+    check(test.name, parsed.toLegacy(), test.legacy);
+    check(`${test.name}: statistics`, parsed.statistics, test.statistics);
+    check(`${test.name}: second round trip`, Plan.fromLegacy(parsed.toLegacy(), test.world).steps, parsed.steps);
+}
+
+// The actions of several arms tell what each arm that acts does, the arms that wait are left out
+const steps = Plan.fromLegacy(["p-", "rl", "-p", "d-"], twoArms).steps;
+check("two arms: moving arms", steps[1], {
+    action: "rl",
+    arms: [
+        {action: "r", arm: 0, column: 1, object: "LargeWhiteBall"},
+        {action: "l", arm: 1, column: 3, object: null},
+    ],
+    kind: "action",
+});
+check("two arms: picking arm", steps[2], {
+    action: "-p",
+    arms: [{action: "p", arm: 1, column: 3, object: "SmallBlackBall"}],
+    kind: "action",
+});
+
+// A plan of the planner reads back the same, except for the goals of the steps, also with steps of both arms
+for (const world of [ExampleWorlds.small, twoArms]) {
+    const dnf = DNFFormula.parse("inside(LargeWhiteBall,LargeYellowBox)");
+    const entity = new Entity("the", new SimpleObject("anyform", null, null));
+    const command = new MoveCommand(entity, new Location("ontop", entity));
+    const result = plan([new ShrdliteResult(dnf.toString(), command, dnf, new Plan())], world, "hierarchical");
+    const planned = result[0].plan;
+    const parsed = Plan.fromLegacy(planned.toLegacy(), world);
+    const name = `planner with ${world.otherArms ? 2 : 1} arm(s)`;
+    check(name, parsed.toLegacy(), planned.toLegacy());
+    check(`${name}: steps`, parsed.steps, planned.steps.map((step) => {
+        const copy = {...step};
+        delete copy.goal;
+        return copy;
+    }));
+    check(`${name}: statistics`, parsed.statistics, planned.statistics);
+}
+
+console.log(`Tested ${cases.length + 2} plans, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
+
+function check(name: string, actual: any, expected: any): void {
+    if (stringify(actual) !== stringify(expected)) {
+        failed++;
+        console.log(`FAILED: ${name}\n  expected ${stringify(expected)}\n  got      ${stringify(actual)}`);
+    }
+}
+
+// Like JSON.stringify, but the keys of objects are sorted
+function stringify(value: any): string {
+    return JSON.stringify(value, (key, inner) => inner === null || typeof inner !== "object" || inner instanceof Array
+        ? inner
+        : Object.keys(inner).sort().reduce((sorted, name) => ({...sorted, [name]: inner[name]}), {}));
+}
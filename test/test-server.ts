@@ -0,0 +1,326 @@
+import * as childProcess from "child_process";
+import * as crypto from "crypto";
+import * as http from "http";
+import * as net from "net";
+import * as path from "path";
+import {encodeFrame, FrameReader, Opcodes} from "../core/WebSocket";
+
+/*
+ * test-server
+ *
+ * Starts shrdlite-server and tests its endpoints: sessions on named and uploaded worlds, utterances,
+ * clarification questions, undo, the WebSocket, and the expiry of idle sessions. Sessions must not
+ * see each other's world or dialogue, and a long search in one session must not hold up the others.
+ *
+ * Usage: node test-server.js
+ */
+
+interface IResponse {
+    status: number;
+    body: any;
+}
+
+interface IServer {
+    process: childProcess.ChildProcess;
+    port: number;
+}
+
+// The whole test gives up after this many seconds, so that a hanging server does not hang the test
+const testTimeout = 120;
+
+// Planned optimally, this takes the search a while, see the 'auto' planner mode
+const slowWorld = "random:seed=5,cols=8,objs=12,arms=3";
+const slowUtterance = "put a ball in a box";
+
+let failed = 0;
+let tested = 0;
+const servers: IServer[] = [];
+let server: IServer;
+const ids: {[name: string]: string} = {};
+
+const steps: Array<(next: () => void) => void> = [
+    (next) => startServer(["--planner", "optimal"], (started) => {
+        server = started;
+        next();
+    }),
+
+    // Two sessions on the same world, which each get a copy of it
+    (next) => request("POST", "/sessions", {world: "small"}, (first) => {
+        check("create session: status", first.status, 201);
+        ids.a = first.body.id;
+        request("POST", "/sessions", {world: "small"}, (second) => {
+            ids.b = second.body.id;
+            check("create session: different ids", ids.a !== ids.b, true);
+            check("create session: world", second.body.world.stacks[0], ["LargeWhiteBall"]);
+            next();
+        });
+    }),
+    (next) => request("POST", "/sessions", {world: "atlantis"}, (response) => {
+        check("unknown world: status", response.status, 400);
+        check("unknown world: error", response.body.error, "Unknown world: atlantis");
+        next();
+    }),
+    (next) => request("GET", "/sessions/0123456789abcdef", undefined, (response) => {
+        check("unknown session: status", response.status, 404);
+        next();
+    }),
+    (next) => post(ids.a, "utterances", "{", (response) => {
+        check("invalid JSON: status", response.status, 400);
+        next();
+    }),
+
+    // The world of one session changes, the other one does not
+    (next) => post(ids.a, "utterances", {utterance: "take the white ball"}, (response) => {
+        check("utterance: status", response.status, 200);
+        check("utterance: record", [response.body.status, response.body.execution.performed], ["done", ["p"]]);
+        request("GET", `/sessions/${ids.a}/state`, undefined, (state) => {
+            check("utterance: state", state.body.holding, "LargeWhiteBall");
+            request("GET", `/sessions/${ids.b}/state`, undefined, (other) => {
+                check("isolation: state of the other session", other.body.holding, null);
+                next();
+            });
+        });
+    }),
+
+    // A question is only pending in the session that asked it
+    (next) => post(ids.b, "utterances", {utterance: "take the ball"}, (response) => {
+        check("question: status", response.body.status, "question");
+        post(ids.a, "answers", {answer: "the black one"}, (other) => {
+            check("isolation: answer in the other session", other.status, 409);
+            post(ids.b, "answers", {answer: "the black one"}, (answer) => {
+                check("answer: record", [answer.body.status, answer.body.interpretations],
+                    ["done", ["holding(SmallBlackBall)"]]);
+                next();
+            });
+        });
+    }),
+
+    // Undo only reverts the commands of its own session
+    (next) => post(ids.a, "utterances", {utterance: "undo"}, (response) => {
+        check("undo: holding", response.body.world.holding, null);
+        request("GET", `/sessions/${ids.b}`, undefined, (other) => {
+            check("isolation: undo in the other session", other.body.world.holding, "SmallBlackBall");
+            next();
+        });
+    }),
+
+    // Uploaded worlds must obey the physical laws
+    (next) => request("GET", `/sessions/${ids.a}/state`, undefined, (state) => {
+        const world = state.body;
+        request("POST", "/sessions", {state: world}, (valid) => {
+            check("uploaded world: status", valid.status, 201);
+            world.stacks[2] = ["SmallBlueBox", "LargeRedBox"];
+            world.stacks[1] = ["LargeBlueTable"];
+            world.stacks[3] = ["LargeYellowBox", "SmallBlackBall"];
+            request("POST", "/sessions", {state: world}, (invalid) => {
+                check("invalid world: status", invalid.status, 400);
+                check("invalid world: error", /physical laws/.test(invalid.body.error), true);
+                request("DELETE", `/sessions/${valid.body.id}`, undefined, (deleted) => {
+                    check("delete session: status", deleted.status, 204);
+                    request("GET", `/sessions/${valid.body.id}`, undefined, (gone) => {
+                        check("delete session: gone", gone.status, 404);
+                        next();
+                    });
+                });
+            });
+        });
+    }),
+
+    // Other sessions are answered while one session searches for a plan
+    (next) => request("POST", "/sessions", {world: slowWorld}, (slow) => {
+        const order: string[] = [];
+        post(slow.body.id, "utterances", {utterance: slowUtterance}, (response) => {
+            order.push("slow utterance");
+            check("slow utterance: status", response.body.status, "done");
+            check("non-blocking: order", order, ["other session", "slow utterance"]);
+            next();
+        });
+        setTimeout(() => request("GET", `/sessions/${ids.b}`, undefined, (other) => {
+            order.push("other session");
+            check("non-blocking: other session", other.status, 200);
+        }), 100);
+    }),
+
+    // The WebSocket runs utterances and sends their events
+    (next) => openSocket(ids.a, (socket) => {
+        socket.send("not JSON");
+        socket.waitFor((message) => message.type === "error", (error) => {
+            check("socket: invalid JSON", /^Invalid JSON/.test(error.error), true);
+            socket.send(JSON.stringify({answer: "the black one"}));
+            socket.waitFor((message) => message.type === "error", (noQuestion) => {
+                check("socket: answer without question", noQuestion.error, "There is no question to answer");
+                socket.send(JSON.stringify({utterance: "take the white ball"}));
+                socket.waitFor((message) => message.type === "record", (record) => {
+                    const actions = socket.messages.filter((message) => message.type === "action");
+                    check("socket: actions", actions.map((action) => action.action), ["p"]);
+                    check("socket: record", [record.record.status, record.record.world.holding],
+                        ["done", "LargeWhiteBall"]);
+                    socket.close();
+                    next();
+                });
+            });
+        });
+    }),
+
+    // An idle session is closed, and its followers are told why
+    (next) => startServer(["--idle", "1"], (started) => {
+        server = started;
+        request("POST", "/sessions", {world: "small"}, (created) => {
+            const id = created.body.id;
+            const since = Date.now();
+            const options = {agent: false, host: "127.0.0.1", path: `/sessions/${id}/events`, port: server.port};
+            const events = http.get(options, (response) => {
+                let text = "";
+                response.setEncoding("utf8");
+                response.on("data", (chunk: string) => text += chunk);
+                response.on("end", () => {
+                    const closed = /event: close\ndata: {"reason":"The session expired"}/.test(text);
+                    check("expiry: close event", closed, true);
+                    check("expiry: idle time", Date.now() - since >= 1000, true);
+                    request("GET", `/sessions/${id}`, undefined, (gone) => {
+                        check("expiry: session", gone.status, 404);
+                        next();
+                    });
+                });
+            });
+            events.on("error", (err) => fail(`expiry: ${err.message}`));
+        });
+    }),
+];
+
+const timer = setTimeout(() => fail(`the test did not end within ${testTimeout} seconds`), testTimeout * 1000);
+runSteps(0);
+
+function runSteps(index: number): void {
+    if (index < steps.length) {
+        steps[index](() => runSteps(index + 1));
+        return;
+    }
+    clearTimeout(timer);
+    servers.forEach((started) => started.process.kill());
+    console.log(`Tested ${tested} responses of the server, ${failed} failed`);
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+/**
+ * Start a server on a free port.
+ * @param options: The options of the server, besides the port.
+ * @param callback: Called when the server listens.
+ */
+function startServer(options: string[], callback: (started: IServer) => void): void {
+    const script = path.join(__dirname, "..", "core", "shrdlite-server.js");
+    const child = childProcess.spawn(process.execPath, [script, "--port", "0"].concat(options));
+    let output = "";
+    child.stdout.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => {
+        const wasListening = /listening on http:\/\/[^:]+:(\d+)\//.test(output);
+        output += chunk;
+        const match = /listening on http:\/\/[^:]+:(\d+)\//.exec(output);
+        if (match && !wasListening) {
+            const started = {port: Number(match[1]), process: child};
+            servers.push(started);
+            callback(started);
+        }
+    });
+    child.stderr.pipe(process.stderr);
+    child.on("exit", (code) => {
+        if (servers.every((started) => started.process !== child)) {
+            fail(`the server exited with code ${code} before listening: ${output}`);
+        }
+    });
+}
+
+function post(id: string, endpoint: string, body: any, callback: (response: IResponse) => void): void {
+    request("POST", `/sessions/${id}/${endpoint}`, body, callback);
+}
+
+function request(method: string, url: string, body: any, callback: (response: IResponse) => void): void {
+    const text = body === undefined ? "" : typeof body === "string" ? body : JSON.stringify(body);
+    const sent = http.request({agent: false, host: "127.0.0.1", method, path: url, port: server.port}, (response) => {
+        let received = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk: string) => received += chunk);
+        response.on("end", () => callback({
+            body: received === "" ? undefined : JSON.parse(received),
+            status: response.statusCode || 0,
+        }));
+    });
+    sent.on("error", (err) => fail(`${method} ${url}: ${err.message}`));
+    sent.end(text);
+}
+
+/**
+ * Connect to the WebSocket of a session, like a browser would.
+ * @param id: The session.
+ * @param callback: Called with the client after the handshake.
+ */
+function openSocket(id: string, callback: (client: {
+    messages: any[],
+    send: (text: string) => void,
+    waitFor: (predicate: (message: any) => boolean, found: (message: any) => void) => void,
+    close: () => void,
+}) => void): void {
+    const key = crypto.randomBytes(16).toString("base64");
+    const expected = crypto.createHash("sha1").update(key + "258EAFA5-E914-47DA-95CA-C5AB0DC85B11").digest("base64");
+    const socket = net.connect(server.port, "127.0.0.1");
+    const reader = new FrameReader(1024 * 1024);
+    const messages: any[] = [];  // All messages that were received
+    let position = 0;            // The first message that was not found by waitFor yet
+    let waiting: {predicate: (message: any) => boolean, found: (message: any) => void} | undefined;
+    let handshake: Buffer | undefined = Buffer.alloc(0);
+    const client = {
+        close: () => socket.end(encodeFrame(Opcodes.close, Buffer.alloc(0), crypto.randomBytes(4))),
+        messages,
+        send: (text: string) => socket.write(encodeFrame(Opcodes.text, Buffer.from(text), crypto.randomBytes(4))),
+        waitFor: (predicate: (message: any) => boolean, found: (message: any) => void) => {
+            waiting = {found, predicate};
+            receive([]);
+        },
+    };
+    const receive = (frames: Array<{opcode: number, payload: Buffer}>) => {
+        frames.filter((frame) => frame.opcode === Opcodes.text)
+            .forEach((frame) => messages.push(JSON.parse(frame.payload.toString("utf8"))));
+        const match = waiting ? messages.slice(position).filter(waiting.predicate)[0] : undefined;
+        if (waiting && match) {
+            const found = waiting.found;
+            position = messages.indexOf(match, position) + 1;
+            waiting = undefined;
+            found(match);
+        }
+    };
+    socket.on("data", (data: Buffer) => {
+        if (handshake === undefined) {
+            receive(reader.push(data));
+            return;
+        }
+        handshake = Buffer.concat([handshake, data]);
+        const end = handshake.indexOf("\r\n\r\n");
+        if (end >= 0) {
+            const headers = handshake.slice(0, end).toString("utf8");
+            const rest = handshake.slice(end + 4);
+            handshake = undefined;
+            check("socket: handshake", /^HTTP\/1.1 101 /.test(headers)
+                && headers.indexOf(`Sec-WebSocket-Accept: ${expected}`) >= 0, true);
+            callback(client);
+            receive(reader.push(rest));
+        }
+    });
+    socket.on("error", (err) => fail(`socket: ${err.message}`));
+    socket.write(`GET /sessions/${id}/socket HTTP/1.1\r\nHost: 127.0.0.1:${server.port}\r\n`
+        + `Upgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Key: ${key}\r\n`
+        + "Sec-WebSocket-Version: 13\r\n\r\n");
+}
+
+function check(name: string, actual: any, expected: any): void {
+    tested++;
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        failed++;
+        console.log(`FAILED: ${name}\n  expected ${JSON.stringify(expected)}\n  got      ${JSON.stringify(actual)}`);
+    }
+}
+
+function fail(problem: string): void {
+    console.log(`FAILED: ${problem}`);
+    servers.forEach((started) => started.process.kill());
+    process.exit(1);
+}
@@ -0,0 +1,187 @@
+import {Plan} from "../core/Plan";
+import {
+    Conjunction,
+    DNFFormula,
+    Entity,
+    Literal,
+    Location,
+    MoveCommand,
+    ShrdliteResult,
+    SimpleObject,
+} from "../core/Types";
+import {aStarSearch} from "../planner/AStarSearch";
+import {CostPresets, CostSettings} from "../planner/CostModel";
+import {estimateFormula, HeuristicSettings} from "../planner/Heuristics";
+import {plan} from "../planner/Planner";
+import {canPlace, getPlanCost, GraphLowLevel, NodeLowLevel} from "../planner/PlannerLowLevel";
+import {isFormulaTrue, PlannerMode} from "../planner/PlannerOptimal";
+import {ExampleWorlds} from "../world/ExampleWorlds";
+import {generateWorld, parseRandomWorldName} from "../world/RandomWorld";
+import {WorldState} from "../world/World";
+
+/*
+ * verify-heuristics
+ *
+ * Checks the heuristics of the planner against an exhaustive low level search on small worlds.
+ * The exhaustive search finds the cheapest plan for a goal, with the relations of the interpreter, and then:
+ * - the lower bound of every state along the cheapest plan must not exceed the cost of the rest of the plan,
+ * - the planner must not find a plan that is cheaper than the cheapest one, in either heuristic mode,
+ * - the optimal planner must find a plan that costs exactly as much as the cheapest one,
+ * - the plan of each planner must reach a state where the other planner has nothing left to do,
+ * - the plans must not leave objects in an arm that the goal does not ask to hold.
+ * The plan costs of the hierarchical planner in the admissible and the weighted mode are reported,
+ * it only tries plans that fulfill one goal after another, so even the admissible mode can miss the cheapest plan.
+ *
+ * Usage: node verify-heuristics.js [number of random worlds] [cost model]
+ */
+
+const exhaustiveTimeout = 10;
+const randomWorlds = process.argv.length > 2 ? Number(process.argv[2]) : 10;
+CostSettings.model = CostPresets[process.argv[3] || "unit"];
+if (!CostSettings.model) {
+    console.error(`ERROR: Unknown cost model, the cost models are: ${Object.keys(CostPresets).join(", ")}`);
+    process.exit(1);
+}
+
+const cases: Array<{name: string, world: WorldState, dnf: string}> = [
+    "holding(SmallBlackBall)",
+    "holding(LargeRedBox)",
+    "inside(SmallBlackBall,LargeRedBox)",
+    "inside(LargeWhiteBall,LargeRedBox)",
+    "ontop(LargeRedBox,LargeYellowBox) | inside(SmallBlackBall,LargeRedBox)",
+    "above(SmallBlackBall,LargeBlueTable)",
+    "under(LargeBlueTable,SmallBlueBox)",
+    "leftof(LargeYellowBox,LargeWhiteBall)",
+    "beside(SmallBlueBox,LargeWhiteBall) & rightof(LargeRedBox,LargeYellowBox)",
+    "-inside(SmallBlackBall,SmallBlueBox) & -inside(SmallBlueBox,LargeYellowBox)",
+    "-inside(SmallBlackBall,SmallBlueBox)",
+].map((dnf) => ({dnf, name: "small", world: ExampleWorlds.small}));
+
+// Small random worlds, with a goal for every relation between two objects that can hold
+for (let seed = 1; seed <= randomWorlds; seed++) {
+    const name = `random:seed=${seed},cols=3,objs=4`;
+    const world = generateWorld(parseRandomWorldName(name));
+    const names = Object.keys(world.objects);
+    const [a, b] = [names[0], names[names.length - 1]];
+    if (a === b) {
+        continue;
+    }
+    const relation = canPlace(world.objects[a], world.objects[b])
+        ? world.objects[b].form === "box" ? "inside" : "ontop"
+        : ["above", "under", "beside", "leftof", "rightof"][seed % 5];
+    cases.push({dnf: `${relation}(${a},${b}) | holding(${b})`, name, world});
+    cases.push({dnf: `beside(${a},${b}) & -above(${b},${a})`, name, world});
+}
+
+// Worlds with two arms, where an arm that is not needed must wait
+cases.push({
+    dnf: "ontop(LrgBluBrck,LrgRedTble)",
+    name: "random:seed=3,cols=6,objs=6,arms=2",
+    world: generateWorld(parseRandomWorldName("random:seed=3,cols=6,objs=6,arms=2")),
+});
+for (let seed = 1; seed <= randomWorlds; seed++) {
+    const name = `random:seed=${seed},cols=4,objs=4,arms=2`;
+    const world = generateWorld(parseRandomWorldName(name));
+    const names = Object.keys(world.objects);
+    cases.push({dnf: `holding(${names[0]})`, name, world});
+    cases.push({dnf: `leftof(${names[names.length - 1]},${names[0]})`, name, world});
+}
+
+let failed = 0;
+let optimal = 0;
+let compared = 0;
+let extra = [0, 0];  // The cost that the hierarchical planner adds to the cheapest plans, in each mode
+for (const test of cases) {
+    const dnf = DNFFormula.parse(test.dnf);
+    const start = NodeLowLevel.fromWorld(test.world);
+    const search = aStarSearch(new GraphLowLevel(), start, (node) => isFormulaTrue(dnf, node), (node) => 0,
+        exhaustiveTimeout);
+    if (search.status !== "success") {
+        console.log(`${test.name}: ${test.dnf}: skipped, the exhaustive search ended with ${search.status}`);
+        continue;
+    }
+
+    // Every state along the cheapest plan is at least as far from the goal as the rest of the plan costs
+    let remaining = search.cost;
+    const overestimates = [start].concat(search.path.map((step) => step.child)).filter((state, index) => {
+        const overestimate = estimateFormula(dnf, state) > remaining;
+        remaining -= index < search.path.length ? search.path[index].cost : 0;
+        return overestimate;
+    });
+    const plans = (["admissible", "weighted"] as Array<typeof HeuristicSettings.mode>)
+        .map((mode) => planActions(dnf, test.world, "hierarchical", mode));
+    const optimalPlan = planActions(dnf, test.world, "optimal", "admissible");
+    const costs = plans.map((actions) => actions === null ? null : getPlanCost(actions, test.world));
+    const cheapest = optimalPlan === null ? null : getPlanCost(optimalPlan, test.world);
+    const problems = overestimates.map((state) => `overestimates ${estimateFormula(dnf, state)} in state ${state}`)
+        .concat(costs.filter((cost) => cost !== null && cost < search.cost)
+            .map((cost) => `found a plan that costs ${cost}, less than the cheapest`))
+        .concat(cheapest === search.cost ? [] : [`the optimal planner found ${describeCost(cheapest)}`]);
+
+    // A held object is not yet anywhere, so both planners must also put it down for a negated goal
+    if (optimalPlan !== null) {
+        const state = performActions(optimalPlan, test.world);
+        const rest = planActions(dnf, state.toWorld(), "hierarchical", "admissible");
+        if (rest === null || getPlanCost(rest, state.toWorld()) > 0) {
+            problems.push(`the hierarchical planner has more to do after the optimal plan, in state ${state}`);
+        }
+    }
+    if (plans[0] !== null && !isFormulaTrue(dnf, performActions(plans[0]!, test.world))) {
+        problems.push("the optimal planner does not accept the end of the hierarchical plan");
+    }
+    [plans[0], optimalPlan].forEach((actions, index) => {
+        // Any holding literal of the goal allows its object to be held
+        const literals = dnf.conjuncts.reduce((all, conjunction) => all.concat(conjunction.literals), [] as Literal[]);
+        const held = actions === null ? []
+            : performActions(actions, test.world).getStrayItems(new Conjunction(literals));
+        if (held.length > 0) {
+            problems.push(`the ${index === 0 ? "hierarchical" : "optimal"} planner left ${held.join(", ")} in an arm`);
+        }
+    });
+
+    compared++;
+    if (costs[0] === search.cost) {
+        optimal++;
+    }
+    extra = extra.map((sum, index) => sum + (costs[index] === null ? 0 : costs[index]! - search.cost));
+    failed += problems.length > 0 ? 1 : 0;
+    console.log(`${test.name}: ${test.dnf}: cheapest ${search.cost}, bound ${estimateFormula(dnf, start)}, `
+        + `optimal ${describeCost(cheapest)}, `
+        + `admissible ${describeCost(costs[0])}, weighted ${describeCost(costs[1])}`
+        + problems.map((problem) => `\n  FAILED: ${problem}`).join(""));
+}
+console.log(`Compared ${compared} goals: the admissible mode found the cheapest plan for ${optimal}, `
+    + `${failed} failed`);
+console.log(`The hierarchical planner added ${extra[0]} to the costs in the admissible mode `
+    + `and ${extra[1]} in the weighted mode`);
+process.exit(failed > 0 ? 1 : 0);
+
+function planActions(dnf: DNFFormula,
+                     world: WorldState,
+                     planner: PlannerMode,
+                     heuristic: typeof HeuristicSettings.mode): string[] | null {
+    const previous = HeuristicSettings.mode;
+    HeuristicSettings.mode = heuristic;
+    try {
+        const entity = new Entity("the", new SimpleObject("anyform", null, null));
+        const command = new MoveCommand(entity, new Location("ontop", entity));
+        const result = plan([new ShrdliteResult(dnf.toString(), command, dnf, new Plan())], world, planner);
+        return result[0].plan.getActions();
+    } catch (err) {
+        return null;
+    } finally {
+        HeuristicSettings.mode = previous;
+    }
+}
+
+function performActions(actions: string[], world: WorldState): NodeLowLevel {
+    let node = NodeLowLevel.fromWorld(world);
+    for (const action of actions) {
+        node = node.move(action) || node;
+    }
+    return node;
+}
+
+function describeCost(cost: number | null): string {
+    return cost === null ? "no plan" : String(cost);
+}
@@ -0,0 +1,139 @@
+import {IArmState, WorldState} from "./World";
+
+/*
+ * Arms
+ *
+ * Worlds can have several robot arms. The first arm is described by "arm" and "holding" of the world state,
+ * and the other arms by "otherArms", ordered from left to right. Arms cannot cross each other,
+ * and two arms are never in the same column.
+ *
+ * The plans of a world with several arms consist of steps, where a step has one action for every arm,
+ * from the leftmost to the rightmost arm: "l", "r", "p", "d", or "-" to wait. The arms perform the actions
+ * of a step at the same time, so "r-l" moves the first arm right and the third arm left while the second
+ * arm waits. In a world with one arm, a step is a single action, so its plans look like they always have.
+ */
+
+export const waitAction = "-";
+const actions = "lrpd";
+
+/**
+ * Get all arms of a world, from left to right.
+ * @param state: The world state.
+ * @returns: Copies of the states of the arms, the first arm comes first.
+ */
+export function getArms(state: WorldState): IArmState[] {
+    const first: IArmState = {arm: state.arm, holding: state.holding};
+    return [first].concat((state.otherArms || []).map((other) => ({arm: other.arm, holding: other.holding})));
+}
+
+/**
+ * Change all arms of a world.
+ * @param state: The world state to change.
+ * @param arms: The new states of the arms, from left to right.
+ */
+export function setArms(state: WorldState, arms: IArmState[]): void {
+    state.arm = arms[0].arm;
+    state.holding = arms[0].holding;
+    if (arms.length > 1) {
+        state.otherArms = arms.slice(1).map((other) => ({arm: other.arm, holding: other.holding}));
+    } else {
+        delete state.otherArms;
+    }
+}
+
+/**
+ * Count the arms of a world.
+ * @param state: The world state.
+ * @returns: The number of arms, at least 1.
+ */
+export function countArms(state: WorldState): number {
+    return 1 + (state.otherArms ? state.otherArms.length : 0);
+}
+
+/**
+ * Check if a plan item is a step.
+ * @param item: The plan item.
+ * @param arms: The number of arms of the world.
+ * @returns: True if the item has an action or "-" for every arm.
+ */
+export function isStep(item: string, arms: number): boolean {
+    if (item.length !== arms) {
+        return false;
+    }
+    for (const action of item.split("")) {
+        if (actions.indexOf(action) < 0 && (action !== waitAction || arms === 1)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Check if a step can be performed.
+ * @param state: The world state.
+ * @param step: The step.
+ * @returns: A description of the problem, or undefined if the step can be performed.
+ */
+export function checkStep(state: WorldState, step: string): string | undefined {
+    const arms = getArms(state);
+    if (!isStep(step, arms.length)) {
+        return `"${step}" is not a step for ${arms.length} arm${arms.length > 1 ? "s" : ""}`;
+    }
+    const positions: number[] = [];
+    for (let index = 0; index < arms.length; index++) {
+        const arm = arms[index];
+        const name = arms.length > 1 ? `Arm ${index + 1}` : "The arm";
+        const action = step[index];
+        const position = arm.arm + (action === "l" ? -1 : action === "r" ? 1 : 0);
+        if (position < 0 || position >= state.stacks.length) {
+            return `${name} is already at the ${action === "l" ? "left" : "right"} edge`;
+        }
+        if (action === "p" && arm.holding !== null) {
+            return `${name} is already holding something`;
+        }
+        if (action === "p" && state.stacks[arm.arm].length === 0) {
+            return `${name} cannot pick up anything from an empty stack`;
+        }
+        if (action === "d" && arm.holding === null) {
+            return `${name} is not holding anything`;
+        }
+        if (index > 0 && positions[index - 1] >= position) {
+            return `Arm ${index} and arm ${index + 1} would collide`;
+        }
+        positions.push(position);
+    }
+    return undefined;
+}
+
+/**
+ * Perform a step, all arms at the same time.
+ * @param state: The world state to change.
+ * @param step: The step.
+ * @throws: An error if the step cannot be performed, then the world state is unchanged.
+ */
+export function performStep(state: WorldState, step: string): void {
+    const problem = checkStep(state, step);
+    if (problem !== undefined) {
+        throw new Error(problem);
+    }
+    const arms = getArms(state);
+    arms.forEach((arm, index) => {
+        switch (step[index]) {
+            case "l": arm.arm--; break;
+            case "r": arm.arm++; break;
+            case "p": arm.holding = state.stacks[arm.arm].pop() as string; break;
+            case "d": state.stacks[arm.arm].push(arm.holding as string); arm.holding = null; break;
+        }
+    });
+    setArms(state, arms);
+}
+
+/**
+ * Reverse a step, so that performing it undoes the step.
+ * @param step: The step.
+ * @returns: The step with every movement in the other direction, and drops instead of picks.
+ */
+export function invertStep(step: string): string {
+    const inverse: {[action: string]: string} = {"-": "-", "d": "p", "l": "r", "p": "d", "r": "l"};
+    return step.split("").map((action) => inverse[action]).join("");
+}
@@ -0,0 +1,127 @@
+import {Plan} from "../core/Plan";
+import {canPlace} from "../planner/PlannerLowLevel";
+import {checkStep, getArms} from "./Arms";
+import {WorldState} from "./World";
+
+/*
+ * PlanExecution
+ *
+ * The execution engine shared by the worlds. Every action of a plan is checked against
+ * the physical laws in the current world state before the world performs it, and the plan
+ * halts at the first action that would break them, so that a faulty plan cannot corrupt the world.
+ * If a replanner is given, a new plan is made from the state where the plan halted.
+ */
+
+/**
+ * An action that was refused, because it would have broken the physical laws.
+ */
+export interface IExecutionFailure {
+    action: string;  // The refused action
+    index: number;   // The position of the action among the actions of its plan, counting from 1
+    reason: string;  // Why the action cannot be performed
+}
+
+/**
+ * The outcome of performing a plan.
+ */
+export interface IExecutionResult {
+    performed: string[];             // The actions that were performed, including those of new plans
+    failures: IExecutionFailure[];   // The refused actions, one for every plan that halted
+    completed: boolean;              // True if the last plan was performed to the end
+}
+
+/**
+ * Makes a new plan from a world state, or returns null if there is none.
+ */
+export type Replanner = (state: WorldState) => Plan | null;
+
+/**
+ * What the world does while a plan is performed. Only checked actions are passed to "perform".
+ */
+export interface IExecutionHooks {
+    perform(action: string, callback: () => void): void;
+    say(utterance: string, callback: () => void): void;
+    halt(explanation: string): void;
+}
+
+export const ExecutionSettings: {replan: boolean, maxReplans: number} = {
+    maxReplans: 1,  // How many new plans are made for one command, before giving up
+    replan: false,  // If a new plan is made when a plan halts
+};
+
+/**
+ * Check if an action can be performed without breaking the physical laws.
+ * @param state: The world state to perform the action in.
+ * @param action: The action, or a step of all arms.
+ * @returns: A description of the problem, or undefined if the action can be performed.
+ */
+export function checkAction(state: WorldState, action: string): string | undefined {
+    const problem = checkStep(state, action);
+    if (problem !== undefined) {
+        return problem;
+    }
+    const arms = getArms(state);
+    for (let index = 0; index < arms.length; index++) {
+        const column = arms[index].arm;
+        const held = arms[index].holding as string;
+        const below = state.stacks[column][state.stacks[column].length - 1];
+        if (action[index] === "d" && below !== undefined && !canPlace(state.objects[held], state.objects[below])) {
+            const relation = state.objects[below].form === "box" ? "inside" : "on top of";
+            return `${arms.length > 1 ? `Arm ${index + 1}` : "The arm"} cannot drop "${held}", `
+                + `it cannot be ${relation} "${below}" in column ${column + 1}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Perform a plan, checking every action before it is performed. The narration is said on the way.
+ * @param state: The world state, which the world changes when it performs an action.
+ * @param plan: The plan.
+ * @param hooks: How the world performs actions and utterances, and explains why a plan halted.
+ * @param replan: Makes a new plan when a plan halts, or undefined to stop at the first refused action.
+ * @param callback: Called with the outcome when the plan is finished or has halted.
+ */
+export function executePlan(state: WorldState,
+                            plan: Plan,
+                            hooks: IExecutionHooks,
+                            replan: Replanner | undefined,
+                            callback: (result: IExecutionResult) => void): void {
+    const result: IExecutionResult = {completed: false, failures: [], performed: []};
+    let remaining = plan.steps.slice();
+    let index = 0;
+    const performNext = (): void => {
+        if (remaining.length === 0) {
+            result.completed = true;
+            callback(result);
+            return;
+        }
+        const step = remaining.shift()!;
+        if (step.kind === "narration") {
+            hooks.say(step.text, performNext);
+            return;
+        }
+
+        const action = step.action;
+        index++;
+        const reason = checkAction(state, action);
+        if (reason === undefined) {
+            result.performed.push(action);
+            hooks.perform(action, performNext);
+            return;
+        }
+        result.failures.push({action, index, reason});
+        hooks.halt(`Stopped before action "${action}" (action ${index} of the plan): ${reason}`);
+
+        // The refused action is not performed, a new plan starts from the state the world is in now
+        const next = replan && result.failures.length <= ExecutionSettings.maxReplans ? replan(state) : null;
+        if (next === null) {
+            callback(result);
+            return;
+        }
+        remaining = next.steps.slice();
+        index = 0;
+        hooks.say("I make a new plan from here.", performNext);
+    };
+    performNext();
+}
@@ -0,0 +1,250 @@
+import {Color, Form, SimpleObject, Size} from "../core/Types";
+import {canPlace} from "../planner/PlannerLowLevel";
+import {setArms} from "./Arms";
+import {ExampleWorlds} from "./ExampleWorlds";
+import {WorldState} from "./World";
+
+/*
+ * RandomWorld
+ *
+ * Generates random worlds from a seed, for regression and stress testing.
+ * A random world is named like "random:seed=42,cols=8,objs=20", where all parameters
+ * are optional. Objects are dropped one by one where canPlace allows, so the worlds
+ * always obey the physical laws.
+ *
+ * Parameters:
+ *   seed    The seed of the random number generator, the same seed gives the same world.
+ *   cols    The number of columns.
+ *   objs    The number of objects, fewer are placed if they do not fit.
+ *   height  The maximum number of objects in a stack.
+ *   forms   The forms to choose from, separated by "+", e.g. "forms=ball+box".
+ *   sizes   The sizes to choose from, e.g. "sizes=small".
+ *   colors  The colors to choose from, e.g. "colors=red+green+blue".
+ *   arms    The number of robot arms, each in its own column.
+ */
+
+export interface IRandomWorldOptions {
+    seed: number;
+    columns: number;
+    objects: number;
+    height: number;
+    forms: Form[];
+    sizes: Size[];
+    colors: Color[];
+    arms: number;
+}
+
+const prefix = "random";
+const allForms: Form[] = ["brick", "plank", "ball", "pyramid", "box", "table"];
+const allSizes: Size[] = ["small", "large"];
+const allColors: Color[] = ["red", "black", "blue", "green", "yellow", "white"];
+
+// Abbreviations for object names, in the style of the example worlds
+const nameParts: {[word: string]: string} = {
+    ball: "Ball", black: "Blk", blue: "Blu", box: "Box", brick: "Brck", green: "Grn", large: "Lrg", plank: "Plnk",
+    pyramid: "Prmd", red: "Red", small: "Sml", table: "Tble", white: "Wht", yellow: "Ylw",
+};
+
+const defaultOptions: IRandomWorldOptions = {
+    arms: 1,
+    colors: allColors,
+    columns: 6,
+    forms: allForms,
+    height: 5,
+    objects: 12,
+    seed: 1,
+    sizes: allSizes,
+};
+
+/**
+ * Check if a world name refers to a random world.
+ * @param name: The name of the world.
+ * @returns: True for names like "random" and "random:seed=42".
+ */
+export function isRandomWorldName(name: string): boolean {
+    return name === prefix || name.slice(0, prefix.length + 1) === prefix + ":";
+}
+
+/**
+ * Find a world by name, either one of the example worlds or a random world.
+ * @param name: The name of the world.
+ * @returns: The world state, or undefined if there is no such world.
+ *           If the name of a random world has invalid parameters, it throws an error.
+ */
+export function getWorldByName(name: string): WorldState | undefined {
+    if (isRandomWorldName(name)) {
+        return generateWorld(parseRandomWorldName(name));
+    }
+    return ExampleWorlds[name];
+}
+
+/**
+ * Read the parameters of a random world from its name.
+ * @param name: The name of the world, like "random:seed=42,cols=8,objs=20".
+ * @returns: The options, with defaults for missing parameters.
+ */
+export function parseRandomWorldName(name: string): IRandomWorldOptions {
+    const options: IRandomWorldOptions = {...defaultOptions};
+    const parameters = name.slice(prefix.length + 1).split(",").filter((parameter) => parameter !== "");
+    for (const parameter of parameters) {
+        const [key, value] = parameter.split("=");
+        switch (key) {
+            case "seed": options.seed = parseNumber(key, value, 0); break;
+            case "cols": options.columns = parseNumber(key, value, 1); break;
+            case "objs": options.objects = parseNumber(key, value, 0); break;
+            case "height": options.height = parseNumber(key, value, 1); break;
+            case "forms": options.forms = parseWords(key, value, allForms); break;
+            case "sizes": options.sizes = parseWords(key, value, allSizes); break;
+            case "colors": options.colors = parseWords(key, value, allColors); break;
+            case "arms": options.arms = parseNumber(key, value, 1); break;
+            default:
+                throw new Error(`Unknown parameter "${key}" of a random world, `
+                    + `the parameters are: seed, cols, objs, height, forms, sizes, colors, arms`);
+        }
+    }
+    if (options.arms > options.columns) {
+        throw new Error(`A random world with ${options.columns} columns cannot have ${options.arms} arms, `
+            + `every arm needs its own column`);
+    }
+    return options;
+}
+
+/**
+ * Generate a random world that obeys the physical laws.
+ * @param options: The parameters of the world.
+ * @returns: A world state with example utterances about its objects.
+ */
+export function generateWorld(options: IRandomWorldOptions): WorldState {
+    const random = createRandom(options.seed);
+    const stacks: string[][] = [];
+    for (let i = 0; i < options.columns; i++) {
+        stacks.push([]);
+    }
+    const objects: {[s: string]: SimpleObject} = {};
+
+    // Objects that do not fit anywhere are left out, so there can be fewer objects than requested
+    for (let i = 0; i < options.objects; i++) {
+        const object = new SimpleObject(pick(random, options.forms), pick(random, options.sizes),
+            pick(random, options.colors));
+        const columns = stacks
+            .map((_, column) => column)
+            .filter((column) => stacks[column].length < options.height
+                && canPlace(object, objects[stacks[column][stacks[column].length - 1]]));
+        if (columns.length > 0) {
+            const name = createName(object, objects);
+            objects[name] = object;
+            stacks[pick(random, columns)].push(name);
+        }
+    }
+
+    // Every arm gets its own column, a single arm is placed like before there were several arms
+    const free = stacks.map((_, column) => column);
+    const positions: number[] = [];
+    for (let i = 0; i < options.arms; i++) {
+        positions.push(free.splice(Math.floor(random() * free.length), 1)[0]);
+    }
+    positions.sort((a, b) => a - b);
+
+    const state: WorldState = {
+        arm: positions[0],
+        examples: [],
+        holding: null,
+        objects,
+        stacks,
+    };
+    setArms(state, positions.map((arm) => ({arm, holding: null})));
+    state.examples = createExamples(state, random);
+    return state;
+}
+
+/**
+ * Create example utterances about the objects of a world, using only descriptions
+ * that match a single object.
+ * @param state: The world.
+ * @param random: The random number generator.
+ * @returns: The utterances.
+ */
+function createExamples(state: WorldState, random: () => number): string[] {
+    const descriptions: {[name: string]: string} = {};
+    const counts: {[description: string]: number} = {};
+    for (const name of Object.keys(state.objects)) {
+        const object = state.objects[name];
+        descriptions[name] = `${object.size} ${object.color} ${object.form}`;
+        counts[descriptions[name]] = (counts[descriptions[name]] || 0) + 1;
+    }
+    const unique = Object.keys(state.objects).filter((name) => counts[descriptions[name]] === 1);
+    if (unique.length === 0) {
+        return [];
+    }
+
+    const a = pick(random, unique);
+    const b = pick(random, unique);
+    const examples = [
+        `take the ${descriptions[a]}`,
+        `put the ${descriptions[a]} on the floor`,
+        `where is the ${descriptions[b]}`,
+    ];
+    if (a !== b) {
+        examples.push(`put the ${descriptions[b]} beside the ${descriptions[a]}`);
+    }
+    const boxes = unique.filter((box) => state.objects[box].form === "box" && box !== b
+        && canPlace(state.objects[b], state.objects[box]));
+    if (boxes.length > 0) {
+        examples.push(`put the ${descriptions[b]} in the ${descriptions[pick(random, boxes)]}`);
+    }
+    const form = state.objects[a].form;
+    examples.push(`put all ${form === "box" ? "boxes" : form + "s"} on the floor`);
+    return examples;
+}
+
+/**
+ * Name an object after its size, color and form, like the objects of the example worlds.
+ * @param object: The object.
+ * @param objects: The objects that have already been named.
+ * @returns: A name that is not used yet, numbered if there are similar objects.
+ */
+function createName(object: SimpleObject, objects: {[s: string]: SimpleObject}): string {
+    const base = nameParts[object.size as string] + nameParts[object.color as string] + nameParts[object.form];
+    let name = base;
+    for (let n = 2; name in objects; n++) {
+        name = base + n;
+    }
+    return name;
+}
+
+/**
+ * Create a seeded random number generator (Park-Miller).
+ * @param seed: The seed.
+ * @returns: A function returning numbers between 0 (inclusive) and 1 (exclusive).
+ */
+function createRandom(seed: number): () => number {
+    const modulus = 2147483647;
+    let state = seed % (modulus - 1) + 1;
+    return () => {
+        state = state * 48271 % modulus;
+        return (state - 1) / (modulus - 1);
+    };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+function parseNumber(key: string, value: string | undefined, minimum: number): number {
+    const result = Number(value);
+    if (value === undefined || value === "" || isNaN(result) || result % 1 !== 0 || result < minimum) {
+        throw new Error(`The parameter "${key}" of a random world must be a whole number of at least ${minimum}`);
+    }
+    return result;
+}
+
+function parseWords<T extends string>(key: string, value: string | undefined, allowed: T[]): T[] {
+    const words = (value || "").split("+");
+    for (const word of words) {
+        if (allowed.indexOf(word as T) < 0) {
+            throw new Error(`The parameter "${key}" of a random world must be a "+" separated list `
+                + `of: ${allowed.join(", ")}`);
+        }
+    }
+    return words as T[];
+}
@@ -0,0 +1,85 @@
+import {TextWorld} from "./TextWorld";
+import {WorldState} from "./World";
+import {serializeWorldState} from "./WorldFile";
+
+/*
+ * RecordingWorld
+ *
+ * A text world that keeps its output instead of printing it, for the batch mode of 'shrdlite-offline.ts'.
+ * The world is never drawn, and the output can be taken after every utterance.
+ * A listener can follow what happens while a plan is performed, which 'shrdlite-server.ts' streams to its clients.
+ */
+
+export interface IRecordedError {
+    error: string;
+    message?: string;
+}
+
+/**
+ * Something that happened in the world: the robot said something, performed an action, or an error occurred.
+ * The world state after an action is written like a world file.
+ */
+export type WorldEvent =
+    {type: "say", text: string} |
+    {type: "action", action: string, world: object} |
+    {type: "error", error: string, message?: string};
+
+export class RecordingWorld extends TextWorld {
+    public output: string[] = [];
+    public debug: string[] = [];
+    public errors: IRecordedError[] = [];
+    public onEvent?: (event: WorldEvent) => void;
+
+    constructor(currentState: WorldState) {
+        super(currentState);
+    }
+
+    public printSystemOutput(output: string, participant?: string): void {
+        if (participant !== "user") {
+            this.output.push(output);
+            this.emit({text: output, type: "say"});
+        }
+    }
+
+    public printDebugInfo(info: string): void {
+        this.debug.push(info);
+    }
+
+    public printError(error: string, message?: string): void {
+        // Errors thrown by the pipeline are passed on as they are, so they are not always strings
+        const recorded: IRecordedError = message === undefined ? {error} : {error, message: describeError(message)};
+        this.errors.push(recorded);
+        this.emit({...recorded, type: "error"});
+    }
+
+    public printWorld(callback?: () => void): void {
+        if (callback) { callback(); }
+    }
+
+    /**
+     * Forget the output recorded so far.
+     */
+    public clear(): void {
+        this.output = [];
+        this.debug = [];
+        this.errors = [];
+    }
+
+    protected performAction(action: string, callback: () => void): void {
+        super.performAction(action, () => {
+            // The world state is only written when someone listens, batches can be long
+            if (this.onEvent) {
+                this.emit({action, type: "action", world: JSON.parse(serializeWorldState(this.currentState))});
+            }
+            callback();
+        });
+    }
+
+    private emit(event: WorldEvent): void {
+        if (this.onEvent) { this.onEvent(event); }
+    }
+}
+
+function describeError(message: any): string {
+    return message instanceof Error ? message.message : String(message);
+}
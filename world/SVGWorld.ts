@@ -1,5 +1,8 @@
 import * as $ from "jquery";
-import {World, WorldState} from "./World";
+import {Plan} from "../core/Plan";
+import {checkStep, countArms, getArms, isStep, setArms} from "./Arms";
+import {executePlan, IExecutionResult, Replanner} from "./PlanExecution";
+import {IArmState, World, WorldState} from "./World";
 
 /*
  * SVGWorld
@@ -160,21 +163,24 @@ export class SVGWorld implements World {
             fill: "black",
         }).appendTo(svg);
 
-        // The arm:
-        $(this.SVG("line")).attr({
-            "id": "arm",
-            "x1": this.stackWidth() * this.currentState.arm + this.stackWidth() / 2,
-            "y1": this.armSize * this.stackWidth() - this.canvasHeight,
-            "x2": this.stackWidth() * this.currentState.arm + this.stackWidth() / 2,
-            "y2": this.armSize * this.stackWidth(),
-            "stroke": "black",
-            "stroke-width": this.armSize * this.stackWidth(),
-        }).appendTo(svg);
-
-        // If the arm is holding an object:
-        if (this.currentState.holding) {
-            this.makeObject(svg, this.currentState.holding, this.currentState.arm, 0);
-        }
+        // The arms, which are moved to their columns like the objects:
+        getArms(this.currentState).forEach((arm, index) => {
+            const line = $(this.SVG("line")).attr({
+                "id": armId(index),
+                "x1": this.stackWidth() / 2,
+                "y1": this.armSize * this.stackWidth() - this.canvasHeight,
+                "x2": this.stackWidth() / 2,
+                "y2": this.armSize * this.stackWidth(),
+                "stroke": "black",
+                "stroke-width": this.armSize * this.stackWidth(),
+            }).appendTo(svg);
+            this.animateMotion(line, ["M", arm.arm * this.stackWidth() + this.wallSeparation, 0], 0, 0);
+
+            // If the arm is holding an object:
+            if (arm.holding) {
+                this.makeObject(svg, arm.holding, arm.arm, 0);
+            }
+        });
 
         // The objects on the floor:
         let timeout = 0;
@@ -190,42 +196,32 @@ export class SVGWorld implements World {
         }
     }
 
-    public performPlan(plan: string[], callback?: () => void): void {
+    public performPlan(plan: Plan, callback?: (result: IExecutionResult) => void, replan?: Replanner): void {
         if (this.isSpeaking()) {
-            setTimeout(() => this.performPlan(plan, callback), this.animationPause * 1000);
+            setTimeout(() => this.performPlan(plan, callback, replan), this.animationPause * 1000);
             return;
         }
-        let planctr = 0;
-        const performNextAction = () => {
-            planctr++;
-            if (plan && plan.length) {
-                const item = (plan.shift() as string) .trim();
-                const action = this.getAction(item);
-                if (action) {
-                    try {
-                        action.call(this, performNextAction);
-                    } catch (err) {
-                        this.printError(err);
-                        if (callback) { setTimeout(callback, this.promptPause * 1000); }
-                    }
-                } else {
-                    if (item && item[0] !== "#") {
-                        if (this.isSpeaking()) {
-                            plan.unshift(item);
-                            setTimeout(performNextAction, this.animationPause * 1000);
-                        } else {
-                            this.printSystemOutput(item);
-                            performNextAction();
-                        }
-                    } else {
-                        performNextAction();
-                    }
-                }
+        const say = (utterance: string, next: () => void): void => {
+            if (this.isSpeaking()) {
+                setTimeout(() => say(utterance, next), this.animationPause * 1000);
             } else {
-                if (callback) { setTimeout(callback, this.promptPause * 1000); }
+                this.printSystemOutput(utterance);
+                next();
             }
         };
-        performNextAction();
+        executePlan(this.currentState, plan, {
+            halt: (explanation) => this.printError("[Plan halted]", explanation),
+            perform: (action, next) => (this.getAction(action) as (callback: () => void) => void).call(this, next),
+            say,
+        }, replan, (result) => {
+            if (callback) { setTimeout(() => callback(result), this.promptPause * 1000); }
+        });
+    }
+
+    public restoreState(state: WorldState): void {
+        this.currentState.stacks = state.stacks.map((stack) => stack.slice());
+        setArms(this.currentState, getArms(state));
+        this.printWorld();
     }
 
     private stackWidth(): number {
@@ -255,7 +251,12 @@ export class SVGWorld implements World {
     //////////////////////////////////////////////////////////////////////
     // The basic actions: left, right, pick, drop
 
-    private getAction(act: string): (callback: () => void) => void {
+    private getAction(act: string): ((callback: () => void) => void) | undefined {
+        // With several arms, the actions are steps of all arms
+        const arms = countArms(this.currentState);
+        if (arms > 1) {
+            return isStep(act.toLowerCase(), arms) ? (callback) => this.step(act.toLowerCase(), callback) : undefined;
+        }
         const actions: {[act: string]: (callback: () => void) => void}
             = {p: this.pick, d: this.drop, l: this.left, r: this.right};
         return actions[act.toLowerCase()];
@@ -265,21 +266,21 @@ export class SVGWorld implements World {
         if (this.currentState.arm <= 0) {
             throw new Error("Already at left edge!");
         }
-        this.horizontalMove(this.currentState.arm - 1, callback);
+        this.horizontalMove(0, this.currentState.arm - 1, callback);
     }
 
     private right(callback: () => void): void {
         if (this.currentState.arm >= this.currentState.stacks.length - 1) {
             throw new Error("Already at right edge!");
         }
-        this.horizontalMove(this.currentState.arm + 1, callback);
+        this.horizontalMove(0, this.currentState.arm + 1, callback);
     }
 
     private drop(callback: () => void): void {
         if (!this.currentState.holding) {
             throw new Error("Not holding anything!");
         }
-        this.verticalMove("drop", callback);
+        this.verticalMove(0, "drop", callback);
         this.currentState.stacks[this.currentState.arm].push(this.currentState.holding);
         this.currentState.holding = null;
     }
@@ -289,44 +290,82 @@ export class SVGWorld implements World {
             throw new Error("Already holding something!");
         }
         this.currentState.holding = this.currentState.stacks[this.currentState.arm].pop() as string;
-        this.verticalMove("pick", callback);
+        this.verticalMove(0, "pick", callback);
+    }
+
+    // All arms move at the same time, the next action waits for the slowest arm
+    private step(step: string, callback: () => void): void {
+        const problem = checkStep(this.currentState, step);
+        if (problem !== undefined) {
+            throw new Error(problem);
+        }
+        let duration = 0;
+        getArms(this.currentState).forEach((arm, index) => {
+            const stack = this.currentState.stacks[arm.arm];
+            switch (step[index]) {
+                case "l":
+                case "r":
+                    const column = arm.arm + (step[index] === "l" ? -1 : 1);
+                    duration = Math.max(duration, this.horizontalMove(index, column));
+                    break;
+                case "p":
+                    this.updateArm(index, (changed) => changed.holding = stack.pop() as string);
+                    duration = Math.max(duration, this.verticalMove(index, "pick"));
+                    break;
+                case "d":
+                    duration = Math.max(duration, this.verticalMove(index, "drop"));
+                    stack.push(arm.holding as string);
+                    this.updateArm(index, (changed) => changed.holding = null);
+                    break;
+            }
+        });
+        setTimeout(callback, duration * 1000);
+    }
+
+    private updateArm(index: number, change: (arm: IArmState) => void): void {
+        const arms = getArms(this.currentState);
+        change(arms[index]);
+        setArms(this.currentState, arms);
     }
 
     //////////////////////////////////////////////////////////////////////
-    // Moving around
+    // Moving around, these return the seconds the animation takes
 
-    private horizontalMove(newArm: number, callback?: () => void): void {
-        const xArm = this.currentState.arm * this.stackWidth() + this.wallSeparation;
+    private horizontalMove(index: number, newArm: number, callback?: () => void): number {
+        const current = getArms(this.currentState)[index];
+        const xArm = current.arm * this.stackWidth() + this.wallSeparation;
         const xNewArm = newArm * this.stackWidth() + this.wallSeparation;
         const path1 = ["M", xArm, 0, "H", xNewArm];
         const duration = Math.abs(xNewArm - xArm) / this.armSpeed;
-        const arm = $("#arm");
+        const arm = $("#" + armId(index));
         this.animateMotion(arm, path1, 0, duration);
-        if (this.currentState.holding) {
-            const objectHeight = this.getObjectDimensions(this.currentState.holding).heightadd;
+        if (current.holding) {
+            const objectHeight = this.getObjectDimensions(current.holding).heightadd;
             const yArm = -(this.canvasHeight - this.armSize * this.stackWidth() - objectHeight);
             const path2 = ["M", xArm, yArm, "H", xNewArm];
-            const object = $("#" + this.currentState.holding);
+            const object = $("#" + current.holding);
             this.animateMotion(object, path2, 0, duration);
         }
-        this.currentState.arm = newArm;
+        this.updateArm(index, (changed) => changed.arm = newArm);
         if (callback) { setTimeout(callback, (duration + this.animationPause) * 1000); }
+        return duration + this.animationPause;
     }
 
-    private verticalMove(action: string, callback?: () => void): void {
-        const altitude = this.getAltitude(this.currentState.arm);
+    private verticalMove(index: number, action: string, callback?: () => void): number {
+        const current = getArms(this.currentState)[index];
+        const altitude = this.getAltitude(current.arm);
         let yArm = this.canvasHeight - altitude - this.armSize * this.stackWidth();
-        if (this.currentState.holding) {
-            yArm -= this.getObjectDimensions(this.currentState.holding).heightadd;
+        if (current.holding) {
+            yArm -= this.getObjectDimensions(current.holding).heightadd;
         }
         const yStack = -altitude;
-        const xArm = this.currentState.arm * this.stackWidth() + this.wallSeparation;
+        const xArm = current.arm * this.stackWidth() + this.wallSeparation;
 
         const path1 = ["M", xArm, 0, "V", yArm];
         const path2 = ["M", xArm, yArm, "V", 0];
         const duration = (Math.abs(yArm)) / this.armSpeed;
-        const arm = $("#arm");
-        const object = $("#" + this.currentState.holding);
+        const arm = $("#" + armId(index));
+        const object = $("#" + current.holding);
 
         this.animateMotion(arm, path1, 0, duration);
         this.animateMotion(arm, path2, duration + this.animationPause, duration);
@@ -338,6 +377,7 @@ export class SVGWorld implements World {
             this.animateMotion(object, path3, 0, duration);
         }
         if (callback) { setTimeout(callback, 2 * (duration + this.animationPause) * 1000); }
+        return 2 * (duration + this.animationPause);
     }
 
     //////////////////////////////////////////////////////////////////////
@@ -378,7 +418,7 @@ export class SVGWorld implements World {
         const dim = this.getObjectDimensions(objectid);
 
         let altitude: number;
-        if (objectid === this.currentState.holding) {
+        if (getArms(this.currentState).some((arm) => arm.holding === objectid)) {
             altitude = this.canvasHeight - this.armSize * this.stackWidth() - dim.heightadd;
         } else {
             altitude = this.getAltitude(stacknr, objectid);
@@ -487,6 +527,11 @@ export class SVGWorld implements World {
 
 }
 
+// The HTML id of an arm, the first arm keeps the id it had when there was only one
+function armId(index: number): string {
+    return index === 0 ? "arm" : "arm" + index;
+}
+
 //////////////////////////////////////////////////////////////////////
 // Additions to the TypeScript standard library
 
@@ -1,23 +1,33 @@
 
+import * as readline from "readline";
+import {Plan} from "../core/Plan";
 import {SimpleObject} from "../core/Types";
+import {countArms, getArms, isStep, performStep, setArms} from "./Arms";
+import {executePlan, IExecutionResult, Replanner} from "./PlanExecution";
 import {World, WorldState} from "./World";
 
 /*
  * TextWorld
  *
  * This is the implementation of the World interface, for the command-line version.
- * It is used by 'shrdlite-offline.ts'.
+ * It is used by 'shrdlite-offline.ts'. User input is read from a terminal,
+ * which is only there when the robot talks to the user, see Repl.ts.
  *
  * You don't have to edit this file.
  */
 export class TextWorld implements World {
+    public input?: readline.ReadLine;  // The terminal that user input is read from
+    public showDebugInfo = true;       // If debug information is printed
 
     constructor(public currentState: WorldState) {
         if (!this.currentState.arm) { this.currentState.arm = 0; }
     }
 
     public readUserInput(prompt: string, callback: (input: string) => void): void {
-        throw new Error("Not implemented!");
+        if (!this.input) {
+            throw new Error("Not implemented!");
+        }
+        this.input.question(prompt, callback);
     }
 
     public printSystemOutput(output: string, participant?: string): void {
@@ -28,7 +38,9 @@ export class TextWorld implements World {
     }
 
     public printDebugInfo(info: string): void {
-        console.log(info);
+        if (this.showDebugInfo) {
+            console.log(info);
+        }
     }
 
     public printError(error: string, message?: string): void {
@@ -45,13 +57,14 @@ export class TextWorld implements World {
         }));
 
         console.log(" " + repeat("_", stacks.length * stackWidth - 1));
-        const left = repeat(" ", this.currentState.arm * stackWidth);
-        const right = repeat(" ", (stacks.length - this.currentState.arm - 1) * stackWidth);
         {
-            let line = left + center("\\_/", stackWidth) + right;
+            // Every arm is drawn above its column, with the object it holds below it
+            const arms = getArms(this.currentState);
+            const armAt = (x: number) => arms.filter((arm) => arm.arm === x)[0];
+            let line = stacks.map((_, x) => center(armAt(x) ? "\\_/" : "", stackWidth)).join("");
             console.log("|" + line.slice(1) + "|");
-            if (this.currentState.holding) {
-                const line = left + center(this.currentState.holding, stackWidth) + right;
+            if (arms.some((arm) => arm.holding !== null)) {
+                const line = stacks.map((_, x) => center(armAt(x) && armAt(x).holding || "", stackWidth)).join("");
                 console.log("|" + line.slice(1) + "|");
             }
         }
@@ -67,7 +80,7 @@ export class TextWorld implements World {
         {
             let line = "";
             for (let x = 0; x < stacks.length; x++) {
-                line += center(x + "", stackWidth);
+                line += center(x + 1 + "", stackWidth);
             }
             console.log(line);
         }
@@ -87,43 +100,52 @@ export class TextWorld implements World {
         if (callback) { callback(); }
     }
 
-    public performPlan(plan: string[], callback?: () => void): void {
-        let planctr = 0;
-        const world = this;
-        function performNextAction() {
-            planctr++;
-            if (plan && plan.length > 0) {
-                const item = (plan.shift() as string) .trim();
-                const action = world.getAction(item);
-                if (action) {
-                    try {
-                        action.call(world, performNextAction);
-                    } catch (err) {
-                        world.printSystemOutput("ERROR: " + err);
-                        if (callback) { setTimeout(callback, 1); }
-                    }
-                } else {
-                    if (item && item[0] != "#") {
-                        world.printSystemOutput(item);
-                    }
-                    performNextAction();
-                }
-            } else {
-                if (callback) { setTimeout(callback, 1); }
-            }
-        }
-        performNextAction();
+    public performPlan(plan: Plan, callback?: (result: IExecutionResult) => void, replan?: Replanner): void {
+        executePlan(this.currentState, plan, {
+            halt: (explanation) => this.printSystemOutput("ERROR: " + explanation),
+            perform: (action, next) => this.performAction(action, next),
+            say: (utterance, next) => {
+                this.printSystemOutput(utterance);
+                next();
+            },
+        }, replan, (result) => {
+            if (callback) { callback(result); }
+        });
+    }
+
+    public restoreState(state: WorldState): void {
+        this.currentState.stacks = state.stacks.map((stack) => stack.slice());
+        setArms(this.currentState, getArms(state));
     }
 
     //////////////////////////////////////////////////////////////////////
     // The basic actions: left, right, pick, drop
 
-    private getAction(act: string): (callback: () => void) => void {
+    /**
+     * Perform an action that has been checked against the physical laws.
+     * @param action: The action, or a step of all arms.
+     * @param callback: Called when the action is performed.
+     */
+    protected performAction(action: string, callback: () => void): void {
+        (this.getAction(action) as (callback: () => void) => void).call(this, callback);
+    }
+
+    private getAction(act: string): ((callback: () => void) => void) | undefined {
+        // With several arms, the actions are steps of all arms
+        const arms = countArms(this.currentState);
+        if (arms > 1) {
+            return isStep(act.toLowerCase(), arms) ? (callback) => this.step(act.toLowerCase(), callback) : undefined;
+        }
         const actions: {[act: string]: (callback: () => void) => void}
             = {p: this.pick, d: this.drop, l: this.left, r: this.right};
         return actions[act.toLowerCase()];
     }
 
+    private step(step: string, callback: () => void): void {
+        performStep(this.currentState, step);
+        callback();
+    }
+
     private left(callback: () => void): void {
         if (this.currentState.arm <= 0) {
             throw new Error("Already at left edge!");
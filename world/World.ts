@@ -1,5 +1,7 @@
 
+import {Plan} from "../core/Plan";
 import {SimpleObject} from "../core/Types";
+import {IExecutionResult, Replanner} from "./PlanExecution";
 
 /*
  * World
@@ -17,10 +19,19 @@ export interface WorldState {
     stacks: string[][];    // Where the objects are located in the world.
     holding: string | null; // Which object the robot is currently holding, or null if not holding anything.
     arm: number;        // The column position of the robot arm.
+    otherArms?: IArmState[]; // Further robot arms to the right of the first one, ordered from left to right.
     examples: string[];     // List of predefined example utterances that the user can choose from in the UI.
     objects: {[s: string]: SimpleObject}; // A mapping from object id's to object definitions
 }
 
+/*
+ * The state of a robot arm, in worlds with several arms. See Arms.ts.
+ */
+export interface IArmState {
+    arm: number;             // The column position of the arm.
+    holding: string | null;  // Which object the arm is holding, or null if not holding anything.
+}
+
 /*
  * Interface for a world. Abstracts over the I/O required to read user input,
  * print the world and perform a plan. This is needed to support the backends,
@@ -30,7 +41,9 @@ export interface World {
     currentState: WorldState;
 
     printWorld(callback?: () => void): void;
-    performPlan(plan: string[], callback?: () => void): void;
+    // Every action is checked before it is performed, see PlanExecution.ts
+    performPlan(plan: Plan, callback?: (result: IExecutionResult) => void, replan?: Replanner): void;
+    restoreState(state: WorldState): void;
 
     readUserInput(prompt: string, callback: (input: string) => void): void;
     printSystemOutput(output: string, participant?: string): void;
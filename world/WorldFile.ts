@@ -0,0 +1,128 @@
+import {Color, Form, SimpleObject, Size} from "../core/Types";
+import {WorldState} from "./World";
+
+/*
+ * WorldFile
+ *
+ * Reading and writing world states as JSON, so that worlds can be kept in files
+ * instead of being added to 'ExampleWorlds.ts'.
+ * A world file has the same fields as a WorldState, where every object is
+ * written as {"form": ..., "size": ..., "color": ...}.
+ */
+
+const forms: Form[] = ["brick", "plank", "ball", "pyramid", "box", "table"];
+const sizes: Size[] = ["small", "large"];
+const colors: Color[] = ["red", "black", "blue", "green", "yellow", "white"];
+
+/**
+ * Read a world state from JSON, checking that it has the structure of a WorldState.
+ * @param json: The contents of a world file.
+ * @returns: The world state.
+ *           If the JSON is malformed or does not describe a world state, it throws an error saying what is wrong.
+ */
+export function parseWorldState(json: string): WorldState {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (err) {
+        throw new Error(`The world file is not valid JSON: ${err.message}`);
+    }
+    if (!isRecord(data)) {
+        throw new Error("The world file must contain an object with the fields of a world state");
+    }
+
+    if (!Array.isArray(data.stacks) || !data.stacks.every(isStringArray)) {
+        throw new Error(`"stacks" must be a list of stacks, where each stack is a list of object names`);
+    }
+    if (data.holding !== undefined && data.holding !== null && typeof data.holding !== "string") {
+        throw new Error(`"holding" must be an object name or null`);
+    }
+    if (data.arm !== undefined && (typeof data.arm !== "number" || data.arm % 1 !== 0)) {
+        throw new Error(`"arm" must be a column number`);
+    }
+    if (data.otherArms !== undefined && (!Array.isArray(data.otherArms) || !data.otherArms.every(isArmState))) {
+        throw new Error(`"otherArms" must be a list of arms, `
+            + `where each arm is {"arm": column number, "holding": object name or null}`);
+    }
+    if (data.examples !== undefined && !isStringArray(data.examples)) {
+        throw new Error(`"examples" must be a list of utterances`);
+    }
+    if (!isRecord(data.objects)) {
+        throw new Error(`"objects" must map object names to object definitions`);
+    }
+
+    const objects: {[s: string]: SimpleObject} = {};
+    for (const name of Object.keys(data.objects)) {
+        objects[name] = parseObject(name, data.objects[name]);
+    }
+    const state: WorldState = {
+        arm: data.arm === undefined ? 0 : data.arm,
+        examples: data.examples === undefined ? [] : data.examples,
+        holding: data.holding === undefined ? null : data.holding,
+        objects,
+        stacks: data.stacks,
+    };
+    if (data.otherArms !== undefined && data.otherArms.length > 0) {
+        state.otherArms = data.otherArms.map((arm: any) => ({arm: arm.arm, holding: arm.holding}));
+    }
+    return state;
+}
+
+/**
+ * Write a world state as JSON, in the format read by parseWorldState.
+ * @param state: The world state.
+ * @returns: The contents of a world file.
+ */
+export function serializeWorldState(state: WorldState): string {
+    const objects: {[s: string]: {form: Form, size: Size | null, color: Color | null}} = {};
+    for (const name of Object.keys(state.objects)) {
+        const object = state.objects[name];
+        objects[name] = {color: object.color, form: object.form, size: object.size};
+    }
+    return JSON.stringify({
+        arm: state.arm,
+        examples: state.examples,
+        holding: state.holding,
+        objects,
+        otherArms: state.otherArms,
+        stacks: state.stacks,
+    }, null, 2) + "\n";
+}
+
+/**
+ * Read the definition of an object.
+ * @param name: The name of the object, used in error messages.
+ * @param data: The parsed JSON of the definition.
+ * @returns: The object.
+ */
+function parseObject(name: string, data: any): SimpleObject {
+    if (!isRecord(data)) {
+        throw new Error(`Object "${name}" must be defined as {"form": ..., "size": ..., "color": ...}`);
+    }
+    if (forms.indexOf(data.form) < 0) {
+        throw new Error(`Object "${name}" has form ${JSON.stringify(data.form)}, `
+            + `it should be one of: ${forms.join(", ")}`);
+    }
+    if (sizes.indexOf(data.size) < 0) {
+        throw new Error(`Object "${name}" has size ${JSON.stringify(data.size)}, `
+            + `it should be one of: ${sizes.join(", ")}`);
+    }
+    if (colors.indexOf(data.color) < 0) {
+        throw new Error(`Object "${name}" has color ${JSON.stringify(data.color)}, `
+            + `it should be one of: ${colors.join(", ")}`);
+    }
+    return new SimpleObject(data.form, data.size, data.color);
+}
+
+function isRecord(data: any): boolean {
+    return typeof data === "object" && data !== null && !Array.isArray(data);
+}
+
+function isArmState(data: any): boolean {
+    return isRecord(data) && typeof data.arm === "number" && data.arm % 1 === 0
+        && (data.holding === null || typeof data.holding === "string");
+}
+
+function isStringArray(data: any): boolean {
+    return Array.isArray(data) && data.every((item: any) => typeof item === "string");
+}
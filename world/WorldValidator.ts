@@ -0,0 +1,91 @@
+import {canPlace} from "../planner/PlannerLowLevel";
+import {getArms} from "./Arms";
+import {WorldState} from "./World";
+
+/*
+ * WorldValidator
+ *
+ * Checks that a world state obeys the physical laws before it is used,
+ * since the planner assumes that the world it starts from is valid.
+ */
+
+export type ViolationKind =
+      "no stacks"         // The world has no columns
+    | "arm position"      // An arm is outside the columns, or not to the right of the arm before it
+    | "unknown object"    // An object in a stack or in the arm has no definition
+    | "duplicate object"  // An object is in more than one place
+    | "unused object"     // An object is defined, but neither in a stack nor in the arm
+    | "unsupported"       // An object is on top of or inside an object that cannot support it
+;
+
+export interface IViolation {
+    kind: ViolationKind;
+    objects: string[];  // The names of the objects involved, if any
+    message: string;    // A description of the violation
+}
+
+/**
+ * Find all violations of the physical laws in a world state.
+ * Every stack is checked from the bottom to the top with canPlace, as if the objects were dropped one by one.
+ * @param state: The world state to check.
+ * @returns: The violations, empty if the world state is valid.
+ */
+export function validateWorld(state: WorldState): IViolation[] {
+    const violations: IViolation[] = [];
+    const report = (kind: ViolationKind, objects: string[], message: string) =>
+        violations.push({kind, message, objects});
+
+    if (state.stacks.length === 0) {
+        report("no stacks", [], "The world has no columns");
+    } else if (state.arm < 0 || state.arm >= state.stacks.length || state.arm % 1 !== 0) {
+        report("arm position", [], `The arm is at column ${state.arm + 1}, `
+            + `but the columns are numbered from 1 to ${state.stacks.length}`);
+    }
+    const arms = getArms(state);
+    for (let index = 1; index < arms.length && state.stacks.length > 0; index++) {
+        const column = arms[index].arm;
+        if (column < 0 || column >= state.stacks.length || column % 1 !== 0) {
+            report("arm position", [], `Arm ${index + 1} is at column ${column + 1}, `
+                + `but the columns are numbered from 1 to ${state.stacks.length}`);
+        } else if (column <= arms[index - 1].arm) {
+            report("arm position", [], `Arm ${index + 1} is at column ${column + 1}, `
+                + `but it must be to the right of arm ${index} at column ${arms[index - 1].arm + 1}`);
+        }
+    }
+
+    // Remember where each object was seen, to report duplicates and unused definitions
+    const places: {[name: string]: string} = {};
+    const place = (name: string, where: string) => {
+        if (!(name in state.objects)) {
+            report("unknown object", [name], `Object "${name}" in ${where} is not defined`);
+        } else if (name in places) {
+            report("duplicate object", [name], `Object "${name}" is both in ${places[name]} and in ${where}`);
+        }
+        places[name] = where;
+    };
+
+    state.stacks.forEach((stack, column) => {
+        stack.forEach((name, height) => {
+            place(name, `column ${column + 1}`);
+            const below = stack[height - 1];
+            if (height > 0 && name in state.objects && below in state.objects
+                && !canPlace(state.objects[name], state.objects[below])) {
+                const relation = state.objects[below].form === "box" ? "inside" : "on top of";
+                report("unsupported", [name, below],
+                    `Object "${name}" cannot be ${relation} "${below}" in column ${column + 1}`);
+            }
+        });
+    });
+    arms.forEach((arm, index) => {
+        if (arm.holding !== null) {
+            place(arm.holding, arms.length > 1 ? `arm ${index}` : "the arm");
+        }
+    });
+
+    for (const name of Object.keys(state.objects)) {
+        if (!(name in places)) {
+            report("unused object", [name], `Object "${name}" is defined, but it is not in the world`);
+        }
+    }
+    return violations;
+}